@@ -43,6 +43,9 @@ struct SBPLConvertCLI {
       }
       checkSyntax(path: arguments[2])
 
+    case "serve":
+      serve()
+
     default:
       // Assume it's a file path for syntax checking
       checkSyntax(path: command)
@@ -60,6 +63,7 @@ struct SBPLConvertCLI {
         to-json <FILE>    Convert SBPL file to JSON
         to-sbpl <FILE>    Convert JSON file to SBPL
         check <FILE>      Check SBPL syntax without converting
+        serve             Check profiles sent as JSON lines on stdin
         -h, --help        Show this help message
         -v, --version     Show version
 
@@ -130,6 +134,48 @@ struct SBPLConvertCLI {
     }
   }
 
+  /// Checks profiles sent on stdin until it closes, so editors can keep one
+  /// process running instead of starting one per check.
+  ///
+  /// Each request is a line of JSON, `{"id": 1, "text": "..."}`, answered on
+  /// stdout by `{"id": 1, "diagnostics": [...]}` with 1-based lines and
+  /// columns. Malformed requests are reported on stderr and skipped.
+  static func serve() {
+    let converter = SBPLToJSON()
+
+    while let line = readLine() {
+      guard
+        let data = line.data(using: .utf8),
+        let request = (try? JSONSerialization.jsonObject(with: data)) as? [String: Any],
+        let id = request["id"] as? Int,
+        let text = request["text"] as? String
+      else {
+        fputs("Error: Invalid request: \(line)\n", stderr)
+        continue
+      }
+
+      let result = converter.convert(source: text, path: request["path"] as? String)
+      let response: [String: Any] = ["id": id, "diagnostics": result.diagnostics.map(diagnosticJSON)]
+      guard let json = try? JSONSerialization.data(withJSONObject: response) else {
+        fputs("Error: Cannot encode diagnostics for request \(id)\n", stderr)
+        continue
+      }
+      FileHandle.standardOutput.write(json + Data("\n".utf8))
+    }
+  }
+
+  static func diagnosticJSON(_ diag: Diagnostic) -> [String: Any] {
+    func position(_ position: SourcePosition) -> [String: Int] {
+      ["line": position.line + 1, "column": position.column + 1]
+    }
+    return [
+      "code": diag.code.rawValue,
+      "severity": diag.severity.rawValue,
+      "message": diag.message,
+      "range": ["start": position(diag.range.start), "end": position(diag.range.end)],
+    ]
+  }
+
   static func readFile(at path: String) -> String? {
     // Support reading from stdin with "-"
     if path == "-" {
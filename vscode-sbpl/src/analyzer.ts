@@ -0,0 +1,131 @@
+import type { Profile, Rule } from './ast.js';
+import { createDiagnostic, DiagnosticCode, type Diagnostic } from './diagnostics.js';
+import {
+  buildDefinitionTable,
+  filterCovers,
+  ruleFilter,
+  ruleOperationNames,
+  type DefinitionTable,
+} from './filters.js';
+import { operationCovers, operationsOverlap } from './operations.js';
+
+/**
+ * Shadowed and redundant rule analysis.
+ *
+ * The last rule matching an access decides it, so a rule is dead when a later
+ * rule matches everything it matches. A later rule with the opposite action
+ * makes it unreachable (W001); one with the same action makes it redundant
+ * (W003). Operations listed next to a wildcard that covers them are also
+ * redundant. `default` rules are the fallback and take no part in this.
+ */
+export function analyzeRules(profile: Profile, definitions?: DefinitionTable): Diagnostic[] {
+  const table = definitions ?? buildDefinitionTable(profile.definitions);
+  const diagnostics: Diagnostic[] = [];
+
+  const rules = profile.rules.filter((rule) => {
+    const operations = ruleOperationNames(rule, table);
+    return operations.length > 0 && !operations.includes('default');
+  });
+
+  for (const rule of rules) {
+    diagnostics.push(...redundantOperations(rule, table));
+  }
+
+  for (let i = 0; i < rules.length; i++) {
+    const rule = rules[i];
+    const later = rules.slice(i + 1).reverse().find((other) => ruleCovers(other, rule, table));
+    if (later) {
+      diagnostics.push(shadowDiagnostic(rule, later));
+      continue;
+    }
+
+    const earlier = findEarlierEquivalent(rules, i, table);
+    if (earlier) {
+      diagnostics.push(createDiagnostic(
+        DiagnosticCode.RedundantRule,
+        `Redundant rule: an earlier ${earlier.action} rule already covers it`,
+        rule.range,
+        [{ range: earlier.range, message: 'Already covered by this rule' }]
+      ));
+    }
+  }
+
+  return diagnostics;
+}
+
+/** Whether `a` matches every access that `b` matches. */
+export function ruleCovers(a: Rule, b: Rule, definitions: DefinitionTable): boolean {
+  const aOps = ruleOperationNames(a, definitions);
+  const bOps = ruleOperationNames(b, definitions);
+  return bOps.every((op) => aOps.some((pattern) => operationCovers(pattern, op)))
+    && filterCovers(ruleFilter(a, definitions), ruleFilter(b, definitions), definitions);
+}
+
+function shadowDiagnostic(rule: Rule, shadowing: Rule): Diagnostic {
+  if (shadowing.action === rule.action) {
+    return createDiagnostic(
+      DiagnosticCode.RedundantRule,
+      `Redundant rule: a later ${shadowing.action} rule matches every access it matches`,
+      rule.range,
+      [{ range: shadowing.range, message: 'Superseded by this rule' }]
+    );
+  }
+  return createDiagnostic(
+    DiagnosticCode.UnreachableCode,
+    `Unreachable rule: a later ${shadowing.action} rule overrides every access it matches`,
+    rule.range,
+    [{ range: shadowing.range, message: 'Shadowed by this rule' }]
+  );
+}
+
+/**
+ * Finds an earlier rule with the same action that covers `rules[index]`, as
+ * long as no rule in between could have changed the decision.
+ */
+function findEarlierEquivalent(rules: Rule[], index: number, definitions: DefinitionTable): Rule | undefined {
+  const rule = rules[index];
+  const operations = ruleOperationNames(rule, definitions);
+
+  for (let j = index - 1; j >= 0; j--) {
+    const other = rules[j];
+    if (other.action !== rule.action) {
+      const interferes = ruleOperationNames(other, definitions)
+        .some((op) => operations.some((own) => operationsOverlap(op, own)));
+      if (interferes) {
+        return undefined;
+      }
+      continue;
+    }
+    if (ruleCovers(other, rule, definitions)) {
+      return other;
+    }
+  }
+  return undefined;
+}
+
+function redundantOperations(rule: Rule, definitions: DefinitionTable): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const operations = rule.operations.filter((op) => !definitions.has(op.name));
+
+  operations.forEach((op, index) => {
+    const covering = operations.find((other, otherIndex) =>
+      otherIndex !== index
+      && operationCovers(other.name, op.name)
+      // Of two identical entries, only the later one is redundant
+      && (other.name !== op.name || otherIndex < index)
+    );
+    if (covering) {
+      const message = covering.name === op.name
+        ? `Operation '${op.name}' is listed more than once`
+        : `Operation '${op.name}' is already covered by '${covering.name}'`;
+      diagnostics.push(createDiagnostic(
+        DiagnosticCode.RedundantRule,
+        message,
+        op.range,
+        [{ range: covering.range, message: `'${covering.name}' is listed here` }]
+      ));
+    }
+  });
+
+  return diagnostics;
+}
@@ -0,0 +1,175 @@
+import type { SourceRange } from './source.js';
+
+/**
+ * AST for SBPL profiles. Mirrors `Profile`, `Rule`, `Filter` and `Expr` from
+ * SBPLParser so both implementations describe the same structure.
+ */
+
+export type SandboxAction = 'allow' | 'deny';
+
+/** A complete SBPL profile. */
+export interface Profile {
+  range: SourceRange;
+  version?: VersionDecl;
+  debugMode?: DebugDecl;
+  imports: ImportDecl[];
+  definitions: DefineDecl[];
+  rules: Rule[];
+}
+
+/** Version declaration: `(version 1)` */
+export interface VersionDecl {
+  range: SourceRange;
+  version: number;
+  versionRange: SourceRange;
+}
+
+/** Debug declaration: `(debug deny)` or `(debug allow)` */
+export interface DebugDecl {
+  range: SourceRange;
+  action: SandboxAction;
+}
+
+/** Import declaration: `(import "system.sb")` */
+export interface ImportDecl {
+  range: SourceRange;
+  path: string;
+  pathRange: SourceRange;
+}
+
+/** Define declaration: `(define name value)` or `(define (name args...) body)` */
+export interface DefineDecl {
+  range: SourceRange;
+  name: string;
+  nameRange: SourceRange;
+  /** Whether this is the function form `(define (name args...) body)`. */
+  isFunction: boolean;
+  /** Parameter names of the function form; empty otherwise. */
+  parameters: string[];
+  value: Expr;
+}
+
+/** A sandbox rule (allow or deny). */
+export interface Rule {
+  range: SourceRange;
+  action: SandboxAction;
+  operations: OperationRef[];
+  filters: Filter[];
+}
+
+/** Reference to an operation (e.g. `file-read-data`, `file-read*`). */
+export interface OperationRef {
+  range: SourceRange;
+  name: string;
+}
+
+export type CompoundType = 'require-all' | 'require-any';
+
+/** A filter expression. */
+export type Filter =
+  /** Simple filter: `(literal "/path")`, `(remote tcp "*:443")`, etc. */
+  | {
+      kind: 'simple';
+      type: string;
+      typeRange: SourceRange;
+      /** The first argument; kept separately to match the Swift AST. */
+      value: Expr;
+      /** All arguments, including `value`. */
+      args: Expr[];
+      range: SourceRange;
+    }
+  /** Compound filter: `(require-all ...)` or `(require-any ...)` */
+  | { kind: 'compound'; type: CompoundType; typeRange: SourceRange; filters: Filter[]; range: SourceRange }
+  /** Negation filter: `(require-not ...)` */
+  | { kind: 'not'; typeRange: SourceRange; filter: Filter; range: SourceRange }
+  /** Generic expression in filter position, such as a reference to a `define`. */
+  | { kind: 'expression'; expr: Expr; range: SourceRange };
+
+/** Expression types in SBPL. */
+export type Expr =
+  | { kind: 'integer'; value: number; range: SourceRange }
+  | { kind: 'string'; value: string; range: SourceRange }
+  | { kind: 'rawString'; value: string; range: SourceRange }
+  | { kind: 'boolean'; value: boolean; range: SourceRange }
+  | { kind: 'symbol'; name: string; range: SourceRange }
+  | { kind: 'list'; elements: Expr[]; range: SourceRange };
+
+/** Extract the string value if this is a string or raw string. */
+export function exprStringValue(expr: Expr): string | undefined {
+  return expr.kind === 'string' || expr.kind === 'rawString' ? expr.value : undefined;
+}
+
+/**
+ * Interpret an expression as a filter, as happens when a `define`'d value is
+ * used in filter position. Returns `undefined` for non-filter expressions.
+ */
+export function exprAsFilter(expr: Expr): Filter | undefined {
+  if (expr.kind === 'symbol') {
+    return { kind: 'expression', expr, range: expr.range };
+  }
+  if (expr.kind !== 'list') {
+    return undefined;
+  }
+
+  const [head, ...args] = expr.elements;
+  if (head?.kind !== 'symbol') {
+    return undefined;
+  }
+  const typeRange = head.range;
+  switch (head.name) {
+    case 'require-all':
+    case 'require-any': {
+      const filters = args.map(exprAsFilter).filter((f): f is Filter => f !== undefined);
+      return { kind: 'compound', type: head.name, typeRange, filters, range: expr.range };
+    }
+    case 'require-not': {
+      const filter = args.length > 0 ? exprAsFilter(args[0]) : undefined;
+      return filter ? { kind: 'not', typeRange, filter, range: expr.range } : undefined;
+    }
+    default:
+      if (args.length === 0) {
+        return undefined;
+      }
+      return { kind: 'simple', type: head.name, typeRange, value: args[0], args, range: expr.range };
+  }
+}
+
+/** Render an expression back to SBPL source. */
+export function exprToString(expr: Expr): string {
+  switch (expr.kind) {
+    case 'integer':
+      return String(expr.value);
+    case 'string':
+      return JSON.stringify(expr.value);
+    case 'rawString':
+      return `#"${expr.value}"`;
+    case 'boolean':
+      return expr.value ? '#t' : '#f';
+    case 'symbol':
+      return expr.name;
+    case 'list':
+      return `(${expr.elements.map(exprToString).join(' ')})`;
+  }
+}
+
+/** Render a definition back to SBPL source. */
+export function defineToString(definition: DefineDecl): string {
+  const head = definition.isFunction
+    ? `(${[definition.name, ...definition.parameters].join(' ')})`
+    : definition.name;
+  return `(define ${head} ${exprToString(definition.value)})`;
+}
+
+/** Render a filter back to SBPL source. */
+export function filterToString(filter: Filter): string {
+  switch (filter.kind) {
+    case 'simple':
+      return `(${[filter.type, ...filter.args.map(exprToString)].join(' ')})`;
+    case 'compound':
+      return `(${[filter.type, ...filter.filters.map(filterToString)].join(' ')})`;
+    case 'not':
+      return `(require-not ${filterToString(filter.filter)})`;
+    case 'expression':
+      return exprToString(filter.expr);
+  }
+}
@@ -0,0 +1,361 @@
+/**
+ * Catalog of SBPL keywords, filters and operations.
+ *
+ * Shared by completion, validation and the other language features. Kept free
+ * of `vscode` imports so it can be used outside the extension host.
+ */
+
+export interface CompletionData {
+  label: string;
+  detail: string;
+  doc: string;
+  snippet?: string;
+  category?: string;
+  /** Why the entry should no longer be used, if it is deprecated. */
+  deprecated?: string;
+}
+
+// Top-level declaration keywords
+export const DECLARATIONS: CompletionData[] = [
+  { label: 'version', detail: 'Version declaration', doc: 'Declares the sandbox profile version.\n\nExample: `(version 1)`', snippet: '(version ${1:1})' },
+  { label: 'debug', detail: 'Debug mode declaration', doc: 'Sets debug mode for the profile.\n\nExample: `(debug deny)`', snippet: '(debug ${1|deny,allow|})' },
+  { label: 'import', detail: 'Import declaration', doc: 'Imports another sandbox profile.\n\nExample: `(import "system.sb")`', snippet: '(import "${1:system.sb}")' },
+  { label: 'define', detail: 'Define a variable or macro', doc: 'Defines a reusable value or filter.\n\nExample: `(define my-paths (subpath "/usr"))`', snippet: '(define ${1:name} ${2:value})' },
+  { label: 'allow', detail: 'Allow rule', doc: 'Allows the specified operations.\n\nExample: `(allow file-read-data (subpath "/usr"))`', snippet: '(allow ${1:operation}\n  ${2:filter})' },
+  { label: 'deny', detail: 'Deny rule', doc: 'Denies the specified operations.\n\nExample: `(deny default)`', snippet: '(deny ${1:default})' },
+];
+
+// Filter types
+export const FILTERS: CompletionData[] = [
+  // Compound filters
+  { label: 'require-all', detail: 'Compound filter (AND)', doc: 'All sub-filters must match.\n\nExample:\n```\n(require-all\n  (subpath "/usr")\n  (extension "com.apple.app-sandbox.read"))\n```', snippet: '(require-all\n  ${1:filter1}\n  ${2:filter2})' },
+  { label: 'require-any', detail: 'Compound filter (OR)', doc: 'Any sub-filter must match.\n\nExample:\n```\n(require-any\n  (literal "/a")\n  (literal "/b"))\n```', snippet: '(require-any\n  ${1:filter1}\n  ${2:filter2})' },
+  { label: 'require-not', detail: 'Negation filter', doc: 'Negates the sub-filter.\n\nExample: `(require-not (literal "/secret"))`', snippet: '(require-not ${1:filter})' },
+  { label: 'require-entitlement', detail: 'Entitlement requirement', doc: 'Requires a specific entitlement.', snippet: '(require-entitlement "${1:entitlement}")' },
+
+  // Path filters
+  { label: 'literal', detail: 'Exact path match', doc: 'Matches an exact path.\n\nExample: `(literal "/etc/passwd")`', snippet: '(literal "${1:/path}")' },
+  { label: 'subpath', detail: 'Path prefix match', doc: 'Matches a path and all its children.\n\nExample: `(subpath "/usr")`', snippet: '(subpath "${1:/path}")' },
+  { label: 'regex', detail: 'Regex path match', doc: 'Matches paths against a regular expression.\n\nExample: `(regex #"^/tmp/.*\\.log$")`', snippet: '(regex #"${1:pattern}")' },
+  { label: 'prefix', detail: 'String prefix match', doc: 'Matches if the path starts with the given prefix.', snippet: '(prefix "${1:/path}")' },
+
+  // Home directory filters
+  { label: 'home-literal', detail: 'Literal path in home', doc: 'Matches an exact path relative to home directory.', snippet: '(home-literal "${1:/relative/path}")' },
+  { label: 'home-subpath', detail: 'Subpath in home', doc: 'Matches a subpath relative to home directory.', snippet: '(home-subpath "${1:/relative/path}")' },
+  { label: 'home-regex', detail: 'Regex in home', doc: 'Matches paths in home directory against a regex.', snippet: '(home-regex #"${1:pattern}")' },
+  { label: 'home-prefix', detail: 'Prefix in home', doc: 'Matches paths in home directory with given prefix.', snippet: '(home-prefix "${1:/relative/path}")' },
+
+  // Mach/IPC filters
+  { label: 'global-name', detail: 'Mach global name', doc: 'Matches a global Mach service name.\n\nExample: `(global-name "com.apple.system.logger")`', snippet: '(global-name "${1:com.apple.service}")' },
+  { label: 'local-name', detail: 'Mach local name', doc: 'Matches a local Mach service name.', snippet: '(local-name "${1:service}")' },
+  { label: 'global-name-regex', detail: 'Mach global name regex', doc: 'Matches global Mach service names against a regex.', snippet: '(global-name-regex #"${1:pattern}")' },
+  { label: 'local-name-regex', detail: 'Mach local name regex', doc: 'Matches local Mach service names against a regex.', snippet: '(local-name-regex #"${1:pattern}")' },
+  { label: 'xpc-service-name', detail: 'XPC service name', doc: 'Matches an XPC service name.', snippet: '(xpc-service-name "${1:com.apple.service}")' },
+  { label: 'mach-local', detail: 'Mach local service', doc: 'Matches a local Mach service.', snippet: '(mach-local "${1:service}")' },
+  { label: 'mach-register', detail: 'Mach registration', doc: 'Matches a Mach service registration.', snippet: '(mach-register "${1:service}")' },
+  { label: 'ipc-posix-name', detail: 'POSIX IPC name', doc: 'Matches a POSIX IPC object name.', snippet: '(ipc-posix-name "${1:name}")' },
+  { label: 'ipc-posix-name-regex', detail: 'POSIX IPC name regex', doc: 'Matches POSIX IPC object names against a regex.', snippet: '(ipc-posix-name-regex #"${1:pattern}")' },
+  { label: 'semaphore-owner', detail: 'Semaphore owner', doc: 'Matches the owner of a semaphore.', snippet: '(semaphore-owner ${1:owner})' },
+
+  // Extension filters
+  { label: 'extension', detail: 'Sandbox extension', doc: 'Matches a sandbox extension.\n\nExample: `(extension "com.apple.app-sandbox.read")`', snippet: '(extension "${1:com.apple.app-sandbox.read}")' },
+
+  // Network filters
+  { label: 'remote', detail: 'Remote network filter', doc: 'Matches remote network connections.\n\nExample: `(remote tcp "*:443")`', snippet: '(remote ${1|tcp,udp|} "${2:*:*}")' },
+  { label: 'local', detail: 'Local network filter', doc: 'Matches local network bindings.', snippet: '(local ${1|tcp,udp|} "${2:*:*}")' },
+  { label: 'network-interface', detail: 'Network interface', doc: 'Matches a network interface.', snippet: '(network-interface "${1:en0}")' },
+  { label: 'network-local', detail: 'Local network address', doc: 'Matches local network addresses.', snippet: '(network-local ${1|tcp,udp|} "${2:*:*}")' },
+  { label: 'host-local', detail: 'Local host', doc: 'Matches connections to the local host.', snippet: '(host-local)' },
+
+  // IOKit filters
+  { label: 'iokit-user-client-class', detail: 'IOKit user client class', doc: 'Matches an IOKit user client class name.', snippet: '(iokit-user-client-class "${1:class}")' },
+  { label: 'iokit-property', detail: 'IOKit property', doc: 'Matches an IOKit property.', snippet: '(iokit-property "${1:property}")' },
+  { label: 'iokit-connection', detail: 'IOKit connection', doc: 'Matches an IOKit connection.', snippet: '(iokit-connection "${1:connection}")' },
+  { label: 'iokit-registry-entry-class', detail: 'IOKit registry class', doc: 'Matches an IOKit registry entry class.', snippet: '(iokit-registry-entry-class "${1:class}")' },
+
+  // Process filters
+  { label: 'process-attribute', detail: 'Process attribute', doc: 'Matches a process attribute.', snippet: '(process-attribute ${1:attribute})' },
+  { label: 'entitlement-value', detail: 'Entitlement value', doc: 'Matches an entitlement value.', snippet: '(entitlement-value "${1:entitlement}" ${2:value})' },
+  { label: 'signing-identifier', detail: 'Code signing identifier', doc: 'Matches the code signing identifier of the target process.', snippet: '(signing-identifier "${1:com.example.app}")' },
+  { label: 'appleevent-destination', detail: 'AppleEvent destination', doc: 'Matches the bundle identifier receiving an AppleEvent.', snippet: '(appleevent-destination "${1:com.apple.finder}")' },
+  { label: 'target', detail: 'Target process', doc: 'Matches the target of a process operation (self, others, same-sandbox).', snippet: '(target ${1|self,others,same-sandbox|})' },
+
+  // Other filters
+  { label: 'vnode-type', detail: 'Vnode type filter', doc: 'Matches a vnode type (REGULAR-FILE, DIRECTORY, etc.).', snippet: '(vnode-type ${1|REGULAR-FILE,DIRECTORY,SYMLINK,BLOCK-DEVICE,CHARACTER-DEVICE|})' },
+  { label: 'file-mode', detail: 'File mode filter', doc: 'Matches file permission mode.', snippet: '(file-mode ${1:#o0644})' },
+  { label: 'socket-domain', detail: 'Socket domain filter', doc: 'Matches socket domain.', snippet: '(socket-domain ${1:AF_INET})' },
+  { label: 'socket-type', detail: 'Socket type filter', doc: 'Matches socket type.', snippet: '(socket-type ${1:SOCK_STREAM})' },
+  { label: 'socket-protocol', detail: 'Socket protocol filter', doc: 'Matches socket protocol.', snippet: '(socket-protocol ${1:protocol})' },
+  { label: 'sysctl-name', detail: 'Sysctl name filter', doc: 'Matches a sysctl name.', snippet: '(sysctl-name "${1:kern.ostype}")' },
+  { label: 'device-conforms-to', detail: 'Device class filter', doc: 'Matches device class.', snippet: '(device-conforms-to "${1:class}")' },
+  { label: 'preference-domain', detail: 'Preference domain', doc: 'Matches a user preference domain.', snippet: '(preference-domain "${1:com.apple.example}")' },
+  { label: 'right-name', detail: 'Authorization right', doc: 'Matches an authorization right name.', snippet: '(right-name "${1:system.privilege.admin}")' },
+  { label: 'notification-name', detail: 'Notification name', doc: 'Matches a notification name.', snippet: '(notification-name "${1:com.apple.example}")' },
+  { label: 'kext-bundle-id', detail: 'Kext bundle identifier', doc: 'Matches a kernel extension bundle identifier.', snippet: '(kext-bundle-id "${1:com.apple.driver}")' },
+  { label: 'xattr', detail: 'Extended attribute name', doc: 'Matches an extended attribute name.', snippet: '(xattr "${1:com.apple.quarantine}")' },
+  { label: 'system-attribute', detail: 'System attribute', doc: 'Matches a system attribute.', snippet: '(system-attribute ${1:attribute})' },
+  { label: 'boot-arg', detail: 'Boot argument', doc: 'Matches a boot argument.', snippet: '(boot-arg "${1:arg}")' },
+  { label: 'fs-attribute', detail: 'Filesystem attribute', doc: 'Matches a filesystem attribute.', snippet: '(fs-attribute ${1:attribute})' },
+  { label: 'storage-class', detail: 'Storage class', doc: 'Matches a storage class.', snippet: '(storage-class "${1:class}")' },
+  { label: 'storage-class-extension', detail: 'Storage class extension', doc: 'Matches a storage class extension.', snippet: '(storage-class-extension "${1:class}")' },
+
+  // Modifiers
+  { label: 'with', detail: 'Rule modifier', doc: 'Adds modifiers to a rule.\n\nOptions: report, send-signal, no-report, no-sandbox', snippet: '(with ${1|report,send-signal,no-report,no-sandbox|})' },
+];
+
+// Sandbox operations
+export const OPERATIONS: CompletionData[] = [
+  // Special
+  { label: 'default', detail: 'Default operation', doc: 'Matches all operations not explicitly handled.', category: 'special' },
+
+  // File operations
+  { label: 'file*', detail: 'All file operations', doc: 'Matches all file operations.', category: 'file' },
+  { label: 'file-read-data', detail: 'Read file contents', doc: 'Read the contents of a file.', category: 'file' },
+  { label: 'file-read-metadata', detail: 'Read file metadata', doc: 'Read file metadata (stat, etc.).', category: 'file' },
+  { label: 'file-read-xattr', detail: 'Read extended attributes', doc: 'Read file extended attributes.', category: 'file' },
+  { label: 'file-read*', detail: 'All file read operations', doc: 'Matches all file read operations.', category: 'file' },
+  { label: 'file-write-data', detail: 'Write file contents', doc: 'Write to file contents.', category: 'file' },
+  { label: 'file-write-create', detail: 'Create files', doc: 'Create new files.', category: 'file' },
+  { label: 'file-write-unlink', detail: 'Delete files', doc: 'Delete/unlink files.', category: 'file' },
+  { label: 'file-write-xattr', detail: 'Write extended attributes', doc: 'Write file extended attributes.', category: 'file' },
+  { label: 'file-write-mode', detail: 'Change file mode', doc: 'Change file permissions.', category: 'file' },
+  { label: 'file-write-flags', detail: 'Change file flags', doc: 'Change file flags.', category: 'file' },
+  { label: 'file-write-owner', detail: 'Change file owner', doc: 'Change file ownership.', category: 'file' },
+  { label: 'file-write-times', detail: 'Change file times', doc: 'Modify file timestamps.', category: 'file' },
+  { label: 'file-write-setugid', detail: 'Set setuid/setgid bits', doc: 'Set the setuid or setgid bits on files.', category: 'file' },
+  { label: 'file-write*', detail: 'All file write operations', doc: 'Matches all file write operations.', category: 'file' },
+  { label: 'file-ioctl', detail: 'File ioctl', doc: 'Perform ioctl on files.', category: 'file' },
+  { label: 'file-mount', detail: 'Mount filesystems', doc: 'Mount filesystems.', category: 'file' },
+  { label: 'file-unmount', detail: 'Unmount filesystems', doc: 'Unmount filesystems.', category: 'file' },
+  { label: 'file-chroot', detail: 'Change root', doc: 'Change root directory.', category: 'file' },
+  { label: 'file-clone', detail: 'Clone files', doc: 'Clone files (copy-on-write).', category: 'file' },
+  { label: 'file-link', detail: 'Create links', doc: 'Create hard/symbolic links.', category: 'file' },
+  { label: 'file-symlink', detail: 'Create symbolic links', doc: 'Create symbolic links.', category: 'file' },
+  { label: 'file-map-executable', detail: 'Map executable', doc: 'Memory-map executable files.', category: 'file' },
+  { label: 'file-revoke', detail: 'Revoke access', doc: 'Revoke file access.', category: 'file' },
+  { label: 'file-search', detail: 'Search directories', doc: 'Search/traverse directories.', category: 'file' },
+  { label: 'file-test-existence', detail: 'Test file existence', doc: 'Check if file exists.', category: 'file' },
+  { label: 'file-mknod', detail: 'Create device nodes', doc: 'Create device nodes.', category: 'file' },
+  { label: 'file-issue-extension', detail: 'Issue file extension', doc: 'Issue sandbox extension for file.', category: 'file' },
+
+  // Mach operations
+  { label: 'mach*', detail: 'All Mach operations', doc: 'Matches all Mach IPC operations.', category: 'mach' },
+  { label: 'mach-lookup', detail: 'Mach service lookup', doc: 'Look up a Mach service by name.', category: 'mach' },
+  { label: 'mach-register', detail: 'Register Mach service', doc: 'Register a Mach service.', category: 'mach' },
+  { label: 'mach-bootstrap', detail: 'Mach bootstrap', doc: 'Mach bootstrap operations.', category: 'mach' },
+  { label: 'mach-priv', detail: 'Mach privileged operations', doc: 'Privileged Mach operations.', category: 'mach' },
+  { label: 'mach-priv*', detail: 'All Mach privileged operations', doc: 'Matches all privileged Mach operations.', category: 'mach' },
+  { label: 'mach-priv-host-port', detail: 'Host port access', doc: 'Access to host port.', category: 'mach' },
+  { label: 'mach-priv-task-port', detail: 'Task port access', doc: 'Access to task port.', category: 'mach' },
+  { label: 'mach-task-name', detail: 'Task name port', doc: 'Access to task name port.', category: 'mach' },
+  { label: 'mach-per-user-lookup', detail: 'Per-user lookup', doc: 'Per-user Mach lookup.', category: 'mach', deprecated: 'Superseded by `mach-lookup`.' },
+  { label: 'mach-cross-domain-lookup', detail: 'Cross-domain lookup', doc: 'Cross-domain Mach lookup.', category: 'mach' },
+  { label: 'mach-host-exception-port-set', detail: 'Host exception port', doc: 'Set host exception port.', category: 'mach' },
+  { label: 'mach-host-special-port-set', detail: 'Host special port', doc: 'Set host special port.', category: 'mach' },
+  { label: 'mach-issue-extension', detail: 'Issue Mach extension', doc: 'Issue sandbox extension for Mach.', category: 'mach' },
+
+  // IPC operations
+  { label: 'ipc*', detail: 'All IPC operations', doc: 'Matches all IPC operations.', category: 'ipc' },
+  { label: 'ipc-posix-sem', detail: 'POSIX semaphores', doc: 'POSIX semaphore operations.', category: 'ipc' },
+  { label: 'ipc-posix-sem-create', detail: 'Create semaphore', doc: 'Create a POSIX semaphore.', category: 'ipc' },
+  { label: 'ipc-posix-sem-open', detail: 'Open semaphore', doc: 'Open a POSIX semaphore.', category: 'ipc' },
+  { label: 'ipc-posix-sem-post', detail: 'Post semaphore', doc: 'Post a POSIX semaphore.', category: 'ipc' },
+  { label: 'ipc-posix-sem-wait', detail: 'Wait on semaphore', doc: 'Wait on a POSIX semaphore.', category: 'ipc' },
+  { label: 'ipc-posix-sem-unlink', detail: 'Unlink semaphore', doc: 'Unlink a POSIX semaphore.', category: 'ipc' },
+  { label: 'ipc-posix-shm', detail: 'POSIX shared memory', doc: 'POSIX shared memory operations.', category: 'ipc' },
+  { label: 'ipc-posix-shm-read*', detail: 'All shared memory reads', doc: 'Matches all POSIX shared memory read operations.', category: 'ipc' },
+  { label: 'ipc-posix-shm-read-data', detail: 'Read shared memory', doc: 'Read from POSIX shared memory.', category: 'ipc' },
+  { label: 'ipc-posix-shm-read-metadata', detail: 'Read shm metadata', doc: 'Read POSIX shared memory metadata.', category: 'ipc' },
+  { label: 'ipc-posix-shm-write-data', detail: 'Write shared memory', doc: 'Write to POSIX shared memory.', category: 'ipc' },
+  { label: 'ipc-posix-shm-write-create', detail: 'Create shared memory', doc: 'Create POSIX shared memory.', category: 'ipc' },
+  { label: 'ipc-posix-shm-write-unlink', detail: 'Unlink shared memory', doc: 'Unlink POSIX shared memory.', category: 'ipc' },
+  { label: 'ipc-posix-issue-extension', detail: 'Issue IPC extension', doc: 'Issue sandbox extension for IPC.', category: 'ipc' },
+  { label: 'ipc-sysv-msg', detail: 'SysV messages', doc: 'System V message queue operations.', category: 'ipc' },
+  { label: 'ipc-sysv-sem', detail: 'SysV semaphores', doc: 'System V semaphore operations.', category: 'ipc' },
+  { label: 'ipc-sysv-shm', detail: 'SysV shared memory', doc: 'System V shared memory operations.', category: 'ipc' },
+
+  // Network operations
+  { label: 'network*', detail: 'All network operations', doc: 'Matches all network operations.', category: 'network' },
+  { label: 'network-inbound', detail: 'Inbound connections', doc: 'Accept inbound network connections.', category: 'network' },
+  { label: 'network-outbound', detail: 'Outbound connections', doc: 'Make outbound network connections.', category: 'network' },
+  { label: 'network-bind', detail: 'Bind to port', doc: 'Bind to network port.', category: 'network' },
+  { label: 'socket-ioctl', detail: 'Socket ioctl', doc: 'Perform ioctl on sockets.', category: 'network' },
+  { label: 'socket-option-get', detail: 'Get socket option', doc: 'Read socket options.', category: 'network' },
+  { label: 'socket-option-set', detail: 'Set socket option', doc: 'Set socket options.', category: 'network' },
+  { label: 'necp-client-open', detail: 'Open NECP client', doc: 'Open a Network Extension Control Policy client.', category: 'network' },
+
+  // System operations
+  { label: 'sysctl*', detail: 'All sysctl operations', doc: 'Matches all sysctl operations.', category: 'system' },
+  { label: 'sysctl-read', detail: 'Read sysctl', doc: 'Read sysctl values.', category: 'system' },
+  { label: 'sysctl-write', detail: 'Write sysctl', doc: 'Write sysctl values.', category: 'system' },
+  { label: 'system*', detail: 'All system operations', doc: 'Matches all system operations.', category: 'system' },
+  { label: 'system-debug', detail: 'System debug', doc: 'System debugging operations.', category: 'system' },
+  { label: 'system-fcntl', detail: 'System fcntl', doc: 'fcntl operations.', category: 'system' },
+  { label: 'system-fsctl', detail: 'System fsctl', doc: 'fsctl operations.', category: 'system' },
+  { label: 'system-info', detail: 'System info', doc: 'Access system information.', category: 'system' },
+  { label: 'system-socket', detail: 'System socket', doc: 'Socket operations.', category: 'system' },
+  { label: 'system-kext-load', detail: 'Load kernel extension', doc: 'Load kernel extensions.', category: 'system' },
+  { label: 'system-kext-unload', detail: 'Unload kernel extension', doc: 'Unload kernel extensions.', category: 'system' },
+  { label: 'system-kext-query', detail: 'Query kernel extension', doc: 'Query kernel extension info.', category: 'system' },
+  { label: 'system-kext', detail: 'Kernel extensions', doc: 'Kernel extension operations.', category: 'system' },
+  { label: 'system-privilege', detail: 'System privilege', doc: 'Privileged system operations.', category: 'system' },
+  { label: 'system-reboot', detail: 'System reboot', doc: 'Reboot the system.', category: 'system' },
+  { label: 'system-set-time', detail: 'Set system time', doc: 'Modify system time.', category: 'system' },
+  { label: 'system-swap', detail: 'System swap', doc: 'Swap operations.', category: 'system' },
+  { label: 'system-suspend-resume', detail: 'Suspend/resume', doc: 'System suspend/resume.', category: 'system' },
+  { label: 'system-mac-label', detail: 'MAC label', doc: 'MAC label operations.', category: 'system' },
+  { label: 'system-acct', detail: 'Process accounting', doc: 'Process accounting operations.', category: 'system' },
+  { label: 'system-audit', detail: 'System audit', doc: 'Audit subsystem operations.', category: 'system' },
+  { label: 'system-chud', detail: 'CHUD', doc: 'Computer Hardware Understanding Development operations.', category: 'system' },
+  { label: 'system-kas-info', detail: 'Kernel address space info', doc: 'Query kernel address space information.', category: 'system' },
+  { label: 'system-nfssvc', detail: 'NFS service', doc: 'NFS server operations.', category: 'system' },
+  { label: 'system-sched', detail: 'Scheduler', doc: 'Scheduler operations.', category: 'system' },
+  { label: 'system-package-check', detail: 'Package check', doc: 'Installer package verification.', category: 'system' },
+
+  // IOKit operations
+  { label: 'iokit*', detail: 'All IOKit operations', doc: 'Matches all IOKit operations.', category: 'iokit' },
+  { label: 'iokit-open', detail: 'Open IOKit', doc: 'Open IOKit connections.', category: 'iokit' },
+  { label: 'iokit-open-user-client', detail: 'Open user client', doc: 'Open IOKit user client.', category: 'iokit' },
+  { label: 'iokit-set-properties', detail: 'Set IOKit properties', doc: 'Set IOKit properties.', category: 'iokit' },
+  { label: 'iokit-get-properties', detail: 'Get IOKit properties', doc: 'Get IOKit properties.', category: 'iokit' },
+  { label: 'iokit-issue-extension', detail: 'Issue IOKit extension', doc: 'Issue sandbox extension for IOKit.', category: 'iokit' },
+  { label: 'iokit-external-method', detail: 'IOKit external method', doc: 'Call IOKit external methods.', category: 'iokit' },
+
+  // Process operations
+  { label: 'process*', detail: 'All process operations', doc: 'Matches all process operations.', category: 'process' },
+  { label: 'process-exec', detail: 'Execute process', doc: 'Execute a new process.', category: 'process' },
+  { label: 'process-exec*', detail: 'All exec operations', doc: 'All process execution operations.', category: 'process' },
+  { label: 'process-exec-interpreter', detail: 'Execute interpreter', doc: 'Execute an interpreter (e.g. a #! script).', category: 'process' },
+  { label: 'process-fork', detail: 'Fork process', doc: 'Fork a new process.', category: 'process' },
+  { label: 'process-info', detail: 'Process info', doc: 'Access process information.', category: 'process' },
+  { label: 'process-info*', detail: 'All process info', doc: 'All process info operations.', category: 'process' },
+  { label: 'process-info-codesignature', detail: 'Code signature info', doc: 'Access code signature info.', category: 'process' },
+  { label: 'process-info-pidinfo', detail: 'PID info', doc: 'Access PID information.', category: 'process' },
+  { label: 'process-info-listpids', detail: 'List PIDs', doc: 'List process IDs.', category: 'process' },
+  { label: 'process-info-setcontrol', detail: 'Set process control', doc: 'Set process control information.', category: 'process' },
+  { label: 'process-info-dirstatdev', detail: 'Dirstat info', doc: 'Access dirstat device information.', category: 'process' },
+  { label: 'process-info-rusage', detail: 'Resource usage', doc: 'Access process resource usage.', category: 'process' },
+  { label: 'process-info-dirtycontrol', detail: 'Dirty control', doc: 'Control process dirty tracking state.', category: 'process' },
+  { label: 'process-info-pidfdinfo', detail: 'PID file descriptor info', doc: 'Access file descriptor information of a process.', category: 'process' },
+  { label: 'process-codesigning-status', detail: 'Codesigning status', doc: 'Check codesigning status.', category: 'process' },
+  { label: 'signal', detail: 'Send signals', doc: 'Send signals to processes.', category: 'process' },
+
+  // User operations
+  { label: 'user-preference*', detail: 'All preference operations', doc: 'Matches all user preference operations.', category: 'user' },
+  { label: 'user-preference-read', detail: 'Read preferences', doc: 'Read user preferences.', category: 'user' },
+  { label: 'user-preference-write', detail: 'Write preferences', doc: 'Write user preferences.', category: 'user' },
+
+  // Device operations
+  { label: 'device-camera', detail: 'Camera access', doc: 'Access camera device.', category: 'device' },
+  { label: 'device-microphone', detail: 'Microphone access', doc: 'Access microphone device.', category: 'device' },
+  { label: 'hid-control', detail: 'HID control', doc: 'Control HID devices.', category: 'device' },
+  { label: 'pseudo-tty', detail: 'Pseudo TTY', doc: 'Pseudo-terminal operations.', category: 'device' },
+
+  // Other operations
+  { label: 'appleevent-send', detail: 'Send AppleEvents', doc: 'Send AppleEvents.', category: 'other' },
+  { label: 'lsopen', detail: 'Launch Services open', doc: 'Open via Launch Services.', category: 'other' },
+  { label: 'authorization-right-obtain', detail: 'Obtain auth rights', doc: 'Obtain authorization rights.', category: 'other' },
+  { label: 'generic-issue-extension', detail: 'Issue generic extension', doc: 'Issue a generic sandbox extension.', category: 'other' },
+  { label: 'keychain*', detail: 'All keychain operations', doc: 'Matches all keychain operations.', category: 'other' },
+  { label: 'darwin-notification', detail: 'Darwin notifications', doc: 'Darwin notification operations.', category: 'other' },
+  { label: 'distributed-notification-post', detail: 'Post notifications', doc: 'Post distributed notifications.', category: 'other' },
+  { label: 'job-creation', detail: 'Create jobs', doc: 'Create launchd jobs.', category: 'other', deprecated: 'Sandboxed processes can no longer submit launchd jobs.' },
+  { label: 'nvram-get', detail: 'Get NVRAM', doc: 'Read NVRAM values.', category: 'other' },
+  { label: 'nvram-set', detail: 'Set NVRAM', doc: 'Write NVRAM values.', category: 'other' },
+  { label: 'nvram-delete', detail: 'Delete NVRAM', doc: 'Delete NVRAM values.', category: 'other' },
+  { label: 'nvram*', detail: 'All NVRAM operations', doc: 'All NVRAM operations.', category: 'other' },
+  { label: 'storage-class-map', detail: 'Storage class map', doc: 'Map storage classes.', category: 'other' },
+
+  // Filesystem operations
+  { label: 'fs-quota', detail: 'Filesystem quota', doc: 'Filesystem quota operations.', category: 'fs' },
+  { label: 'fs-rename', detail: 'Rename files', doc: 'Rename files/directories.', category: 'fs' },
+  { label: 'fs-snapshot', detail: 'Filesystem snapshot', doc: 'Filesystem snapshot operations.', category: 'fs' },
+  { label: 'fs-snapshot-create', detail: 'Create snapshot', doc: 'Create filesystem snapshot.', category: 'fs' },
+  { label: 'fs-snapshot-delete', detail: 'Delete snapshot', doc: 'Delete filesystem snapshot.', category: 'fs' },
+  { label: 'fs-snapshot-mount', detail: 'Mount snapshot', doc: 'Mount filesystem snapshot.', category: 'fs' },
+  { label: 'fs-snapshot-rename', detail: 'Rename snapshot', doc: 'Rename filesystem snapshot.', category: 'fs' },
+  { label: 'fs-snapshot-revert', detail: 'Revert snapshot', doc: 'Revert to filesystem snapshot.', category: 'fs' },
+];
+
+/** Operations that take path filters. */
+const PATH_OPERATIONS = ['file*', 'process-exec*', 'fs-*', 'storage-class-map'];
+const NETWORK_OPERATIONS = ['network*', 'socket-*', 'system-socket', 'necp-client-open'];
+
+/**
+ * Operation patterns each filter applies to, as wildcard operation names.
+ * Filters missing here, such as `require-all` or `extension`, apply to any
+ * operation.
+ */
+export const FILTER_OPERATIONS: Record<string, string[]> = {
+  'literal': PATH_OPERATIONS,
+  'subpath': PATH_OPERATIONS,
+  'regex': PATH_OPERATIONS,
+  'prefix': PATH_OPERATIONS,
+  'home-literal': PATH_OPERATIONS,
+  'home-subpath': PATH_OPERATIONS,
+  'home-regex': PATH_OPERATIONS,
+  'home-prefix': PATH_OPERATIONS,
+  'vnode-type': PATH_OPERATIONS,
+  'file-mode': ['file*'],
+  'xattr': ['file*'],
+  'fs-attribute': ['file*', 'fs-*'],
+  'storage-class': ['file*', 'storage-class-map'],
+  'storage-class-extension': ['file*', 'storage-class-map'],
+  'global-name': ['mach*'],
+  'local-name': ['mach*'],
+  'global-name-regex': ['mach*'],
+  'local-name-regex': ['mach*'],
+  'xpc-service-name': ['mach*'],
+  'mach-local': ['mach*'],
+  'mach-register': ['mach*'],
+  'ipc-posix-name': ['ipc*'],
+  'ipc-posix-name-regex': ['ipc*'],
+  'semaphore-owner': ['ipc-posix-sem*'],
+  'remote': NETWORK_OPERATIONS,
+  'local': NETWORK_OPERATIONS,
+  'network-interface': NETWORK_OPERATIONS,
+  'network-local': NETWORK_OPERATIONS,
+  'host-local': NETWORK_OPERATIONS,
+  'socket-domain': NETWORK_OPERATIONS,
+  'socket-type': NETWORK_OPERATIONS,
+  'socket-protocol': NETWORK_OPERATIONS,
+  'iokit-user-client-class': ['iokit*'],
+  'iokit-property': ['iokit*'],
+  'iokit-connection': ['iokit*'],
+  'iokit-registry-entry-class': ['iokit*'],
+  'sysctl-name': ['sysctl*'],
+  'preference-domain': ['user-preference*'],
+  'right-name': ['authorization-right-obtain'],
+  'notification-name': ['darwin-notification', 'distributed-notification-post'],
+  'kext-bundle-id': ['system-kext*'],
+  'target': ['signal', 'process-info*', 'process-codesigning-status'],
+  'appleevent-destination': ['appleevent-send'],
+};
+
+/** Symbolic values accepted as the first argument of a filter, modifier or declaration. */
+export const FILTER_VALUES: Record<string, string[]> = {
+  'debug': ['allow', 'deny'],
+  'vnode-type': ['REGULAR-FILE', 'DIRECTORY', 'SYMLINK', 'BLOCK-DEVICE', 'CHARACTER-DEVICE', 'FIFO', 'SOCKET', 'TTY'],
+  'socket-domain': ['AF_INET', 'AF_INET6', 'AF_UNIX', 'AF_ROUTE', 'AF_SYSTEM', 'AF_NDRV'],
+  'socket-type': ['SOCK_STREAM', 'SOCK_DGRAM', 'SOCK_RAW'],
+  'with': ['report', 'send-signal', 'no-report', 'no-sandbox'],
+  'remote': ['ip', 'tcp', 'udp', 'unix-socket'],
+  'local': ['ip', 'tcp', 'udp', 'unix-socket'],
+  'target': ['self', 'others', 'same-sandbox'],
+};
+
+// Boolean values
+export const BOOLEANS: CompletionData[] = [
+  { label: '#t', detail: 'Boolean true', doc: 'True value' },
+  { label: '#f', detail: 'Boolean false', doc: 'False value' },
+];
+
+// Export a function to get all operations (for potential future use)
+export function getAllOperations(): string[] {
+  return OPERATIONS.map(op => op.label);
+}
+
+// Export a function to get all filters (for potential future use)
+export function getAllFilters(): string[] {
+  return FILTERS.map(f => f.label);
+}
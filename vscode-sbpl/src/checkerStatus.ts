@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+import type { LanguageClient } from 'vscode-languageclient/node';
+import { CHECKER_STATUS_NOTIFICATION, type CheckerStatus } from './externalChecker.js';
+
+const SHOW_LOG_COMMAND = 'sbpl.showCheckerLog';
+
+/**
+ * Status bar item for the `sbpl-convert` checker run by the language server.
+ *
+ * It appears while the checker cannot be used, with the exit code and the end
+ * of its stderr output in the tooltip, and opens the server log when clicked.
+ */
+export class SBPLCheckerStatusItem implements vscode.Disposable {
+  private readonly item = vscode.window.createStatusBarItem('sbpl.checker', vscode.StatusBarAlignment.Left);
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(client: LanguageClient) {
+    this.item.name = 'SBPL Checker';
+    this.item.command = SHOW_LOG_COMMAND;
+    this.disposables.push(
+      this.item,
+      client.onNotification(CHECKER_STATUS_NOTIFICATION, (status: CheckerStatus) => this.update(status)),
+      vscode.commands.registerCommand(SHOW_LOG_COMMAND, () => client.outputChannel.show(true))
+    );
+  }
+
+  dispose(): void {
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+
+  private update(status: CheckerStatus): void {
+    if (status.state === 'running' || status.state === 'stopped') {
+      this.item.hide();
+      return;
+    }
+
+    this.item.text = status.state === 'crashed' ? '$(error) sbpl-convert' : '$(warning) sbpl-convert';
+    this.item.backgroundColor = new vscode.ThemeColor(
+      status.state === 'crashed' ? 'statusBarItem.errorBackground' : 'statusBarItem.warningBackground'
+    );
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendText(status.message);
+    if (status.detail) {
+      tooltip.appendCodeblock(status.detail, 'text');
+    }
+    tooltip.appendMarkdown('\n\nClick to open the language server log.');
+    this.item.tooltip = tooltip;
+    this.item.show();
+  }
+}
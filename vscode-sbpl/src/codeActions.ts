@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import { addEdits, toRange } from './convert.js';
+import type { Diagnostic } from './diagnostics.js';
+import { buildDefinitionTable } from './filters.js';
+import { collectFixAllEdits, computeFixes } from './fixes.js';
+import { documentFilePath, getImportOptions } from './importPaths.js';
+import type { LintRuleSettings } from './lint.js';
+import type { ParseResult } from './parser.js';
+import { extractableFilter, refactoringsAt } from './refactorings.js';
+import { sourceRange } from './structuralEditing.js';
+import { validateText } from './validator.js';
+
+/** Code action kind for fixing every auto-fixable problem in a file. */
+const FIX_ALL_KIND = vscode.CodeActionKind.SourceFixAll.append('sbpl');
+
+/**
+ * Provides quick fixes for built-in diagnostics, suppressions for lint
+ * diagnostics, the "Fix all" source action and the structural refactorings
+ * of rules and filters.
+ */
+export class SBPLCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [
+    vscode.CodeActionKind.QuickFix,
+    FIX_ALL_KIND,
+    vscode.CodeActionKind.RefactorRewrite,
+    vscode.CodeActionKind.RefactorExtract,
+  ];
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const { parse, imports, diagnostics } = validateText(document.getText(), {
+      filePath: documentFilePath(document),
+      imports: getImportOptions(document.uri),
+      lint: vscode.workspace.getConfiguration('sbpl', document.uri).get<LintRuleSettings>('lint.rules', {}),
+    });
+
+    if (context.only && FIX_ALL_KIND.contains(context.only)) {
+      return this.fixAll(document, diagnostics, parse);
+    }
+
+    const actions: vscode.CodeAction[] = [];
+
+    for (const reported of context.diagnostics) {
+      const diagnostic = diagnostics.find((diag) => matches(diag, reported));
+      if (!diagnostic) {
+        continue;
+      }
+      for (const fix of computeFixes(diagnostic, parse)) {
+        const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+        action.diagnostics = [reported];
+        action.isPreferred = fix.isPreferred;
+        action.edit = new vscode.WorkspaceEdit();
+        addEdits(action.edit, document.uri, fix.edits);
+        actions.push(action);
+      }
+    }
+
+    if (actions.some((action) => action.isPreferred)) {
+      actions.push(...this.fixAll(document, diagnostics, parse));
+    }
+
+    const selection = sourceRange(document, parse, range);
+    const imported = buildDefinitionTable(imports?.definitions.map((entry) => entry.definition) ?? []);
+    for (const fix of selection ? refactoringsAt(parse, selection, imported) : []) {
+      const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.RefactorRewrite);
+      action.edit = new vscode.WorkspaceEdit();
+      addEdits(action.edit, document.uri, fix.edits);
+      actions.push(action);
+    }
+
+    // Extracting asks for the name of the definition
+    if (selection && extractableFilter(parse, selection)) {
+      const action = new vscode.CodeAction('Extract filter into a define', vscode.CodeActionKind.RefactorExtract);
+      action.command = { title: action.title, command: 'sbpl.extractDefine', arguments: [document.uri, range] };
+      actions.push(action);
+    }
+
+    return actions;
+  }
+
+  private fixAll(
+    document: vscode.TextDocument,
+    diagnostics: Diagnostic[],
+    parse: ParseResult
+  ): vscode.CodeAction[] {
+    const edits = collectFixAllEdits(diagnostics, parse);
+    if (edits.length === 0) {
+      return [];
+    }
+    const action = new vscode.CodeAction('Fix all auto-fixable problems', FIX_ALL_KIND);
+    action.edit = new vscode.WorkspaceEdit();
+    addEdits(action.edit, document.uri, edits);
+    return [action];
+  }
+}
+
+function matches(diagnostic: Diagnostic, reported: vscode.Diagnostic): boolean {
+  const code = typeof reported.code === 'object' ? reported.code.value : reported.code;
+  return diagnostic.code === code && toRange(diagnostic.range).isEqual(reported.range);
+}
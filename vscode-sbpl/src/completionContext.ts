@@ -0,0 +1,188 @@
+import { OPERATIONS } from './catalog.js';
+import { Lexer, type Token } from './lexer.js';
+import { isWildcardOperation } from './operations.js';
+
+/**
+ * Completion context from the token stream.
+ *
+ * The source is lexed, so parentheses inside strings and comments do not
+ * count, and the lists enclosing the cursor are tracked to find what the
+ * position means: a declaration at the top level, an operation after
+ * `allow`/`deny`, a filter inside a rule or a value after a filter name.
+ */
+
+export type CompletionContextKind =
+  /** Inside a string or comment, or where nothing can be completed. */
+  | 'none'
+  /** A top-level declaration such as `version` or `allow`. */
+  | 'declaration'
+  /** An operation name after `allow` or `deny`. */
+  | 'operation'
+  /** A filter inside a rule, a compound filter or a define. */
+  | 'filter'
+  /** An argument of a filter or declaration. */
+  | 'value';
+
+export interface CompletionContext {
+  kind: CompletionContextKind;
+  /** Start of the word being completed; equal to the cursor offset if none. */
+  wordStart: number;
+  /** Whether the cursor directly follows an opening parenthesis (ignoring the word). */
+  inParens: boolean;
+  /** Operations of the enclosing rule, known catalog names and wildcards only. */
+  operations: string[];
+  /** Operations already listed by the rule, for `operation` contexts. */
+  listed: string[];
+  /** The filter or declaration whose argument is completed, for `value` contexts. */
+  head?: string;
+  /** Index of the argument being completed, for `value` contexts. */
+  argIndex: number;
+}
+
+/** An open list preceding the cursor. */
+interface Frame {
+  head?: string;
+  /** Elements after the head. */
+  args: Token[];
+  /** Whether any element after the head is a list. */
+  hasList: boolean;
+}
+
+const RULE_HEADS = new Set(['allow', 'deny']);
+const COMPOUND_HEADS = new Set(['require-all', 'require-any', 'require-not']);
+const FILTER_PARENTS = new Set([...RULE_HEADS, ...COMPOUND_HEADS, 'define']);
+const WORD_TOKENS = new Set<Token['kind']['type']>(['symbol', 'boolean', 'integer', 'unknown']);
+const OPERATION_NAMES = new Set(OPERATIONS.map((op) => op.label));
+
+/** The completion context at an offset in SBPL source. */
+export function completionContextAt(text: string, offset: number): CompletionContext {
+  const tokens = new Lexer(text).tokenize();
+
+  const context: CompletionContext = {
+    kind: 'none',
+    wordStart: offset,
+    inParens: false,
+    operations: [],
+    listed: [],
+    argIndex: 0,
+  };
+
+  if (insideStringOrComment(text, tokens, offset)) {
+    return context;
+  }
+
+  const frames: Frame[] = [];
+  for (const token of tokens) {
+    const { start, end } = token.range;
+    if (token.kind.type === 'eof' || start.offset >= offset) {
+      break;
+    }
+    if (end.offset >= offset && WORD_TOKENS.has(token.kind.type)) {
+      // The word under the cursor is being completed, not a finished element
+      context.wordStart = start.offset;
+      break;
+    }
+
+    const frame = frames[frames.length - 1];
+    if (token.kind.type === 'leftParen') {
+      if (frame) {
+        frame.hasList = true;
+      }
+      frames.push({ args: [], hasList: false });
+    } else if (token.kind.type === 'rightParen') {
+      frames.pop();
+    } else if (frame) {
+      if (frame.head === undefined && frame.args.length === 0 && token.kind.type === 'symbol') {
+        frame.head = token.kind.value;
+      } else {
+        frame.args.push(token);
+      }
+    }
+  }
+
+  const frame = frames[frames.length - 1];
+  const rule = [...frames].reverse().find((candidate) => candidate.head && RULE_HEADS.has(candidate.head));
+  context.operations = rule ? ruleOperations(rule) : [];
+
+  if (!frame) {
+    context.kind = 'declaration';
+    return context;
+  }
+
+  const atHead = frame.head === undefined && frame.args.length === 0;
+  if (atHead) {
+    context.inParens = true;
+    const parent = frames[frames.length - 2];
+    if (!parent) {
+      context.kind = 'declaration';
+    } else if (parent.head && FILTER_PARENTS.has(parent.head)) {
+      // The name list of a function define is not a filter
+      const isSignature = parent.head === 'define' && parent.args.length === 0;
+      context.kind = isSignature ? 'none' : 'filter';
+    }
+    return context;
+  }
+
+  const head = frame.head!;
+  if (RULE_HEADS.has(head)) {
+    context.kind = frame.hasList ? 'filter' : 'operation';
+    context.listed = frame.args.flatMap((token) => token.kind.type === 'symbol' ? [token.kind.value] : []);
+    return context;
+  }
+  if (COMPOUND_HEADS.has(head)) {
+    context.kind = 'filter';
+    return context;
+  }
+  if (head === 'import' || (head === 'define' && frame.args.length === 0)) {
+    return context;
+  }
+
+  context.kind = 'value';
+  context.head = head;
+  context.argIndex = frame.args.length;
+  return context;
+}
+
+/** The catalog operations named by a rule, before its first filter. */
+function ruleOperations(rule: Frame): string[] {
+  const operations: string[] = [];
+  for (const token of rule.args) {
+    if (token.kind.type !== 'symbol') {
+      break;
+    }
+    const name = token.kind.value;
+    if (OPERATION_NAMES.has(name) || isWildcardOperation(name)) {
+      operations.push(name);
+    }
+  }
+  return operations;
+}
+
+/** Whether an offset falls inside a string literal or a comment. */
+function insideStringOrComment(text: string, tokens: Token[], offset: number): boolean {
+  // Unterminated strings and comments run to their end, which is still inside
+  const contains = (start: number, end: number, terminated: boolean): boolean =>
+    start < offset && (offset < end || (offset === end && !terminated));
+
+  for (const token of tokens) {
+    const { start, end } = token.range;
+    if (token.kind.type === 'string' || token.kind.type === 'rawString') {
+      const opening = token.kind.type === 'string' ? 1 : 2;
+      const terminated = end.offset - start.offset > opening && text[end.offset - 1] === '"';
+      if (contains(start.offset, end.offset, terminated)) {
+        return true;
+      }
+    }
+    for (const piece of [...token.leadingTrivia, ...token.trailingTrivia]) {
+      const terminated = piece.kind === 'blockComment' && piece.text.length >= 4 && piece.text.endsWith('|#');
+      if ((piece.kind === 'lineComment' || piece.kind === 'blockComment')
+        && contains(piece.range.start.offset, piece.range.end.offset, terminated)) {
+        return true;
+      }
+    }
+    if (start.offset > offset) {
+      break;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,15 @@
+import * as vscode from 'vscode';
+import type { TextEdit } from './diagnostics.js';
+import type { SourceRange } from './source.js';
+
+/** Converts a built-in source range to a VS Code range. */
+export function toRange(range: SourceRange): vscode.Range {
+  return new vscode.Range(range.start.line, range.start.column, range.end.line, range.end.column);
+}
+
+/** Adds built-in text edits for a document to a workspace edit. */
+export function addEdits(workspaceEdit: vscode.WorkspaceEdit, uri: vscode.Uri, edits: TextEdit[]): void {
+  for (const edit of edits) {
+    workspaceEdit.replace(uri, toRange(edit.range), edit.newText);
+  }
+}
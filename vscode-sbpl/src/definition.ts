@@ -0,0 +1,146 @@
+import * as vscode from 'vscode';
+import type { DefineDecl, Profile } from './ast.js';
+import { toRange } from './convert.js';
+import { documentFilePath, getImportOptions } from './importPaths.js';
+import { resolveImportPath, resolveImports } from './imports.js';
+import { occurrenceAt, occurrencesOf, type SymbolOccurrence } from './occurrences.js';
+import { parse } from './parser.js';
+import { rangeTouches } from './source.js';
+
+/** A profile taking part in navigation, with where it lives. */
+export interface ScopedProfile {
+  uri: vscode.Uri;
+  profile: Profile;
+}
+
+/** A `define`d symbol under the cursor and every profile it is visible in. */
+export interface SymbolScope {
+  occurrence: SymbolOccurrence;
+  definition: DefineDecl;
+  /** The file containing the definition. */
+  uri: vscode.Uri;
+  /** The document, plus imported files that see this definition. */
+  profiles: ScopedProfile[];
+  /** Every definition visible from the document. */
+  visible: DefineDecl[];
+}
+
+/**
+ * Resolves the `define`d symbol at a position, following imports.
+ *
+ * @returns The symbol's scope, and the occurrence alone when the symbol is
+ * not `define`d.
+ */
+export function resolveSymbol(
+  document: vscode.TextDocument,
+  position: vscode.Position
+): { occurrence?: SymbolOccurrence; scope?: SymbolScope } {
+  const { profile } = parse(document.getText());
+  const occurrence = occurrenceAt(profile, document.offsetAt(position));
+  if (!occurrence) {
+    return {};
+  }
+
+  const current: ScopedProfile = { uri: document.uri, profile };
+  const resolution = resolveImports(profile, documentFilePath(document), getImportOptions(document.uri));
+  const visible = [...profile.definitions, ...resolution.definitions.map((entry) => entry.definition)];
+
+  const local = profile.definitions.find((definition) => definition.name === occurrence.name);
+  if (local) {
+    return { occurrence, scope: { occurrence, definition: local, uri: document.uri, profiles: [current], visible } };
+  }
+
+  const imported = resolution.definitions.find((entry) => entry.definition.name === occurrence.name);
+  if (!imported) {
+    return { occurrence };
+  }
+
+  // Imported files that define the name themselves refer to their own definition
+  const profiles = [current];
+  for (const [filePath, importedProfile] of resolution.profiles) {
+    const definesName = importedProfile.definitions.some((definition) => definition.name === occurrence.name);
+    if (filePath === imported.filePath || !definesName) {
+      profiles.push({ uri: vscode.Uri.file(filePath), profile: importedProfile });
+    }
+  }
+
+  return {
+    occurrence,
+    scope: { occurrence, definition: imported.definition, uri: vscode.Uri.file(imported.filePath), profiles, visible },
+  };
+}
+
+/** Every occurrence of a scoped symbol, as locations. */
+export function symbolLocations(scope: SymbolScope, includeDeclaration: boolean): vscode.Location[] {
+  const locations: vscode.Location[] = [];
+  for (const { uri, profile } of scope.profiles) {
+    for (const occurrence of occurrencesOf(profile, scope.definition.name)) {
+      if (includeDeclaration || !occurrence.isDefinition) {
+        locations.push(new vscode.Location(uri, toRange(occurrence.range)));
+      }
+    }
+  }
+  return locations;
+}
+
+/**
+ * Go to definition: import strings jump to the imported profile, and
+ * `define`d symbols to their definition, including in imported files.
+ */
+export class SBPLDefinitionProvider implements vscode.DefinitionProvider {
+  provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.LocationLink[] | undefined {
+    const importLink = this.importDefinition(document, position);
+    if (importLink) {
+      return [importLink];
+    }
+
+    const { occurrence, scope } = resolveSymbol(document, position);
+    if (!occurrence || !scope) {
+      return undefined;
+    }
+    return [{
+      originSelectionRange: toRange(occurrence.range),
+      targetUri: scope.uri,
+      targetRange: toRange(scope.definition.range),
+      targetSelectionRange: toRange(scope.definition.nameRange),
+    }];
+  }
+
+  private importDefinition(document: vscode.TextDocument, position: vscode.Position): vscode.LocationLink | undefined {
+    const { profile } = parse(document.getText());
+    const offset = document.offsetAt(position);
+
+    const decl = profile.imports.find((imp) => rangeTouches(imp.pathRange, offset));
+    if (!decl) {
+      return undefined;
+    }
+
+    const target = resolveImportPath(decl.path, documentFilePath(document), getImportOptions(document.uri));
+    if (!target) {
+      return undefined;
+    }
+
+    const start = new vscode.Range(0, 0, 0, 0);
+    return {
+      originSelectionRange: toRange(decl.pathRange),
+      targetUri: vscode.Uri.file(target),
+      targetRange: start,
+      targetSelectionRange: start,
+    };
+  }
+}
+
+/** Find all references to `define`d symbols, including in imported files. */
+export class SBPLReferenceProvider implements vscode.ReferenceProvider {
+  provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.ReferenceContext
+  ): vscode.Location[] | undefined {
+    const { scope } = resolveSymbol(document, position);
+    return scope ? symbolLocations(scope, context.includeDeclaration) : undefined;
+  }
+}
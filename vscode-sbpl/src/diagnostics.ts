@@ -0,0 +1,110 @@
+import type { SourceRange } from './source.js';
+
+/**
+ * All diagnostic codes used by the SBPL toolchain.
+ *
+ * Mirrors `DiagnosticCode` from SBPLCore so both backends report identical codes:
+ * - L0xx: Lexer errors
+ * - P0xx: Parser errors
+ * - S0xx: Semantic errors
+ * - W0xx: Warnings
+ */
+export enum DiagnosticCode {
+  // Lexer Errors (L0xx)
+  UnknownCharacter = 'L001',
+  UnterminatedString = 'L002',
+  UnterminatedRawString = 'L003',
+  InvalidEscapeSequence = 'L004',
+  InvalidIntegerLiteral = 'L005',
+  UnexpectedEOF = 'L006',
+  UnterminatedComment = 'L007',
+  InvalidHexEscape = 'L008',
+
+  // Parser Errors (P0xx)
+  ExpectedToken = 'P001',
+  ExpectedExpression = 'P002',
+  ExpectedCloseParen = 'P003',
+  UnexpectedToken = 'P004',
+  MissingArgument = 'P005',
+  TooManyArguments = 'P006',
+  InvalidForm = 'P007',
+  EmptyListNotAllowed = 'P008',
+
+  // Semantic Errors (S0xx)
+  UndefinedVariable = 'S001',
+  UndefinedFunction = 'S002',
+  TypeMismatch = 'S003',
+  InvalidOperation = 'S004',
+  InvalidFilterType = 'S005',
+  DuplicateDefinition = 'S006',
+  InvalidVersion = 'S007',
+  CircularImport = 'S008',
+  ImportNotFound = 'S009',
+  InvalidRegex = 'S010',
+
+  // Warnings (W0xx)
+  UnreachableCode = 'W001',
+  Deprecated = 'W002',
+  RedundantRule = 'W003',
+  UnusedDefinition = 'W004',
+  UnsafeOperation = 'W005',
+  StyleIssue = 'W006',
+  UnknownOperation = 'W007',
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'information' | 'hint';
+
+/** Related information for a diagnostic (e.g. "shadowed by" references). */
+export interface DiagnosticRelatedInformation {
+  range: SourceRange;
+  /** The file path, if different from the main diagnostic. */
+  filePath?: string;
+  message: string;
+}
+
+/** A text edit for a code fix. */
+export interface TextEdit {
+  range: SourceRange;
+  newText: string;
+}
+
+/** A code fix that can be applied to resolve a diagnostic. */
+export interface CodeFix {
+  title: string;
+  edits: TextEdit[];
+  /** Whether this fix is safe to apply in bulk ("Fix all"). */
+  isPreferred: boolean;
+}
+
+/** A diagnostic message about SBPL source code. */
+export interface Diagnostic {
+  code: DiagnosticCode;
+  message: string;
+  severity: DiagnosticSeverity;
+  range: SourceRange;
+  relatedInformation?: DiagnosticRelatedInformation[];
+  /** The ID of the lint rule that reported it, for lint diagnostics. */
+  rule?: string;
+}
+
+/** The default severity for a diagnostic code, as defined by SBPLCore. */
+export function defaultSeverity(code: DiagnosticCode): DiagnosticSeverity {
+  if (code === DiagnosticCode.StyleIssue) {
+    return 'hint';
+  }
+  return code.startsWith('W') ? 'warning' : 'error';
+}
+
+/** Creates a diagnostic with the default severity for its code. */
+export function createDiagnostic(
+  code: DiagnosticCode,
+  message: string,
+  range: SourceRange,
+  relatedInformation?: DiagnosticRelatedInformation[]
+): Diagnostic {
+  const diagnostic: Diagnostic = { code, message, severity: defaultSeverity(code), range };
+  if (relatedInformation && relatedInformation.length > 0) {
+    diagnostic.relatedInformation = relatedInformation;
+  }
+  return diagnostic;
+}
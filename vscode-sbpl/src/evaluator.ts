@@ -0,0 +1,252 @@
+import type { Filter, Profile, Rule, SandboxAction } from './ast.js';
+import {
+  buildDefinitionTable,
+  expandCall,
+  HOME_PATTERN,
+  isUnderSubpath,
+  pathSpec,
+  regexMatches,
+  resolveFilter,
+  ruleFilter,
+  rulesInEvaluationOrder,
+  type DefinitionTable,
+} from './filters.js';
+
+/**
+ * Access evaluation: "would this profile allow this access?"
+ *
+ * Every rule whose operations cover the queried operation and whose filters
+ * match the query is a candidate; the last one wins, as in the sandbox.
+ * `default` rules are the fallback: they decide only when no rule for the
+ * operation matches, wherever they appear. When nothing matches, the access
+ * is allowed, which is why profiles start with `(deny default)`.
+ *
+ * Filters are evaluated with three outcomes. Filters that need information
+ * the query does not carry, such as `(extension ...)` or a path filter for a
+ * query without a path, are undetermined: a rule that depends on them is not
+ * taken, but is reported so callers can tell a certain answer from a guess.
+ */
+
+/** An access to check against a profile. */
+export interface AccessQuery {
+  /** A concrete operation such as `file-read-data`. */
+  operation: string;
+  /** Absolute path, for file and process operations. */
+  path?: string;
+  /** Home directory used by `home-*` filters; any `/Users/<name>` when omitted. */
+  homeDirectory?: string;
+  /** Mach service name, for `global-name` filters. */
+  globalName?: string;
+  /** Mach service name, for `local-name` filters. */
+  localName?: string;
+  /** Network address as `host:port`, for `remote` and `local` filters. */
+  address?: string;
+  /** Transport protocol of a network access. */
+  protocol?: 'tcp' | 'udp';
+  /** IOKit class name, for `iokit-user-client-class` and `iokit-registry-entry-class`. */
+  iokitClass?: string;
+}
+
+export interface AccessDecision {
+  decision: SandboxAction;
+  /** The rule that decided; `undefined` when no rule matched. */
+  rule?: Rule;
+  /**
+   * The filter that made the rule match: the leaf of the `require-*` tree that
+   * settled its outcome. `undefined` when the rule has no filters.
+   */
+  filter?: Filter;
+  /** Rules after the deciding one whose filters could not be evaluated for this query. */
+  undetermined: Rule[];
+}
+
+/** Outcome of a filter: `undefined` when the query lacks what it tests. */
+type Match = boolean | undefined;
+
+interface FilterOutcome {
+  match: Match;
+  /** The leaf filter that settled the outcome. */
+  filter?: Filter;
+}
+
+type SimpleFilter = Extract<Filter, { kind: 'simple' }>;
+
+const MAX_EXPANSION_DEPTH = 16;
+
+/**
+ * Evaluates an access against a profile.
+ *
+ * @param imported Definitions visible through imports.
+ */
+export function evaluateAccess(
+  profile: Profile,
+  query: AccessQuery,
+  imported: DefinitionTable = new Map()
+): AccessDecision {
+  const definitions = buildDefinitionTable([...profile.definitions, ...imported.values()]);
+  const undetermined: Rule[] = [];
+
+  const rules = rulesInEvaluationOrder(profile.rules, query.operation, definitions, (rule) => rule);
+  for (let i = rules.length - 1; i >= 0; i--) {
+    const rule = rules[i];
+    const filter = ruleFilter(rule, definitions);
+    if (!filter) {
+      return { decision: rule.action, rule, undetermined };
+    }
+
+    const outcome = evaluateFilter(filter, query, definitions, 0);
+    if (outcome.match === true) {
+      return { decision: rule.action, rule, filter: outcome.filter, undetermined };
+    }
+    if (outcome.match === undefined) {
+      undetermined.unshift(rule);
+    }
+  }
+
+  return { decision: 'allow', undetermined };
+}
+
+/**
+ * Whether a filter matches an access: `undefined` when the query lacks what
+ * the filter tests.
+ */
+export function filterMatches(filter: Filter, query: AccessQuery, definitions: DefinitionTable = new Map()): boolean | undefined {
+  return evaluateFilter(filter, query, definitions, 0).match;
+}
+
+function evaluateFilter(filter: Filter, query: AccessQuery, definitions: DefinitionTable, depth: number): FilterOutcome {
+  if (depth > MAX_EXPANSION_DEPTH) {
+    return { match: undefined, filter };
+  }
+
+  switch (filter.kind) {
+    case 'expression': {
+      const resolved = resolveFilter(filter, definitions);
+      return resolved ? evaluateFilter(resolved, query, definitions, depth + 1) : { match: undefined, filter };
+    }
+
+    case 'not': {
+      const inner = evaluateFilter(filter.filter, query, definitions, depth + 1);
+      return { match: inner.match === undefined ? undefined : !inner.match, filter: inner.filter };
+    }
+
+    case 'compound': {
+      // require-all is settled by its first failing child, require-any by its first matching one
+      const settles = filter.type !== 'require-all';
+      let last: FilterOutcome = { match: !settles };
+      let unknown: FilterOutcome | undefined;
+      for (const child of filter.filters) {
+        const outcome = evaluateFilter(child, query, definitions, depth + 1);
+        if (outcome.match === settles) {
+          return outcome;
+        }
+        if (outcome.match === undefined) {
+          unknown ??= outcome;
+        }
+        last = outcome;
+      }
+      return unknown ?? last;
+    }
+
+    case 'simple': {
+      const expanded = expandCall(filter, definitions);
+      if (expanded) {
+        return evaluateFilter(expanded, query, definitions, depth + 1);
+      }
+      return { match: matchSimple(filter, query), filter };
+    }
+  }
+}
+
+function matchSimple(filter: SimpleFilter, query: AccessQuery): Match {
+  const spec = pathSpec(filter);
+  if (spec) {
+    if (query.path === undefined) {
+      return undefined;
+    }
+    const path = spec.base === 'home' ? homeRelative(query.path, query.homeDirectory) : query.path;
+    if (path === undefined) {
+      return false;
+    }
+    switch (spec.kind) {
+      case 'literal':
+        return path === spec.value;
+      case 'subpath':
+        return isUnderSubpath(path, spec.value);
+      case 'prefix':
+        return path.startsWith(spec.value);
+      case 'regex':
+        return regexMatches(spec.value, path);
+    }
+  }
+
+  const value = filter.value.kind === 'string' || filter.value.kind === 'rawString' ? filter.value.value : undefined;
+  switch (filter.type) {
+    case 'global-name':
+      return query.globalName === undefined || value === undefined ? undefined : query.globalName === value;
+    case 'global-name-regex':
+      return query.globalName === undefined || value === undefined ? undefined : regexMatches(value, query.globalName);
+    case 'local-name':
+      return query.localName === undefined || value === undefined ? undefined : query.localName === value;
+    case 'local-name-regex':
+      return query.localName === undefined || value === undefined ? undefined : regexMatches(value, query.localName);
+    case 'iokit-user-client-class':
+    case 'iokit-registry-entry-class':
+      return query.iokitClass === undefined || value === undefined ? undefined : query.iokitClass === value;
+    case 'remote':
+    case 'local':
+      return matchAddress(filter, query);
+    default:
+      return undefined;
+  }
+}
+
+/** The path relative to the home directory, or `undefined` if it is outside it. */
+function homeRelative(path: string, homeDirectory: string | undefined): string | undefined {
+  if (homeDirectory !== undefined) {
+    return isUnderSubpath(path, homeDirectory) ? path.slice(homeDirectory.replace(/\/$/, '').length) : undefined;
+  }
+  const home = HOME_PATTERN.exec(path);
+  return home ? path.slice(home[0].length) : undefined;
+}
+
+/** Matches `(remote tcp "*:443")`, `(remote ip "localhost:*")` and the like. */
+function matchAddress(filter: SimpleFilter, query: AccessQuery): Match {
+  const [protocolArg, addressArg] = filter.args;
+  if (query.address === undefined || protocolArg?.kind !== 'symbol' || addressArg?.kind !== 'string') {
+    return undefined;
+  }
+
+  const protocol = protocolArg.name;
+  if (protocol !== 'ip') {
+    if (protocol !== 'tcp' && protocol !== 'udp') {
+      return undefined;
+    }
+    if (query.protocol === undefined) {
+      return undefined;
+    }
+    if (query.protocol !== protocol) {
+      return false;
+    }
+  }
+
+  const pattern = splitAddress(addressArg.value);
+  const address = splitAddress(query.address);
+  const hostMatches = pattern.host === '*' || sameHost(pattern.host, address.host);
+  const portMatches = pattern.port === '*' || pattern.port === address.port;
+  return hostMatches && portMatches;
+}
+
+function splitAddress(address: string): { host: string; port: string } {
+  const colon = address.lastIndexOf(':');
+  return colon < 0 ? { host: address, port: '*' } : { host: address.slice(0, colon), port: address.slice(colon + 1) };
+}
+
+const LOCALHOST_NAMES = new Set(['localhost', '127.0.0.1', '::1', '[::1]']);
+
+function sameHost(pattern: string, host: string): boolean {
+  if (pattern === 'localhost') {
+    return LOCALHOST_NAMES.has(host);
+  }
+  return pattern === host;
+}
@@ -1,232 +1,188 @@
 import * as vscode from 'vscode';
-import { SBPLCompletionProvider } from './completion.js';
-
-let diagnosticCollection: vscode.DiagnosticCollection;
-
-interface SBPLDiagnostic {
-  severity: 'error' | 'warning' | 'information' | 'hint';
-  message: string;
-  range: {
-    start: { line: number; column: number };
-    end: { line: number; column: number };
-  };
-  code?: string;
-}
+import {
+  LanguageClient,
+  TransportKind,
+  type LanguageClientOptions,
+  type ServerOptions,
+} from 'vscode-languageclient/node';
+import { SBPLCheckerStatusItem } from './checkerStatus.js';
+import { SBPLCodeActionProvider } from './codeActions.js';
+import { SBPLDefinitionProvider, SBPLReferenceProvider } from './definition.js';
+import { SBPLFormattingProvider } from './formatting.js';
+import { convertJSONToSBPL, convertToJSON } from './jsonConversion.js';
+import { SBPLJsonPreviewProvider } from './jsonPreview.js';
+import { newProfile } from './newProfile.js';
+import { compareProfiles } from './profileComparison.js';
+import { SBPLPermissionsView } from './permissionsView.js';
+import { SBPLTestController } from './profileTesting.js';
+import { SBPLRenameProvider } from './rename.js';
+import { extractDefineCommand, refactorCommand, wrapFiltersCommand } from './structuralEditing.js';
+import { SBPLFoldingRangeProvider, SBPLSelectionRangeProvider } from './structureProviders.js';
+import { SBPLDocumentSymbolProvider, SBPLWorkspaceSymbolProvider } from './symbolProviders.js';
+import { testAccess } from './testAccess.js';
+import { importViolations, SBPLSuggestionPreviewProvider } from './violationImport.js';
+
+let client: LanguageClient | undefined;
 
 export function activate(context: vscode.ExtensionContext): void {
   console.log('SBPL extension activated');
 
-  diagnosticCollection = vscode.languages.createDiagnosticCollection('sbpl');
-  context.subscriptions.push(diagnosticCollection);
+  // Diagnostics, completion, hover and semantic tokens come from the language
+  // server, which also provides the sbpl.checkSyntax command
+  const serverModule = context.asAbsolutePath('out/server.js');
+  const serverOptions: ServerOptions = {
+    run: { module: serverModule, transport: TransportKind.stdio },
+    debug: { module: serverModule, transport: TransportKind.stdio },
+  };
+  const clientOptions: LanguageClientOptions = {
+    documentSelector: [
+      { scheme: 'file', language: 'sbpl' },
+      { scheme: 'untitled', language: 'sbpl' },
+    ],
+    synchronize: {
+      configurationSection: 'sbpl',
+      // The server also reports profiles that are not open
+      fileEvents: vscode.workspace.createFileSystemWatcher('**/*.{sb,sbpl}'),
+    },
+  };
+  client = new LanguageClient('sbpl', 'SBPL Language Server', serverOptions, clientOptions);
+  context.subscriptions.push(new SBPLCheckerStatusItem(client));
+  void client.start();
 
-  // Register completion provider
-  const completionProvider = new SBPLCompletionProvider();
+  // Register quick fixes, "Fix all" and refactors
   context.subscriptions.push(
-    vscode.languages.registerCompletionItemProvider(
+    vscode.languages.registerCodeActionsProvider(
       'sbpl',
-      completionProvider,
-      '(', ' ', '\n' // Trigger on open paren, space, or newline
+      new SBPLCodeActionProvider(),
+      { providedCodeActionKinds: SBPLCodeActionProvider.providedCodeActionKinds }
     )
   );
 
-  // Register document change listener
+  // Register go to definition, references and rename for imports and defines
   context.subscriptions.push(
-    vscode.workspace.onDidChangeTextDocument((event) => {
-      if (event.document.languageId === 'sbpl') {
-        validateDocument(event.document);
-      }
-    })
+    vscode.languages.registerDefinitionProvider('sbpl', new SBPLDefinitionProvider()),
+    vscode.languages.registerReferenceProvider('sbpl', new SBPLReferenceProvider()),
+    vscode.languages.registerRenameProvider('sbpl', new SBPLRenameProvider())
   );
 
-  // Register document open listener
+  // Register document and selection formatting
+  const formattingProvider = new SBPLFormattingProvider();
   context.subscriptions.push(
-    vscode.workspace.onDidOpenTextDocument((document) => {
-      if (document.languageId === 'sbpl') {
-        validateDocument(document);
-      }
-    })
+    vscode.languages.registerDocumentFormattingEditProvider('sbpl', formattingProvider),
+    vscode.languages.registerDocumentRangeFormattingEditProvider('sbpl', formattingProvider)
   );
 
-  // Register document save listener
+  // Register structural editing: refactoring commands, folding and expand selection
+  const sbplEditor = (): vscode.TextEditor | undefined => {
+    const editor = vscode.window.activeTextEditor;
+    return editor?.document.languageId === 'sbpl' ? editor : undefined;
+  };
   context.subscriptions.push(
-    vscode.workspace.onDidSaveTextDocument((document) => {
-      if (document.languageId === 'sbpl') {
-        validateDocument(document);
+    vscode.languages.registerFoldingRangeProvider('sbpl', new SBPLFoldingRangeProvider()),
+    vscode.languages.registerSelectionRangeProvider('sbpl', new SBPLSelectionRangeProvider()),
+    vscode.commands.registerCommand('sbpl.wrapFilters', async () => {
+      const editor = sbplEditor();
+      if (editor) {
+        await wrapFiltersCommand(editor);
       }
-    })
+    }),
+    vscode.commands.registerCommand('sbpl.unwrapFilter', async () => {
+      const editor = sbplEditor();
+      if (editor) {
+        await refactorCommand(editor, 'unwrap');
+      }
+    }),
+    vscode.commands.registerCommand('sbpl.splitRule', async () => {
+      const editor = sbplEditor();
+      if (editor) {
+        await refactorCommand(editor, 'split');
+      }
+    }),
+    vscode.commands.registerCommand('sbpl.mergeRules', async () => {
+      const editor = sbplEditor();
+      if (editor) {
+        await refactorCommand(editor, 'merge');
+      }
+    }),
+    vscode.commands.registerCommand('sbpl.extractDefine', (uri?: vscode.Uri, range?: vscode.Range) =>
+      extractDefineCommand(uri, range)
+    )
   );
 
-  // Validate all open SBPL documents
-  for (const document of vscode.workspace.textDocuments) {
-    if (document.languageId === 'sbpl') {
-      validateDocument(document);
-    }
-  }
-
-  // Register command to manually check syntax
+  // Register outline and workspace symbol search
   context.subscriptions.push(
-    vscode.commands.registerCommand('sbpl.checkSyntax', () => {
-      const editor = vscode.window.activeTextEditor;
-      if (editor && editor.document.languageId === 'sbpl') {
-        validateDocument(editor.document);
-      }
-    })
+    vscode.languages.registerDocumentSymbolProvider('sbpl', new SBPLDocumentSymbolProvider()),
+    vscode.languages.registerWorkspaceSymbolProvider(new SBPLWorkspaceSymbolProvider())
   );
 
-  // Register command to convert to JSON
+  // Register the effective permissions view in the Explorer
+  context.subscriptions.push(new SBPLPermissionsView());
+
+  // Register JSON conversion both ways and the live JSON preview
+  const jsonPreview = new SBPLJsonPreviewProvider();
   context.subscriptions.push(
+    jsonPreview,
+    vscode.workspace.registerTextDocumentContentProvider(SBPLJsonPreviewProvider.scheme, jsonPreview),
+    vscode.workspace.onDidChangeTextDocument((event) => {
+      if (event.document.languageId === 'sbpl') {
+        jsonPreview.refresh(event.document.uri);
+      }
+    }),
     vscode.commands.registerCommand('sbpl.convertToJSON', async () => {
       const editor = vscode.window.activeTextEditor;
       if (editor && editor.document.languageId === 'sbpl') {
         await convertToJSON(editor.document);
       }
+    }),
+    vscode.commands.registerCommand('sbpl.convertJSONToSBPL', async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (editor && ['json', 'jsonc'].includes(editor.document.languageId)) {
+        await convertJSONToSBPL(editor.document);
+      }
+    }),
+    vscode.commands.registerCommand('sbpl.showJSONPreview', async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (editor && editor.document.languageId === 'sbpl') {
+        const preview = await vscode.workspace.openTextDocument(SBPLJsonPreviewProvider.previewUri(editor.document.uri));
+        const json = await vscode.languages.setTextDocumentLanguage(preview, 'json');
+        await vscode.window.showTextDocument(json, { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true });
+      }
+    }),
+    vscode.commands.registerCommand('sbpl.testAccess', async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (editor && editor.document.languageId === 'sbpl') {
+        await testAccess(editor);
+      }
     })
   );
-}
-
-export function deactivate(): void {
-  diagnosticCollection?.dispose();
-}
-
-function getExecutablePath(): string {
-  const config = vscode.workspace.getConfiguration('sbpl');
-  const configuredPath = config.get<string>('executablePath');
-
-  if (configuredPath && configuredPath.length > 0) {
-    return configuredPath;
-  }
 
-  // Default: look for sbpl-convert in PATH
-  return 'sbpl-convert';
-}
-
-async function validateDocument(document: vscode.TextDocument): Promise<void> {
-  const config = vscode.workspace.getConfiguration('sbpl');
-  if (!config.get<boolean>('enableDiagnostics', true)) {
-    diagnosticCollection.delete(document.uri);
-    return;
-  }
-
-  const text = document.getText();
-  const execPath = getExecutablePath();
-
-  try {
-    const proc = Bun.spawn([execPath, 'check', '-'], {
-      stdin: new Blob([text]),
-      stdout: 'pipe',
-      stderr: 'pipe',
-    });
+  // Register profile test files with the Test Explorer
+  context.subscriptions.push(new SBPLTestController());
 
-    const [exitCode, stderr] = await Promise.all([
-      proc.exited,
-      new Response(proc.stderr).text(),
-    ]);
-
-    const diagnostics: vscode.Diagnostic[] = [];
-
-    // Parse diagnostics from stderr
-    if (stderr) {
-      const lines = stderr.trim().split('\n');
-      for (const line of lines) {
-        if (line.startsWith('{')) {
-          try {
-            const diag = JSON.parse(line) as SBPLDiagnostic;
-            diagnostics.push(convertDiagnostic(diag));
-          } catch {
-            // Skip malformed JSON
-          }
-        } else if (line.includes(':')) {
-          // Simple format: "line:column: severity: message"
-          const match = line.match(/(\d+):(\d+):\s*(error|warning|info|hint):\s*(.+)/);
-          if (match) {
-            const lineNum = parseInt(match[1], 10) - 1;
-            const colNum = parseInt(match[2], 10) - 1;
-            const severity = mapSeverity(match[3]);
-            const message = match[4];
-
-            diagnostics.push(new vscode.Diagnostic(
-              new vscode.Range(lineNum, colNum, lineNum, colNum + 1),
-              message,
-              severity
-            ));
-          }
-        }
+  // Register rule suggestions from sandbox violation logs
+  const suggestionPreview = new SBPLSuggestionPreviewProvider();
+  context.subscriptions.push(
+    suggestionPreview,
+    vscode.workspace.registerTextDocumentContentProvider(SBPLSuggestionPreviewProvider.scheme, suggestionPreview),
+    vscode.commands.registerCommand('sbpl.importViolations', async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (editor && editor.document.languageId === 'sbpl') {
+        await importViolations(editor, suggestionPreview);
       }
-    }
-
-    diagnosticCollection.set(document.uri, diagnostics);
-  } catch (error) {
-    // If the executable is not found, clear diagnostics silently
-    console.warn('sbpl-convert not found. Syntax checking disabled.');
-    diagnosticCollection.delete(document.uri);
-  }
-}
-
-function convertDiagnostic(diag: SBPLDiagnostic): vscode.Diagnostic {
-  const range = new vscode.Range(
-    diag.range.start.line - 1,
-    diag.range.start.column - 1,
-    diag.range.end.line - 1,
-    diag.range.end.column - 1
+    })
   );
 
-  const severity = mapSeverity(diag.severity);
-  const diagnostic = new vscode.Diagnostic(range, diag.message, severity);
-
-  if (diag.code) {
-    diagnostic.code = diag.code;
-  }
-
-  diagnostic.source = 'sbpl';
-
-  return diagnostic;
-}
+  // Register the semantic comparison of two profile versions
+  context.subscriptions.push(
+    vscode.commands.registerCommand('sbpl.compareProfiles', (before?: vscode.Uri, after?: vscode.Uri) =>
+      compareProfiles(before, after)
+    )
+  );
 
-function mapSeverity(severity: string): vscode.DiagnosticSeverity {
-  switch (severity.toLowerCase()) {
-    case 'error':
-      return vscode.DiagnosticSeverity.Error;
-    case 'warning':
-      return vscode.DiagnosticSeverity.Warning;
-    case 'information':
-    case 'info':
-      return vscode.DiagnosticSeverity.Information;
-    case 'hint':
-      return vscode.DiagnosticSeverity.Hint;
-    default:
-      return vscode.DiagnosticSeverity.Error;
-  }
+  // Register the new profile wizard
+  context.subscriptions.push(vscode.commands.registerCommand('sbpl.newProfile', () => newProfile()));
 }
 
-async function convertToJSON(document: vscode.TextDocument): Promise<void> {
-  const text = document.getText();
-  const execPath = getExecutablePath();
-
-  try {
-    const proc = Bun.spawn([execPath, 'to-json', '-'], {
-      stdin: new Blob([text]),
-      stdout: 'pipe',
-      stderr: 'pipe',
-    });
-
-    const [exitCode, stdout, stderr] = await Promise.all([
-      proc.exited,
-      new Response(proc.stdout).text(),
-      new Response(proc.stderr).text(),
-    ]);
-
-    if (exitCode === 0 && stdout) {
-      // Open a new document with the JSON content
-      const jsonDoc = await vscode.workspace.openTextDocument({
-        content: stdout,
-        language: 'json'
-      });
-      await vscode.window.showTextDocument(jsonDoc, vscode.ViewColumn.Beside);
-    } else {
-      vscode.window.showErrorMessage(`Conversion failed: ${stderr || 'Unknown error'}`);
-    }
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    vscode.window.showErrorMessage(`Failed to run sbpl-convert: ${message}`);
-  }
+export function deactivate(): Thenable<void> | undefined {
+  return client?.stop();
 }
@@ -0,0 +1,250 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'node:child_process';
+import type { Diagnostic, DiagnosticSeverity } from './diagnostics.js';
+import { SourceText, type SourcePosition } from './source.js';
+
+/**
+ * Diagnostics from the Swift `sbpl-convert serve` executable.
+ *
+ * One process is kept running and checks every profile: each request is a
+ * line of JSON on its stdin, `{"id": 1, "text": "..."}`, answered on stdout
+ * by `{"id": 1, "diagnostics": [...]}` with 1-based lines and columns.
+ */
+
+/** Notification the language server sends with a `CheckerStatus` when the checker changes state. */
+export const CHECKER_STATUS_NOTIFICATION = 'sbpl/checkerStatus';
+
+/** A diagnostic from the external checker; its codes are not limited to the built-in ones. */
+export type ExternalDiagnostic = Omit<Diagnostic, 'code'> & { code?: string };
+
+/** The state of the checker process, for display to the user. */
+export interface CheckerStatus {
+  state: 'running' | 'stopped' | 'unavailable' | 'crashed';
+  message: string;
+  /** The end of the checker's stderr output, when it stopped unexpectedly. */
+  detail?: string;
+}
+
+/** A diagnostic as printed by `sbpl-convert` in JSON form. */
+interface SBPLDiagnostic {
+  severity: 'error' | 'warning' | 'information' | 'hint';
+  message: string;
+  range: {
+    start: { line: number; column: number };
+    end: { line: number; column: number };
+  };
+  code?: string;
+}
+
+interface PendingCheck {
+  source: SourceText;
+  resolve: (diagnostics: ExternalDiagnostic[] | undefined) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/** A check that takes longer than this is treated as a hung checker. */
+const CHECK_TIMEOUT_MS = 10_000;
+
+/** The checker is given up on after this many crashes without a successful check in between. */
+const MAX_CONSECUTIVE_CRASHES = 3;
+
+/** Lines of stderr kept to explain a crash. */
+const STDERR_LINES = 20;
+
+/**
+ * A long-lived `sbpl-convert serve` process.
+ *
+ * The process starts with the first check and restarts after a crash. A
+ * check resolves to `undefined` when the checker cannot answer, so callers
+ * can fall back to the built-in checker. Status changes, including exit
+ * codes and the stderr output of a crash, are reported to `onStatus`, and
+ * every stderr line is passed to `onStderr`.
+ */
+export class ExternalChecker {
+  private proc: ChildProcessWithoutNullStreams | undefined;
+  private readonly pending = new Map<number, PendingCheck>();
+  private nextId = 1;
+  private stdout = '';
+  private stderr: string[] = [];
+  /** Whether the executable has answered a check, which shows it supports `serve`. */
+  private answered = false;
+  private crashes = 0;
+  private disabled = false;
+  private disposed = false;
+
+  constructor(
+    readonly executablePath: string,
+    private readonly onStatus: (status: CheckerStatus) => void = () => undefined,
+    private readonly onStderr: (line: string) => void = () => undefined
+  ) {}
+
+  /** Checks the text, or resolves to `undefined` if the checker is unavailable or fails. */
+  check(text: string): Promise<ExternalDiagnostic[] | undefined> {
+    const proc = this.disabled || this.disposed ? undefined : this.proc ?? this.start();
+    if (!proc) {
+      return Promise.resolve(undefined);
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.stop(proc, `${this.executablePath} did not answer within ${CHECK_TIMEOUT_MS / 1000} seconds`);
+      }, CHECK_TIMEOUT_MS);
+      this.pending.set(id, { source: new SourceText(text), resolve, timer });
+      proc.stdin.write(JSON.stringify({ id, text }) + '\n');
+    });
+  }
+
+  /** Stops the process; later checks resolve to `undefined`. */
+  dispose(): void {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+    this.proc?.stdin.end();
+    this.proc = undefined;
+    this.settleAll();
+    this.onStatus({ state: 'stopped', message: `${this.executablePath} stopped` });
+  }
+
+  private start(): ChildProcessWithoutNullStreams {
+    const proc = spawn(this.executablePath, ['serve'], { stdio: ['pipe', 'pipe', 'pipe'] });
+    this.proc = proc;
+    this.stdout = '';
+    this.stderr = [];
+
+    proc.stdout.setEncoding('utf8');
+    proc.stdout.on('data', (chunk: string) => {
+      this.stdout += chunk;
+      let newline: number;
+      while ((newline = this.stdout.indexOf('\n')) >= 0) {
+        const line = this.stdout.slice(0, newline).trim();
+        this.stdout = this.stdout.slice(newline + 1);
+        if (line) {
+          this.handleResponse(line);
+        }
+      }
+    });
+
+    proc.stderr.setEncoding('utf8');
+    proc.stderr.on('data', (chunk: string) => {
+      for (const line of chunk.split('\n').filter((entry) => entry.trim())) {
+        this.stderr = [...this.stderr, line].slice(-STDERR_LINES);
+        this.onStderr(line);
+      }
+    });
+
+    // Writing fails with EPIPE when the process is gone; 'close' reports that
+    proc.stdin.on('error', () => undefined);
+
+    proc.on('error', (error: NodeJS.ErrnoException) => {
+      if (this.proc !== proc) {
+        return;
+      }
+      this.proc = undefined;
+      this.disabled = true;
+      this.settleAll();
+      const reason = error.code === 'ENOENT' ? 'was not found' : `could not be started: ${error.message}`;
+      this.onStatus({ state: 'unavailable', message: `${this.executablePath} ${reason}; using the built-in checker` });
+    });
+
+    // 'close' comes after stderr is drained, so a crash report has all of it
+    proc.on('close', (code, signal) => {
+      if (this.proc !== proc) {
+        return;
+      }
+      this.proc = undefined;
+      this.settleAll();
+      this.crashed(signal ? `${this.executablePath} was stopped by ${signal}` : `${this.executablePath} exited with code ${code}`);
+    });
+
+    this.onStatus({ state: 'running', message: `${this.executablePath} is running` });
+    return proc;
+  }
+
+  private handleResponse(line: string): void {
+    let response: { id?: unknown; diagnostics?: unknown };
+    try {
+      response = JSON.parse(line) as typeof response;
+    } catch {
+      this.onStderr(`Unexpected output: ${line}`);
+      return;
+    }
+    const pending = typeof response.id === 'number' ? this.pending.get(response.id) : undefined;
+    if (!pending || !Array.isArray(response.diagnostics)) {
+      this.onStderr(`Unexpected output: ${line}`);
+      return;
+    }
+
+    this.pending.delete(response.id as number);
+    clearTimeout(pending.timer);
+    this.answered = true;
+    this.crashes = 0;
+    pending.resolve((response.diagnostics as SBPLDiagnostic[]).map((diag) => toExternalDiagnostic(diag, pending.source)));
+  }
+
+  /** Kills a hung process and reports why. */
+  private stop(proc: ChildProcessWithoutNullStreams, reason: string): void {
+    if (this.proc !== proc) {
+      return;
+    }
+    this.proc = undefined;
+    proc.kill();
+    this.settleAll();
+    this.crashed(reason);
+  }
+
+  private crashed(reason: string): void {
+    if (this.disposed) {
+      return;
+    }
+    this.crashes += 1;
+    const detail = this.stderr.length > 0 ? this.stderr.join('\n') : undefined;
+
+    // An executable that never answers is most likely too old to have `serve`
+    if (!this.answered) {
+      this.disabled = true;
+      this.onStatus({
+        state: 'crashed',
+        message: `${reason} before answering; does it support 'sbpl-convert serve'? Using the built-in checker`,
+        detail,
+      });
+    } else if (this.crashes >= MAX_CONSECUTIVE_CRASHES) {
+      this.disabled = true;
+      this.onStatus({ state: 'crashed', message: `${reason}; stopped restarting it and using the built-in checker`, detail });
+    } else {
+      this.onStatus({ state: 'crashed', message: `${reason}; restarting it on the next check`, detail });
+    }
+  }
+
+  /** Resolves every outstanding check to `undefined`. */
+  private settleAll(): void {
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.resolve(undefined);
+    }
+    this.pending.clear();
+  }
+}
+
+function toExternalDiagnostic(diag: SBPLDiagnostic, source: SourceText): ExternalDiagnostic {
+  const position = (line: number, column: number): SourcePosition => source.positionAt(source.offsetAt(line - 1, column - 1));
+  const range = {
+    start: position(diag.range.start.line, diag.range.start.column),
+    end: position(diag.range.end.line, diag.range.end.column),
+  };
+  return { code: diag.code, message: diag.message, severity: mapSeverity(diag.severity), range };
+}
+
+function mapSeverity(severity: string): DiagnosticSeverity {
+  switch (severity.toLowerCase()) {
+    case 'warning':
+      return 'warning';
+    case 'information':
+    case 'info':
+      return 'information';
+    case 'hint':
+      return 'hint';
+    default:
+      return 'error';
+  }
+}
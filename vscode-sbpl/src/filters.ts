@@ -0,0 +1,354 @@
+import { exprAsFilter, exprToString, type DefineDecl, type Expr, type Filter, type Rule } from './ast.js';
+import { operationCovers } from './operations.js';
+
+/**
+ * Filter containment.
+ *
+ * Answers "does filter A match every access filter B matches?" for the path,
+ * name and compound filters. Answers are conservative: `true` only when the
+ * containment is certain, so callers can use them to prove rules dead.
+ */
+
+/** Table of `define`d names visible to a profile. */
+export type DefinitionTable = Map<string, DefineDecl>;
+
+/** Filters that only describe how a rule reports, not what it matches. */
+const MODIFIER_FILTERS = new Set(['with']);
+
+/** Filters whose argument must equal the accessed name exactly. */
+const EXACT_FILTERS = new Set([
+  'global-name', 'local-name', 'xpc-service-name', 'ipc-posix-name', 'extension',
+  'iokit-user-client-class', 'iokit-registry-entry-class', 'sysctl-name', 'preference-domain',
+  'right-name', 'notification-name', 'signing-identifier', 'appleevent-destination',
+  'vnode-type', 'socket-domain', 'socket-type',
+]);
+
+type PathKind = 'literal' | 'subpath' | 'prefix' | 'regex';
+
+interface PathSpec {
+  /** Absolute paths and paths relative to the home directory are not comparable. */
+  base: 'root' | 'home';
+  kind: PathKind;
+  value: string;
+}
+
+const MAX_DEFINE_DEPTH = 16;
+
+/** The home directory at the start of a path when no home directory is known. */
+export const HOME_PATTERN = /^\/Users\/[^/]+(?=\/|$)/;
+
+/** Builds the definition table for a profile; the first definition of a name wins. */
+export function buildDefinitionTable(definitions: Iterable<DefineDecl>): DefinitionTable {
+  const table: DefinitionTable = new Map();
+  for (const definition of definitions) {
+    if (!table.has(definition.name)) {
+      table.set(definition.name, definition);
+    }
+  }
+  return table;
+}
+
+/**
+ * Operations named by a rule. Symbols in operation position that name a
+ * `define` are filters, not operations, and are excluded.
+ */
+export function ruleOperationNames(rule: Rule, definitions: DefinitionTable): string[] {
+  return rule.operations.map((op) => op.name).filter((name) => !definitions.has(name));
+}
+
+/**
+ * The rules that apply to an operation, in evaluation order. `default` is the
+ * fallback for operations no other rule matches, so rules that cover the
+ * operation only through `default` come first, as if they preceded every
+ * other rule; the last matching rule still wins.
+ *
+ * @param ruleOf The rule of an entry, for entries that carry more than a rule.
+ */
+export function rulesInEvaluationOrder<T>(
+  entries: readonly T[],
+  operation: string,
+  definitions: DefinitionTable,
+  ruleOf: (entry: T) => Rule
+): T[] {
+  const fallback: T[] = [];
+  const specific: T[] = [];
+  for (const entry of entries) {
+    const names = ruleOperationNames(ruleOf(entry), definitions);
+    if (names.some((name) => name !== 'default' && operationCovers(name, operation))) {
+      specific.push(entry);
+    } else if (names.includes('default')) {
+      fallback.push(entry);
+    }
+  }
+  return [...fallback, ...specific];
+}
+
+/**
+ * The single filter a rule matches with: its filters are alternatives, so
+ * several are combined with `require-any`. Returns `undefined` when the rule
+ * has no filters and therefore matches every access to its operations.
+ */
+export function ruleFilter(rule: Rule, definitions: DefinitionTable): Filter | undefined {
+  const filters: Filter[] = rule.filters.filter((f) => !(f.kind === 'simple' && MODIFIER_FILTERS.has(f.type)));
+
+  for (const op of rule.operations) {
+    if (definitions.has(op.name)) {
+      filters.push({ kind: 'expression', expr: { kind: 'symbol', name: op.name, range: op.range }, range: op.range });
+    }
+  }
+
+  if (filters.length === 0) {
+    return undefined;
+  }
+  if (filters.length === 1) {
+    return filters[0];
+  }
+  return { kind: 'compound', type: 'require-any', typeRange: rule.range, filters, range: rule.range };
+}
+
+/**
+ * Expands a reference to a `define`d filter. Returns the filter unchanged when
+ * it is not a reference, and `undefined` when the reference cannot be resolved.
+ */
+export function resolveFilter(filter: Filter, definitions: DefinitionTable, depth = 0): Filter | undefined {
+  if (filter.kind !== 'expression') {
+    return filter;
+  }
+  if (depth > MAX_DEFINE_DEPTH || filter.expr.kind !== 'symbol') {
+    return undefined;
+  }
+  const definition = definitions.get(filter.expr.name);
+  if (!definition || definition.isFunction) {
+    return undefined;
+  }
+  const value = exprAsFilter(definition.value);
+  return value ? resolveFilter(value, definitions, depth + 1) : undefined;
+}
+
+/** Expands a call to a function `define`, such as `(home-dir "/Library")`. */
+export function expandCall(filter: SimpleFilter, definitions: DefinitionTable): Filter | undefined {
+  const definition = definitions.get(filter.type);
+  if (!definition?.isFunction) {
+    return undefined;
+  }
+  const bindings = new Map(definition.parameters.map((name, i) => [name, filter.args[i]]));
+  return exprAsFilter(substitute(definition.value, bindings));
+}
+
+function substitute(expr: Expr, bindings: Map<string, Expr | undefined>): Expr {
+  if (expr.kind === 'symbol') {
+    return bindings.get(expr.name) ?? expr;
+  }
+  if (expr.kind === 'list') {
+    return { ...expr, elements: expr.elements.map((element) => substitute(element, bindings)) };
+  }
+  return expr;
+}
+
+/**
+ * Replaces references to definitions and calls to function definitions by
+ * their values, throughout the filter.
+ */
+export function expandFilter(filter: Filter, definitions: DefinitionTable, depth = 0): Filter {
+  if (depth > MAX_DEFINE_DEPTH) {
+    return filter;
+  }
+  switch (filter.kind) {
+    case 'expression': {
+      const resolved = resolveFilter(filter, definitions);
+      return resolved ? expandFilter(resolved, definitions, depth + 1) : filter;
+    }
+    case 'compound':
+      return { ...filter, filters: filter.filters.map((child) => expandFilter(child, definitions, depth + 1)) };
+    case 'not':
+      return { ...filter, filter: expandFilter(filter.filter, definitions, depth + 1) };
+    case 'simple': {
+      const expanded = expandCall(filter, definitions);
+      return expanded ? expandFilter(expanded, definitions, depth + 1) : filter;
+    }
+  }
+}
+
+/**
+ * Whether filter `a` matches every access that filter `b` matches. An
+ * `undefined` filter matches everything.
+ */
+export function filterCovers(
+  a: Filter | undefined,
+  b: Filter | undefined,
+  definitions: DefinitionTable,
+  depth = 0
+): boolean {
+  if (a === undefined) {
+    return true;
+  }
+  if (b === undefined || depth > MAX_DEFINE_DEPTH) {
+    return false;
+  }
+
+  const left = resolveFilter(a, definitions);
+  const right = resolveFilter(b, definitions);
+  if (!left || !right) {
+    // Unresolvable references are only known to cover themselves
+    return a.kind === 'expression' && b.kind === 'expression' && exprToString(a.expr) === exprToString(b.expr);
+  }
+
+  const next = depth + 1;
+
+  if (right.kind === 'compound' && right.type === 'require-any') {
+    return right.filters.every((f) => filterCovers(left, f, definitions, next));
+  }
+  if (left.kind === 'compound' && left.type === 'require-all') {
+    return left.filters.every((f) => filterCovers(f, right, definitions, next));
+  }
+  if (left.kind === 'compound') {
+    return left.filters.some((f) => filterCovers(f, right, definitions, next));
+  }
+  if (right.kind === 'compound') {
+    return right.filters.some((f) => filterCovers(left, f, definitions, next));
+  }
+
+  if (left.kind === 'not') {
+    return right.kind === 'not'
+      ? filterCovers(right.filter, left.filter, definitions, next)
+      : filtersDisjoint(left.filter, right, definitions, next);
+  }
+  if (right.kind === 'not' || left.kind !== 'simple' || right.kind !== 'simple') {
+    return false;
+  }
+
+  return simpleCovers(left, right);
+}
+
+/** Whether no access can match both filters. */
+export function filtersDisjoint(
+  a: Filter,
+  b: Filter,
+  definitions: DefinitionTable,
+  depth = 0
+): boolean {
+  const left = resolveFilter(a, definitions);
+  const right = resolveFilter(b, definitions);
+  if (!left || !right || depth > MAX_DEFINE_DEPTH) {
+    return false;
+  }
+
+  const next = depth + 1;
+
+  if (left.kind === 'compound') {
+    return left.type === 'require-any'
+      ? left.filters.every((f) => filtersDisjoint(f, right, definitions, next))
+      : left.filters.some((f) => filtersDisjoint(f, right, definitions, next));
+  }
+  if (right.kind === 'compound') {
+    return filtersDisjoint(right, left, definitions, next);
+  }
+  if (left.kind === 'not') {
+    return filterCovers(left.filter, right, definitions, next);
+  }
+  if (right.kind === 'not') {
+    return filterCovers(right.filter, left, definitions, next);
+  }
+  if (left.kind !== 'simple' || right.kind !== 'simple') {
+    return false;
+  }
+
+  return simpleDisjoint(left, right);
+}
+
+type SimpleFilter = Extract<Filter, { kind: 'simple' }>;
+
+/** Parses a path filter such as `(subpath "/usr")` or `(home-literal "/.zshrc")`. */
+export function pathSpec(filter: SimpleFilter): PathSpec | undefined {
+  const match = /^(home-)?(literal|subpath|prefix|regex)$/.exec(filter.type);
+  if (!match || (filter.value.kind !== 'string' && filter.value.kind !== 'rawString')) {
+    return undefined;
+  }
+  return { base: match[1] ? 'home' : 'root', kind: match[2] as PathKind, value: filter.value.value };
+}
+
+/** Whether `path` is `dir` or inside it. */
+export function isUnderSubpath(path: string, dir: string): boolean {
+  const normalized = dir.length > 1 && dir.endsWith('/') ? dir.slice(0, -1) : dir;
+  if (normalized === '/') {
+    return path.startsWith('/');
+  }
+  return path === normalized || path.startsWith(normalized + '/');
+}
+
+function simpleCovers(a: SimpleFilter, b: SimpleFilter): boolean {
+  const pa = pathSpec(a);
+  const pb = pathSpec(b);
+  if (pa && pb) {
+    return pathCovers(pa, pb);
+  }
+  return a.type === b.type && sameArguments(a, b);
+}
+
+function simpleDisjoint(a: SimpleFilter, b: SimpleFilter): boolean {
+  const pa = pathSpec(a);
+  const pb = pathSpec(b);
+  if (pa && pb) {
+    return pathDisjoint(pa, pb);
+  }
+  return a.type === b.type && EXACT_FILTERS.has(a.type) && !sameArguments(a, b);
+}
+
+function sameArguments(a: SimpleFilter, b: SimpleFilter): boolean {
+  return a.args.length === b.args.length
+    && a.args.every((arg, i) => exprToString(arg) === exprToString(b.args[i]));
+}
+
+function pathCovers(a: PathSpec, b: PathSpec): boolean {
+  if (a.base !== b.base) {
+    return false;
+  }
+  switch (a.kind) {
+    case 'literal':
+      return b.kind === 'literal' && a.value === b.value;
+    case 'subpath':
+      return (b.kind === 'literal' || b.kind === 'subpath') && isUnderSubpath(b.value, a.value);
+    case 'prefix':
+      return b.kind !== 'regex' && b.value.startsWith(a.value);
+    case 'regex':
+      if (b.kind === 'regex') {
+        return a.value === b.value;
+      }
+      return b.kind === 'literal' && regexMatches(a.value, b.value) === true;
+  }
+}
+
+function pathDisjoint(a: PathSpec, b: PathSpec): boolean {
+  if (a.base !== b.base) {
+    return false;
+  }
+  if (a.kind === 'regex' || b.kind === 'regex') {
+    const [regex, other] = a.kind === 'regex' ? [a, b] : [b, a];
+    return other.kind === 'literal' && regexMatches(regex.value, other.value) === false;
+  }
+  if (a.kind === 'literal' && b.kind === 'literal') {
+    return a.value !== b.value;
+  }
+  return !mayContain(a, b) && !mayContain(b, a);
+}
+
+/** Whether some path matched by `b` could also be matched by `a`, ignoring `a`'s own coverage. */
+function mayContain(a: PathSpec, b: PathSpec): boolean {
+  switch (a.kind) {
+    case 'literal':
+      return false;
+    case 'subpath':
+      return isUnderSubpath(b.value, a.value);
+    default:
+      return b.value.startsWith(a.value);
+  }
+}
+
+/** Whether a `regex` filter pattern matches a value; `undefined` when the pattern is invalid. */
+export function regexMatches(pattern: string, value: string): boolean | undefined {
+  try {
+    return new RegExp(pattern).test(value);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,208 @@
+import type { Rule } from './ast.js';
+import { FILTERS, OPERATIONS } from './catalog.js';
+import { DiagnosticCode, type CodeFix, type Diagnostic, type TextEdit } from './diagnostics.js';
+import { closestMatch } from './fuzzy.js';
+import type { ParseResult } from './parser.js';
+import { SUPPORTED_VERSION } from './semantic.js';
+import type { SourceRange } from './source.js';
+
+const OPERATION_NAMES = OPERATIONS.map((op) => op.label);
+const FILTER_NAMES = FILTERS.map((filter) => filter.label);
+
+/**
+ * Computes the code fixes available for a built-in diagnostic.
+ *
+ * Fixes are derived from the parse the diagnostic came from, so callers must
+ * pass the same `ParseResult` that produced the diagnostic.
+ */
+export function computeFixes(diagnostic: Diagnostic, parse: ParseResult): CodeFix[] {
+  if (diagnostic.rule) {
+    return [suppressRule(diagnostic.rule, diagnostic.range, parse)];
+  }
+  switch (diagnostic.code) {
+    case DiagnosticCode.UnknownOperation:
+      return replaceUnknownOperation(diagnostic.range, parse);
+    case DiagnosticCode.InvalidFilterType:
+      return replaceWithClosest(diagnostic.range, parse, FILTER_NAMES);
+    case DiagnosticCode.ExpectedCloseParen:
+      return insertCloseParens(diagnostic.range, parse);
+    case DiagnosticCode.RedundantRule:
+      return removeRedundantOperation(diagnostic.range, parse);
+    case DiagnosticCode.StyleIssue:
+      return diagnostic.message.startsWith('Missing (version') ? insertVersion(parse) : [];
+    case DiagnosticCode.UnusedDefinition:
+      return removeUnusedDefinition(diagnostic.range, parse);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Combines the preferred fixes of every diagnostic into one list of edits,
+ * dropping any edit that overlaps one already taken. Removing an unused
+ * definition is not preferred: library profiles define names for the
+ * profiles that import them.
+ */
+export function collectFixAllEdits(diagnostics: Diagnostic[], parse: ParseResult): TextEdit[] {
+  const edits: TextEdit[] = [];
+  for (const diagnostic of diagnostics) {
+    const fix = computeFixes(diagnostic, parse).find((candidate) => candidate.isPreferred);
+    if (!fix || fix.edits.some((edit) => edits.some((taken) => editsOverlap(edit, taken)))) {
+      continue;
+    }
+    edits.push(...fix.edits);
+  }
+  return edits;
+}
+
+function replaceWithClosest(range: SourceRange, parse: ParseResult, candidates: string[]): CodeFix[] {
+  const name = parse.source.slice(range);
+  const match = closestMatch(name, candidates);
+  if (!match) {
+    return [];
+  }
+  return [{ title: `Change to '${match}'`, edits: [{ range, newText: match }], isPreferred: true }];
+}
+
+/**
+ * Replaces an unknown operation with the closest match, or removes it when
+ * the rule already lists the match, counting the matches of its other
+ * unknown operations, so fixing every operation leaves no duplicates.
+ */
+function replaceUnknownOperation(range: SourceRange, parse: ParseResult): CodeFix[] {
+  const rule = parse.profile.rules.find((candidate) =>
+    candidate.operations.some((op) => op.range.start.offset === range.start.offset));
+  const match = closestMatch(parse.source.slice(range), OPERATION_NAMES);
+  if (!rule || !match) {
+    return replaceWithClosest(range, parse, OPERATION_NAMES);
+  }
+
+  const defined = new Set(parse.profile.definitions.map((definition) => definition.name));
+  const corrected = (name: string): string | undefined =>
+    OPERATION_NAMES.includes(name) || defined.has(name) ? name : closestMatch(name, OPERATION_NAMES);
+  const kept = rule.operations.find((op) => op.name === match)
+    ?? rule.operations.find((op) => corrected(op.name) === match);
+  if (!kept || kept.range.start.offset === range.start.offset) {
+    return replaceWithClosest(range, parse, OPERATION_NAMES);
+  }
+  return removeOperation(rule, range, `Remove '${parse.source.slice(range)}', already listed as '${match}'`);
+}
+
+function insertCloseParens(range: SourceRange, parse: ParseResult): CodeFix[] {
+  const index = parse.tokens.findIndex((token) => token.range.start.offset >= range.start.offset);
+  const previous = parse.tokens[index - 1];
+  if (!previous) {
+    return [];
+  }
+
+  // At end of file every form still open needs closing
+  let count = 1;
+  if (parse.tokens[index].kind.type === 'eof') {
+    let depth = 0;
+    for (const token of parse.tokens) {
+      if (token.kind.type === 'leftParen') {
+        depth += 1;
+      } else if (token.kind.type === 'rightParen') {
+        depth = Math.max(0, depth - 1);
+      }
+    }
+    count = Math.max(1, depth);
+  }
+
+  const position = previous.range.end;
+  return [{
+    title: count === 1 ? "Insert missing ')'" : `Insert ${count} missing ')'`,
+    edits: [{ range: { start: position, end: position }, newText: ')'.repeat(count) }],
+    isPreferred: true,
+  }];
+}
+
+function removeRedundantOperation(range: SourceRange, parse: ParseResult): CodeFix[] {
+  for (const rule of parse.profile.rules) {
+    const op = rule.operations.find((candidate) => candidate.range.start.offset === range.start.offset
+      && candidate.range.end.offset === range.end.offset);
+    if (op) {
+      return removeOperation(rule, range, `Remove redundant '${op.name}'`);
+    }
+  }
+  return [];
+}
+
+/** Removes the operation at the range together with the whitespace that separates it from its neighbor. */
+function removeOperation(rule: Rule, range: SourceRange, title: string): CodeFix[] {
+  const index = rule.operations.findIndex((op) => op.range.start.offset === range.start.offset);
+  if (index < 0 || rule.operations.length < 2) {
+    return [];
+  }
+  const op = rule.operations[index];
+  const deletion = index > 0
+    ? { start: rule.operations[index - 1].range.end, end: op.range.end }
+    : { start: op.range.start, end: rule.operations[1].range.start };
+  return [{ title, edits: [{ range: deletion, newText: '' }], isPreferred: true }];
+}
+
+function insertVersion(parse: ParseResult): CodeFix[] {
+  const position = parse.profile.range.start;
+  return [{
+    title: `Add (version ${SUPPORTED_VERSION})`,
+    edits: [{ range: { start: position, end: position }, newText: `(version ${SUPPORTED_VERSION})\n` }],
+    isPreferred: true,
+  }];
+}
+
+function removeUnusedDefinition(range: SourceRange, parse: ParseResult): CodeFix[] {
+  const definition = parse.profile.definitions.find((def) => def.nameRange.start.offset === range.start.offset);
+  if (!definition) {
+    return [];
+  }
+  return [{
+    title: `Remove unused definition '${definition.name}'`,
+    edits: [{ range: wholeLines(definition.range, parse), newText: '' }],
+    isPreferred: false,
+  }];
+}
+
+/** Inserts a `; sbpl-disable-next-line` comment above the line, at its indentation. */
+function suppressRule(rule: string, range: SourceRange, parse: ParseResult): CodeFix {
+  const lineStart = parse.source.offsetAt(range.start.line, 0);
+  const indentation = /^[ \t]*/.exec(parse.source.text.slice(lineStart))?.[0] ?? '';
+  const position = parse.source.positionAt(lineStart);
+  return {
+    title: `Disable '${rule}' for this line`,
+    edits: [{ range: { start: position, end: position }, newText: `${indentation}; sbpl-disable-next-line ${rule}\n` }],
+    isPreferred: false,
+  };
+}
+
+/** Extends a range to whole lines when nothing else shares those lines. */
+function wholeLines(range: SourceRange, parse: ParseResult): SourceRange {
+  const { source } = parse;
+  const text = source.text;
+  const lineStart = source.offsetAt(range.start.line, 0);
+  let lineEnd = range.end.offset;
+  while (lineEnd < text.length && (text[lineEnd] === ' ' || text[lineEnd] === '\t')) {
+    lineEnd += 1;
+  }
+
+  const before = text.slice(lineStart, range.start.offset);
+  const atLineEnd = lineEnd === text.length || text[lineEnd] === '\n' || text[lineEnd] === '\r';
+  if (before.trim() !== '' || !atLineEnd) {
+    return range;
+  }
+
+  if (text[lineEnd] === '\r') {
+    lineEnd += 1;
+  }
+  if (text[lineEnd] === '\n') {
+    lineEnd += 1;
+  }
+  return source.rangeAt(lineStart, lineEnd);
+}
+
+function editsOverlap(a: TextEdit, b: TextEdit): boolean {
+  const isInsertion = (edit: TextEdit): boolean => edit.range.start.offset === edit.range.end.offset;
+  if (isInsertion(a) && isInsertion(b)) {
+    return a.range.start.offset === b.range.start.offset;
+  }
+  return a.range.start.offset < b.range.end.offset && b.range.start.offset < a.range.end.offset;
+}
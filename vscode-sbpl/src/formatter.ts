@@ -0,0 +1,403 @@
+import type { Token, TriviaPiece } from './lexer.js';
+import { parse } from './parser.js';
+import type { SourceRange, SourceText } from './source.js';
+
+/**
+ * SBPL formatter.
+ *
+ * Works on the token stream rather than the AST so that comments, which live
+ * in token trivia, are kept in place. Lists print on one line when they fit;
+ * otherwise their children go one per line, indented from the open paren.
+ * Rules always put each filter on its own line.
+ */
+
+export interface FormatOptions {
+  indentWidth: number;
+  maxLineLength: number;
+  /** Sort the operations of each rule alphabetically. */
+  sortOperations: boolean;
+}
+
+export const DEFAULT_FORMAT_OPTIONS: FormatOptions = {
+  indentWidth: 2,
+  maxLineLength: 80,
+  sortOperations: false,
+};
+
+/** A replacement of the original text. */
+export interface FormatEdit {
+  range: SourceRange;
+  newText: string;
+}
+
+type Node =
+  | { kind: 'atom'; token: Token }
+  | { kind: 'list'; open: Token; children: Node[]; close: Token };
+
+type ListNode = Extract<Node, { kind: 'list' }>;
+
+const ACTIONS = new Set(['allow', 'deny']);
+const COMPOUND_FILTERS = new Set(['require-all', 'require-any']);
+
+/**
+ * Formats a whole profile.
+ *
+ * @returns The formatted text, or `undefined` when the profile has syntax
+ * errors and cannot be formatted safely.
+ */
+export function formatText(text: string, options: Partial<FormatOptions> = {}): string | undefined {
+  const tree = buildTree(text);
+  if (!tree) {
+    return undefined;
+  }
+
+  const printer = new Printer(tree.source, { ...DEFAULT_FORMAT_OPTIONS, ...options }, tree.lineStarts);
+  for (const node of tree.nodes) {
+    printer.breakLine(0);
+    printer.printNode(node, 0, true);
+  }
+  printer.printComments(tree.eof, 0, true);
+  return printer.finish();
+}
+
+/**
+ * Formats the top-level forms that intersect a range. Comments around the
+ * forms are left untouched.
+ *
+ * @returns One edit per form, or `undefined` when the profile has syntax
+ * errors.
+ */
+export function formatRange(
+  text: string,
+  range: { start: number; end: number },
+  options: Partial<FormatOptions> = {}
+): FormatEdit[] | undefined {
+  const tree = buildTree(text);
+  if (!tree) {
+    return undefined;
+  }
+
+  const resolved = { ...DEFAULT_FORMAT_OPTIONS, ...options };
+  const edits: FormatEdit[] = [];
+
+  for (const node of tree.nodes) {
+    if (node.kind !== 'list') {
+      continue;
+    }
+    const start = node.open.range.start;
+    const end = node.close.range.end;
+    if (end.offset < range.start || start.offset > range.end) {
+      continue;
+    }
+
+    // Only the form itself is replaced, so leave its surrounding trivia out
+    const bare: Node = {
+      ...node,
+      open: { ...node.open, leadingTrivia: [] },
+      close: { ...node.close, trailingTrivia: [] },
+    };
+    const printer = new Printer(tree.source, resolved, tree.lineStarts);
+    printer.breakLine(start.column);
+    printer.printNode(bare, start.column, false);
+    const newText = printer.finish().trimEnd().replace(/^ +/, '');
+    if (newText !== tree.source.slice({ start, end })) {
+      edits.push({ range: { start, end }, newText });
+    }
+  }
+
+  return edits;
+}
+
+interface Tree {
+  source: SourceText;
+  nodes: Node[];
+  eof: Token;
+  lineStarts: Set<Token>;
+}
+
+function buildTree(text: string): Tree | undefined {
+  const result = parse(text);
+  const hasSyntaxErrors = result.diagnostics.some((d) => d.severity === 'error');
+  if (hasSyntaxErrors) {
+    return undefined;
+  }
+
+  const stack: { open: Token; children: Node[] }[] = [];
+  const nodes: Node[] = [];
+  const lineStarts = new Set<Token>();
+  let eof: Token | undefined;
+
+  result.tokens.forEach((token, i) => {
+    const previous = result.tokens[i - 1];
+    if (!previous || previous.trailingTrivia.some((piece) => piece.kind === 'newline')) {
+      lineStarts.add(token);
+    }
+  });
+
+  for (const token of result.tokens) {
+    const siblings = stack.length > 0 ? stack[stack.length - 1].children : nodes;
+    switch (token.kind.type) {
+      case 'leftParen':
+        stack.push({ open: token, children: [] });
+        break;
+      case 'rightParen': {
+        const list = stack.pop();
+        if (!list) {
+          return undefined;
+        }
+        const parent = stack.length > 0 ? stack[stack.length - 1].children : nodes;
+        parent.push({ kind: 'list', open: list.open, children: list.children, close: token });
+        break;
+      }
+      case 'eof':
+        eof = token;
+        break;
+      case 'unknown':
+        return undefined;
+      default:
+        siblings.push({ kind: 'atom', token });
+    }
+  }
+
+  if (stack.length > 0 || !eof) {
+    return undefined;
+  }
+  return { source: result.source, nodes, eof, lineStarts };
+}
+
+function firstToken(node: Node): Token {
+  return node.kind === 'atom' ? node.token : node.open;
+}
+
+function tokensOf(node: Node, into: Token[] = []): Token[] {
+  if (node.kind === 'atom') {
+    into.push(node.token);
+  } else {
+    into.push(node.open);
+    node.children.forEach((child) => tokensOf(child, into));
+    into.push(node.close);
+  }
+  return into;
+}
+
+function isComment(piece: TriviaPiece): boolean {
+  return piece.kind === 'lineComment' || piece.kind === 'blockComment';
+}
+
+function hasComments(tokens: Token[]): boolean {
+  return tokens.some((token) => token.leadingTrivia.some(isComment) || token.trailingTrivia.some(isComment));
+}
+
+/** Whether a comment sits anywhere inside the node, excluding its outer trivia. */
+function hasInnerComments(node: Node): boolean {
+  const tokens = tokensOf(node);
+  return tokens.some((token, i) =>
+    (i > 0 && token.leadingTrivia.some(isComment))
+    || (i < tokens.length - 1 && token.trailingTrivia.some(isComment))
+  );
+}
+
+function headName(node: ListNode): string | undefined {
+  const head = node.children[0];
+  return head?.kind === 'atom' && head.token.kind.type === 'symbol' ? head.token.kind.value : undefined;
+}
+
+class Printer {
+  private readonly lines: string[] = [];
+  private line = '';
+  /** Set after a line comment: the next token must start a new line. */
+  private needsBreak = false;
+
+  constructor(
+    private readonly source: SourceText,
+    private readonly options: FormatOptions,
+    /** Tokens that begin a line in the original text. */
+    private readonly lineStarts: Set<Token>
+  ) {}
+
+  finish(): string {
+    this.breakLine(0);
+    while (this.lines.length > 0 && this.lines[this.lines.length - 1] === '') {
+      this.lines.pop();
+    }
+    return this.lines.length > 0 ? this.lines.join('\n') + '\n' : '';
+  }
+
+  /**
+   * Ends the current line, if it has content, and starts one at `indent`.
+   * With `blank`, also keeps one blank line from the source.
+   */
+  breakLine(indent: number, blank = false): void {
+    if (this.line.trim() !== '') {
+      this.lines.push(this.line.trimEnd());
+    }
+    if (blank && this.lines.length > 0 && this.lines[this.lines.length - 1] !== '') {
+      this.lines.push('');
+    }
+    this.line = ' '.repeat(indent);
+    this.needsBreak = false;
+  }
+
+  /**
+   * Prints the comments before a token, each where it was: on its own line or
+   * inline before the token. `atLineStart` tells whether the token itself
+   * starts a line, in which case a blank line above it is kept.
+   */
+  printComments(token: Token, indent: number, atLineStart: boolean): void {
+    let newlines = this.lineStarts.has(token) ? 1 : 0;
+    let sawComment = false;
+
+    for (const piece of token.leadingTrivia) {
+      if (piece.kind === 'newline') {
+        newlines += 1;
+      } else if (isComment(piece)) {
+        if (newlines > 0) {
+          this.breakLine(indent, newlines > 1);
+        }
+        this.write(piece.text, indent);
+        this.needsBreak ||= piece.kind === 'lineComment';
+        sawComment = true;
+        newlines = 0;
+      }
+    }
+
+    if (sawComment) {
+      if (this.needsBreak || newlines > 0) {
+        this.breakLine(indent, newlines > 1);
+      }
+    } else if (atLineStart && newlines > 1) {
+      this.breakLine(indent, true);
+    }
+  }
+
+  printNode(node: Node, indent: number, atLineStart: boolean): void {
+    if (node.kind === 'atom') {
+      this.printComments(node.token, indent, atLineStart);
+      this.write(this.source.slice(node.token.range), indent);
+      this.printTrailing(node.token, indent);
+      return;
+    }
+
+    this.printComments(node.open, indent, atLineStart);
+    if (this.needsBreak) {
+      this.breakLine(indent);
+    }
+
+    const children = this.orderedChildren(node);
+    const flat = this.flatText({ ...node, children });
+    if (this.nextColumn() + flat.length <= this.options.maxLineLength
+      && !hasInnerComments(node)
+      && !this.mustBreak(node)) {
+      this.write(flat, indent);
+      this.printTrailing(node.close, indent);
+      return;
+    }
+
+    this.write('(', indent);
+    this.printTrailing(node.open, indent);
+    const column = this.line.lastIndexOf('(');
+    const childIndent = column + this.options.indentWidth;
+    const inline = this.inlineChildCount(node, children);
+
+    children.forEach((child, i) => {
+      const wraps = i >= inline || (i > 0 && this.nextColumn() + this.flatText(child).length > this.options.maxLineLength);
+      if (wraps) {
+        this.breakLine(childIndent);
+      }
+      this.printNode(child, childIndent, wraps);
+    });
+
+    this.printComments(node.close, childIndent, false);
+    if (this.needsBreak) {
+      this.breakLine(column);
+    }
+    this.line += ')';
+    this.printTrailing(node.close, indent);
+  }
+
+  private write(text: string, indent: number): void {
+    if (this.needsBreak) {
+      this.breakLine(indent);
+    }
+    if (this.needsSpace()) {
+      this.line += ' ';
+    }
+    this.line += text;
+  }
+
+  private needsSpace(): boolean {
+    return this.line.trim() !== '' && !this.line.endsWith(' ') && !this.line.endsWith('(');
+  }
+
+  /** The column the next written text would start at. */
+  private nextColumn(): number {
+    return this.line.length + (this.needsSpace() ? 1 : 0);
+  }
+
+  private printTrailing(token: Token, indent: number): void {
+    for (const piece of token.trailingTrivia) {
+      if (isComment(piece)) {
+        this.write(piece.text, indent);
+        this.needsBreak ||= piece.kind === 'lineComment';
+      }
+    }
+  }
+
+  /**
+   * How many leading children stay on the line of the open paren when the
+   * list is broken: a rule keeps its action and operations, `define` its
+   * name, compound filters only their keyword, and other forms their first
+   * argument.
+   */
+  private inlineChildCount(node: ListNode, children: Node[]): number {
+    const head = headName(node);
+    if (head !== undefined && ACTIONS.has(head)) {
+      const firstFilter = children.findIndex((child) => child.kind === 'list');
+      return firstFilter < 0 ? children.length : firstFilter;
+    }
+    if (head === undefined || COMPOUND_FILTERS.has(head)) {
+      return 1;
+    }
+    return 2;
+  }
+
+  /**
+   * Rules put each filter on its own line, and compound filters each child,
+   * however short; lists containing them break too.
+   */
+  private mustBreak(node: ListNode): boolean {
+    const head = headName(node);
+    const lists = node.children.filter((child): child is ListNode => child.kind === 'list');
+    if (head !== undefined && ACTIONS.has(head) && lists.length > 0) {
+      return true;
+    }
+    if (head !== undefined && COMPOUND_FILTERS.has(head) && node.children.length > 2) {
+      return true;
+    }
+    return lists.some((child) => this.mustBreak(child));
+  }
+
+  /** Rule children with operations sorted, when enabled. */
+  private orderedChildren(node: ListNode): Node[] {
+    const head = headName(node);
+    if (!this.options.sortOperations || head === undefined || !ACTIONS.has(head)) {
+      return node.children;
+    }
+    const firstFilter = node.children.findIndex((child) => child.kind === 'list');
+    const end = firstFilter < 0 ? node.children.length : firstFilter;
+    const operations = node.children.slice(1, end);
+    if (operations.some((op) => hasComments(tokensOf(op)))) {
+      return node.children;
+    }
+    const name = (op: Node): string => this.source.slice(firstToken(op).range);
+    const sorted = [...operations].sort((a, b) => (name(a) < name(b) ? -1 : name(a) > name(b) ? 1 : 0));
+    return [node.children[0], ...sorted, ...node.children.slice(end)];
+  }
+
+  private flatText(node: Node): string {
+    if (node.kind === 'atom') {
+      return this.source.slice(node.token.range);
+    }
+    return '(' + node.children.map((child) => this.flatText(child)).join(' ') + ')';
+  }
+}
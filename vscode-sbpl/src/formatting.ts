@@ -0,0 +1,36 @@
+import * as vscode from 'vscode';
+import { toRange } from './convert.js';
+import { DEFAULT_FORMAT_OPTIONS, formatRange, formatText, type FormatOptions } from './formatter.js';
+
+/** Formats whole documents and selections using the `sbpl.format.*` settings. */
+export class SBPLFormattingProvider
+  implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider {
+  provideDocumentFormattingEdits(document: vscode.TextDocument): vscode.TextEdit[] {
+    const text = document.getText();
+    const formatted = formatText(text, getFormatOptions(document.uri));
+    if (formatted === undefined || formatted === text) {
+      return [];
+    }
+    const end = document.positionAt(text.length);
+    return [vscode.TextEdit.replace(new vscode.Range(new vscode.Position(0, 0), end), formatted)];
+  }
+
+  provideDocumentRangeFormattingEdits(document: vscode.TextDocument, range: vscode.Range): vscode.TextEdit[] {
+    const edits = formatRange(
+      document.getText(),
+      { start: document.offsetAt(range.start), end: document.offsetAt(range.end) },
+      getFormatOptions(document.uri)
+    );
+    return (edits ?? []).map((edit) => vscode.TextEdit.replace(toRange(edit.range), edit.newText));
+  }
+}
+
+/** Formatter options from the `sbpl.format.*` settings. */
+export function getFormatOptions(uri: vscode.Uri): FormatOptions {
+  const config = vscode.workspace.getConfiguration('sbpl.format', uri);
+  return {
+    indentWidth: config.get<number>('indentWidth', DEFAULT_FORMAT_OPTIONS.indentWidth),
+    maxLineLength: config.get<number>('maxLineLength', DEFAULT_FORMAT_OPTIONS.maxLineLength),
+    sortOperations: config.get<boolean>('sortOperations', DEFAULT_FORMAT_OPTIONS.sortOperations),
+  };
+}
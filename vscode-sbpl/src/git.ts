@@ -0,0 +1,19 @@
+import { execFile } from 'node:child_process';
+import { basename, dirname } from 'node:path';
+
+/**
+ * Reads a file as committed at `HEAD`.
+ *
+ * @returns The contents, or `undefined` if the file is not in a git
+ * repository, not committed, or git is not installed.
+ */
+export function readHeadVersion(filePath: string): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    execFile(
+      'git',
+      ['show', `HEAD:./${basename(filePath)}`],
+      { cwd: dirname(filePath), encoding: 'utf8', maxBuffer: 16 * 1024 * 1024 },
+      (error, stdout) => resolve(error ? undefined : stdout)
+    );
+  });
+}
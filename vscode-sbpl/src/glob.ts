@@ -0,0 +1,82 @@
+/**
+ * Glob patterns as used by `files.exclude` and `sbpl.exclude`.
+ *
+ * `*` and `?` match within a path segment, `**` matches any number of
+ * segments, and `{a,b}` matches either alternative; a brace without its
+ * pair matches itself. Patterns match paths relative to a workspace folder,
+ * with `/` as the separator.
+ */
+
+const cache = new Map<string, RegExp>();
+
+/** Converts a glob pattern to an anchored regular expression. */
+export function globToRegExp(pattern: string): RegExp {
+  const cached = cache.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  const paired = pairedBraces(pattern);
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` may match no segment at all; a trailing `**` matches the rest
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && paired.has(i)) {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && paired.has(i)) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`);
+  cache.set(pattern, regex);
+  return regex;
+}
+
+/** The offsets of the braces in a pattern that open or close an alternation. */
+function pairedBraces(pattern: string): Set<number> {
+  const paired = new Set<number>();
+  const open: number[] = [];
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i] === '{') {
+      open.push(i);
+    } else if (pattern[i] === '}') {
+      const start = open.pop();
+      if (start !== undefined) {
+        paired.add(start).add(i);
+      }
+    }
+  }
+  return paired;
+}
+
+/**
+ * Whether a relative path matches one of the patterns. A path also matches
+ * when one of its parent directories does, so a pattern matching a
+ * `node_modules` directory excludes everything inside it.
+ */
+export function matchesGlob(relativePath: string, patterns: string[]): boolean {
+  const segments = relativePath.split('/');
+  return patterns.some((pattern) => {
+    const regex = globToRegExp(pattern);
+    return segments.some((_, index) => {
+      const prefix = segments.slice(0, index + 1).join('/');
+      return regex.test(prefix) || (index < segments.length - 1 && regex.test(prefix + '/'));
+    });
+  });
+}
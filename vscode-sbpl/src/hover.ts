@@ -0,0 +1,103 @@
+import { defineToString } from './ast.js';
+import { BOOLEANS, DECLARATIONS, FILTERS, OPERATIONS, type CompletionData } from './catalog.js';
+import type { ImportedDefinition } from './imports.js';
+import { expandOperation, isWildcardOperation } from './operations.js';
+import type { ParseResult } from './parser.js';
+import { rangeTouches, type SourceRange } from './source.js';
+
+/**
+ * Hover documentation.
+ *
+ * Symbols naming a `define` show its value; other symbols are looked up in the
+ * catalogs, preferring operations in operation position and filters elsewhere.
+ */
+
+export interface HoverInfo {
+  /** Markdown content. */
+  contents: string;
+  range: SourceRange;
+}
+
+const byLabel = (entries: CompletionData[]): Map<string, CompletionData> =>
+  new Map(entries.map((entry) => [entry.label, entry]));
+
+const OPERATION_DOCS = byLabel(OPERATIONS);
+const FILTER_DOCS = byLabel(FILTERS);
+const KEYWORD_DOCS = byLabel([...DECLARATIONS, ...BOOLEANS]);
+
+/** Hover information for the symbol at an offset, if any. */
+export function hoverAt(
+  result: ParseResult,
+  offset: number,
+  imported: ImportedDefinition[] = []
+): HoverInfo | undefined {
+  const token = result.tokens.find((candidate) =>
+    (candidate.kind.type === 'symbol' || candidate.kind.type === 'boolean') && rangeTouches(candidate.range, offset)
+  );
+  if (!token) {
+    return undefined;
+  }
+
+  const name = result.source.slice(token.range);
+  const { range } = token;
+
+  const local = result.profile.definitions.find((definition) => definition.name === name);
+  if (local) {
+    return { contents: defineHover(result.source.slice(local.range)), range };
+  }
+  const external = imported.find((entry) => entry.definition.name === name);
+  if (external) {
+    const fileName = external.filePath.split(/[\\/]/).pop();
+    return { contents: defineHover(defineToString(external.definition), `Imported from \`${fileName}\``), range };
+  }
+
+  const inOperationPosition = result.profile.rules.some((rule) =>
+    rule.operations.some((op) => op.range.start.offset === range.start.offset)
+  );
+  const entry = inOperationPosition
+    ? OPERATION_DOCS.get(name) ?? FILTER_DOCS.get(name)
+    : FILTER_DOCS.get(name) ?? KEYWORD_DOCS.get(name) ?? OPERATION_DOCS.get(name);
+  if (!entry) {
+    return undefined;
+  }
+
+  return { contents: catalogHover(entry, OPERATION_DOCS.get(name) === entry), range };
+}
+
+function defineHover(source: string, origin?: string): string {
+  const parts = ['```sbpl\n' + source + '\n```'];
+  if (origin) {
+    parts.push(origin);
+  }
+  return parts.join('\n\n');
+}
+
+function catalogHover(entry: CompletionData, isOperation: boolean): string {
+  const parts = [`**${entry.label}** — ${entry.detail}`, entry.doc];
+  if (entry.deprecated) {
+    parts.splice(1, 0, `*Deprecated:* ${entry.deprecated}`);
+  }
+
+  if (!entry.doc.includes('Example') && entry.snippet) {
+    parts.push('Example: `' + snippetText(entry.snippet).replace(/\n\s*/g, ' ') + '`');
+  }
+  if (entry.category) {
+    parts.push(`Category: \`${entry.category}\``);
+  }
+  if (isOperation && isWildcardOperation(entry.label)) {
+    const covered = expandOperation(entry.label);
+    if (covered.length > 0) {
+      parts.push(`Covers ${covered.length} operations:\n\n` + covered.map((op) => `- \`${op}\``).join('\n'));
+    }
+  }
+
+  return parts.join('\n\n');
+}
+
+/** Snippet text with its placeholders replaced by their defaults. */
+function snippetText(snippet: string): string {
+  return snippet
+    .replace(/\$\{\d+\|([^,|]*)[^}]*\}/g, '$1')
+    .replace(/\$\{\d+:([^}]*)\}/g, '$1')
+    .replace(/\$\d+/g, '');
+}
@@ -0,0 +1,39 @@
+import * as vscode from 'vscode';
+import {
+  DEFAULT_SEARCH_PATHS,
+  expandSearchPaths,
+  nodeImportHost,
+  type ImportHost,
+  type ImportOptions,
+} from './imports.js';
+
+/** Reads imported profiles from open editors first, so unsaved edits are seen. */
+const editorImportHost: ImportHost = {
+  readFile(filePath: string): string | undefined {
+    const open = vscode.workspace.textDocuments.find((doc) => doc.uri.scheme === 'file' && doc.uri.fsPath === filePath);
+    return open ? open.getText() : nodeImportHost.readFile(filePath);
+  },
+};
+
+/** The on-disk path of a document, if it has one. */
+export function documentFilePath(document: vscode.TextDocument): string | undefined {
+  return document.uri.scheme === 'file' ? document.uri.fsPath : undefined;
+}
+
+/**
+ * Import options for a document from the `sbpl.importSearchPaths` setting.
+ *
+ * `${workspaceFolder}` expands to the document's workspace folder, or to every
+ * workspace folder for documents outside one. Relative entries are resolved
+ * against the workspace folder.
+ */
+export function getImportOptions(uri: vscode.Uri): ImportOptions {
+  const config = vscode.workspace.getConfiguration('sbpl', uri);
+  const entries = config.get<string[]>('importSearchPaths', DEFAULT_SEARCH_PATHS);
+
+  const owner = vscode.workspace.getWorkspaceFolder(uri);
+  const folders = owner ? [owner] : vscode.workspace.workspaceFolders ?? [];
+  const roots = folders.map((folder) => folder.uri.fsPath);
+
+  return { searchPaths: expandSearchPaths(entries, roots), host: editorImportHost };
+}
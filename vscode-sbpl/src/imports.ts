@@ -0,0 +1,191 @@
+import { readFileSync, statSync } from 'node:fs';
+import { basename, dirname, isAbsolute, join, resolve } from 'node:path';
+import type { DefineDecl, ImportDecl, Profile } from './ast.js';
+import { createDiagnostic, DiagnosticCode, type Diagnostic } from './diagnostics.js';
+import { parse } from './parser.js';
+
+/**
+ * Import resolution.
+ *
+ * `(import "name.sb")` is looked up relative to the importing file, then in
+ * each search path in order. Absolute imports of system profiles such as
+ * `/System/Library/Sandbox/Profiles/bsd.sb` also fall back to the search paths
+ * by file name, so a vendored copy of that directory can stand in for it.
+ */
+
+/** File system access used to load imported profiles. */
+export interface ImportHost {
+  /** Returns the file contents, or `undefined` if it is not a readable file. */
+  readFile(path: string): string | undefined;
+}
+
+export interface ImportOptions {
+  /** Directories searched for imports, in order. */
+  searchPaths: string[];
+  host?: ImportHost;
+}
+
+/** An import declaration and the file it resolved to, if any. */
+export interface ResolvedImport {
+  decl: ImportDecl;
+  filePath?: string;
+}
+
+/** A definition made visible by an import. */
+export interface ImportedDefinition {
+  definition: DefineDecl;
+  filePath: string;
+}
+
+export interface ImportResolution {
+  imports: ResolvedImport[];
+  /** Definitions from every transitively imported file, in import order. */
+  definitions: ImportedDefinition[];
+  /** Every transitively imported file that could be read, by path. */
+  profiles: Map<string, Profile>;
+  diagnostics: Diagnostic[];
+}
+
+/** Placeholder in search path settings for the workspace folder. */
+export const WORKSPACE_FOLDER = '${workspaceFolder}';
+
+export const DEFAULT_SEARCH_PATHS = [WORKSPACE_FOLDER, '/System/Library/Sandbox/Profiles'];
+
+/** Reads files from disk. */
+export const nodeImportHost: ImportHost = {
+  readFile(path: string): string | undefined {
+    try {
+      return statSync(path).isFile() ? readFileSync(path, 'utf8') : undefined;
+    } catch {
+      return undefined;
+    }
+  },
+};
+
+/**
+ * Expands search path settings against workspace folders.
+ *
+ * `${workspaceFolder}` expands to each of the given folders, and relative
+ * entries are resolved against them.
+ */
+export function expandSearchPaths(entries: string[], roots: string[]): string[] {
+  const searchPaths: string[] = [];
+  for (const entry of entries) {
+    if (entry.includes(WORKSPACE_FOLDER)) {
+      searchPaths.push(...roots.map((root) => entry.split(WORKSPACE_FOLDER).join(root)));
+    } else if (isAbsolute(entry)) {
+      searchPaths.push(entry);
+    } else {
+      searchPaths.push(...roots.map((root) => resolve(root, entry)));
+    }
+  }
+  return searchPaths;
+}
+
+/**
+ * Resolves an import path to a file.
+ *
+ * @param fromFile The importing file, if it has a location on disk.
+ */
+export function resolveImportPath(
+  importPath: string,
+  fromFile: string | undefined,
+  options: ImportOptions
+): string | undefined {
+  const host = options.host ?? nodeImportHost;
+  const candidates: string[] = [];
+
+  if (isAbsolute(importPath)) {
+    candidates.push(importPath);
+    candidates.push(...options.searchPaths.map((dir) => join(dir, basename(importPath))));
+  } else {
+    if (fromFile) {
+      candidates.push(resolve(dirname(fromFile), importPath));
+    }
+    candidates.push(...options.searchPaths.map((dir) => resolve(dir, importPath)));
+  }
+
+  return candidates.find((candidate) => host.readFile(candidate) !== undefined);
+}
+
+/**
+ * Resolves the imports of a profile and collects the definitions they make
+ * visible. Reports imports that cannot be found (S009) and imports that lead
+ * back to a file already being imported (S008).
+ */
+export function resolveImports(
+  profile: Profile,
+  filePath: string | undefined,
+  options: ImportOptions
+): ImportResolution {
+  const host = options.host ?? nodeImportHost;
+  const profiles = new Map<string, Profile>();
+  const definitions: ImportedDefinition[] = [];
+  const diagnostics: Diagnostic[] = [];
+  const imports: ResolvedImport[] = [];
+  const visited = new Set<string>();
+
+  const load = (path: string): Profile | undefined => {
+    if (!profiles.has(path)) {
+      const text = host.readFile(path);
+      if (text === undefined) {
+        return undefined;
+      }
+      profiles.set(path, parse(text).profile);
+    }
+    return profiles.get(path);
+  };
+
+  /** Walks an imported file; returns the import chain of the first cycle found. */
+  const visit = (path: string, chain: string[]): string[] | undefined => {
+    if (chain.includes(path)) {
+      return [...chain.slice(chain.indexOf(path)), path];
+    }
+    if (visited.has(path)) {
+      return undefined;
+    }
+    visited.add(path);
+
+    const imported = load(path);
+    if (!imported) {
+      return undefined;
+    }
+
+    let cycle: string[] | undefined;
+    for (const decl of imported.imports) {
+      const target = resolveImportPath(decl.path, path, options);
+      if (target) {
+        cycle ??= visit(target, [...chain, path]);
+      }
+    }
+    definitions.push(...imported.definitions.map((definition) => ({ definition, filePath: path })));
+    return cycle;
+  };
+
+  const root = filePath ? resolve(filePath) : undefined;
+
+  for (const decl of profile.imports) {
+    const target = resolveImportPath(decl.path, root, options);
+    imports.push(target ? { decl, filePath: target } : { decl });
+
+    if (!target) {
+      diagnostics.push(createDiagnostic(
+        DiagnosticCode.ImportNotFound,
+        `Cannot find imported profile '${decl.path}'`,
+        decl.pathRange
+      ));
+      continue;
+    }
+
+    const cycle = visit(target, root ? [root] : []);
+    if (cycle) {
+      diagnostics.push(createDiagnostic(
+        DiagnosticCode.CircularImport,
+        `Circular import: ${cycle.map((path) => basename(path)).join(' -> ')}`,
+        decl.pathRange
+      ));
+    }
+  }
+
+  return { imports, definitions, profiles, diagnostics };
+}
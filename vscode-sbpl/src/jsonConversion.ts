@@ -0,0 +1,44 @@
+import * as vscode from 'vscode';
+import { getFormatOptions } from './formatting.js';
+import { parse } from './parser.js';
+import { jsonToSbpl, parseProfileJson, profileToJson } from './profileJson.js';
+
+/** Opens the JSON representation of an SBPL document beside it, as `<name>.sbpl.json`. */
+export async function convertToJSON(document: vscode.TextDocument): Promise<void> {
+  const json = JSON.stringify(profileToJson(parse(document.getText()).profile), null, 2) + '\n';
+  await openBeside(document, json, '.sbpl.json', 'json');
+}
+
+/** Converts a `ProfileJSON` document to SBPL and opens it beside it. */
+export async function convertJSONToSBPL(document: vscode.TextDocument): Promise<void> {
+  const { profile, errors } = parseProfileJson(document.getText());
+  if (!profile) {
+    const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : '';
+    vscode.window.showErrorMessage(`Cannot convert to SBPL: ${errors[0]}${more}`);
+    return;
+  }
+  await openBeside(document, jsonToSbpl(profile, getFormatOptions(document.uri)), '.sb', 'sbpl');
+}
+
+/**
+ * Opens converted content in an untitled editor. Files on disk propose a
+ * sibling file name with the new extension when saved.
+ */
+async function openBeside(source: vscode.TextDocument, content: string, extension: string, language: string): Promise<void> {
+  if (source.uri.scheme !== 'file') {
+    const document = await vscode.workspace.openTextDocument({ content, language });
+    await vscode.window.showTextDocument(document, vscode.ViewColumn.Beside);
+    return;
+  }
+
+  const base = source.uri.fsPath.replace(/(\.sbpl)?\.json$|\.(sb|sbpl)$/, '');
+  const target = vscode.Uri.file(base + extension).with({ scheme: 'untitled' });
+  const document = await vscode.workspace.openTextDocument(target);
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(target, new vscode.Range(new vscode.Position(0, 0), document.positionAt(document.getText().length)), content);
+  await vscode.workspace.applyEdit(edit);
+
+  const typed = await vscode.languages.setTextDocumentLanguage(document, language);
+  await vscode.window.showTextDocument(typed, vscode.ViewColumn.Beside);
+}
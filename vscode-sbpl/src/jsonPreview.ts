@@ -0,0 +1,42 @@
+import * as vscode from 'vscode';
+import { parse } from './parser.js';
+import { profileToJson } from './profileJson.js';
+
+/**
+ * Read-only JSON view of an SBPL document that follows its edits.
+ *
+ * Preview URIs end in `.sbpl.json`, so the contributed JSON schema applies to
+ * them, and carry the source document URI in their query.
+ */
+export class SBPLJsonPreviewProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  static readonly scheme = 'sbpl-json';
+
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  /** The preview URI for an SBPL document. */
+  static previewUri(source: vscode.Uri): vscode.Uri {
+    const path = source.path.replace(/\.(sb|sbpl)$/, '') + '.sbpl.json';
+    return vscode.Uri.from({ scheme: SBPLJsonPreviewProvider.scheme, path, query: source.toString() });
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    const source = vscode.workspace.textDocuments.find((document) => document.uri.toString() === uri.query);
+    if (!source) {
+      return '{}\n';
+    }
+    return JSON.stringify(profileToJson(parse(source.getText()).profile), null, 2) + '\n';
+  }
+
+  /** Refreshes the preview of a source document, if it is open. */
+  refresh(source: vscode.Uri): void {
+    const preview = SBPLJsonPreviewProvider.previewUri(source).toString();
+    if (vscode.workspace.textDocuments.some((document) => document.uri.toString() === preview)) {
+      this.changeEmitter.fire(vscode.Uri.parse(preview));
+    }
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
@@ -0,0 +1,401 @@
+import { createDiagnostic, DiagnosticCode, type Diagnostic } from './diagnostics.js';
+import { SourceText, type SourcePosition, type SourceRange } from './source.js';
+
+/** The kind of a token in SBPL source. Mirrors `TokenKind` from SBPLLexer. */
+export type TokenKind =
+  | { type: 'leftParen' }
+  | { type: 'rightParen' }
+  | { type: 'integer'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'rawString'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'symbol'; value: string }
+  | { type: 'eof' }
+  | { type: 'unknown'; value: string };
+
+/** Whitespace and comments attached to a token. */
+export interface TriviaPiece {
+  kind: 'whitespace' | 'newline' | 'lineComment' | 'blockComment';
+  /** The raw source text of the piece, including comment delimiters. */
+  text: string;
+  range: SourceRange;
+}
+
+/** A token with its source range and surrounding trivia. */
+export interface Token {
+  kind: TokenKind;
+  range: SourceRange;
+  leadingTrivia: TriviaPiece[];
+  trailingTrivia: TriviaPiece[];
+}
+
+const SYMBOL_CHARS = new Set(['*', '-', '+', '/', '<', '>', '=', '?', '!', '.', ':', "'", '%']);
+
+function isLetter(char: string): boolean {
+  return /\p{L}/u.test(char);
+}
+
+function isDigit(char: string | undefined): boolean {
+  return char !== undefined && char >= '0' && char <= '9';
+}
+
+function isHexDigit(char: string | undefined): boolean {
+  return char !== undefined && /^[0-9a-fA-F]$/.test(char);
+}
+
+function isSymbolStart(char: string): boolean {
+  return isLetter(char) || char === '_' || char === '$' || SYMBOL_CHARS.has(char);
+}
+
+function isSymbolContinue(char: string): boolean {
+  return isLetter(char) || isDigit(char) || char === '_' || char === '$' || SYMBOL_CHARS.has(char);
+}
+
+/** Whether text reads back as a single symbol token, such as an operation or `define` name. */
+export function isSymbolName(text: string): boolean {
+  const chars = [...text];
+  return chars.length > 0 && isSymbolStart(chars[0]) && chars.every(isSymbolContinue) && !/^[-+]\d/.test(text);
+}
+
+/**
+ * A lexer for SBPL (Sandbox Profile Language).
+ *
+ * Port of the Swift `Lexer`: it produces the same tokens and the same L0xx
+ * diagnostics, and preserves whitespace and comments as trivia so tools like
+ * the formatter can reproduce them.
+ */
+export class Lexer {
+  readonly source: SourceText;
+  readonly diagnostics: Diagnostic[] = [];
+
+  private offset = 0;
+  private readonly text: string;
+
+  constructor(source: SourceText | string) {
+    this.source = typeof source === 'string' ? new SourceText(source) : source;
+    this.text = this.source.text;
+  }
+
+  /** Tokenizes the entire source, including the final EOF token. */
+  tokenize(): Token[] {
+    const tokens: Token[] = [];
+    for (;;) {
+      const token = this.nextToken();
+      tokens.push(token);
+      if (token.kind.type === 'eof') {
+        return tokens;
+      }
+    }
+  }
+
+  /** Returns the next token from the source, or EOF at the end. */
+  nextToken(): Token {
+    const leadingTrivia = this.scanTrivia(true);
+    const start = this.position();
+
+    if (this.isAtEnd) {
+      return { kind: { type: 'eof' }, range: { start, end: start }, leadingTrivia, trailingTrivia: [] };
+    }
+
+    const kind = this.scanToken();
+    const end = this.position();
+    const trailingTrivia = this.scanTrivia(false);
+
+    return { kind, range: { start, end }, leadingTrivia, trailingTrivia };
+  }
+
+  // MARK: - Token Scanning
+
+  private scanToken(): TokenKind {
+    const char = this.peek()!;
+
+    switch (char) {
+      case '(':
+        this.advance();
+        return { type: 'leftParen' };
+      case ')':
+        this.advance();
+        return { type: 'rightParen' };
+      case '"':
+        return this.scanString();
+      case '#':
+        return this.scanHash();
+      case '-':
+      case '+':
+        // Could be a number or a symbol
+        return isDigit(this.peek(1)) ? this.scanNumber() : this.scanSymbol();
+    }
+
+    if (isDigit(char)) {
+      return this.scanNumber();
+    }
+    if (isSymbolStart(char)) {
+      return this.scanSymbol();
+    }
+
+    this.advance();
+    this.addDiagnostic(DiagnosticCode.UnknownCharacter, `Unknown character '${char}'`, this.offset - 1);
+    return { type: 'unknown', value: char };
+  }
+
+  private scanString(): TokenKind {
+    const startOffset = this.offset;
+    this.advance(); // consume opening quote
+
+    let value = '';
+    let hasError = false;
+
+    while (!this.isAtEnd) {
+      const char = this.peek()!;
+
+      if (char === '"') {
+        this.advance();
+        return { type: 'string', value };
+      }
+
+      if (char === '\n' || char === '\r') {
+        this.addDiagnostic(DiagnosticCode.UnterminatedString, 'Unterminated string literal', startOffset);
+        return { type: 'string', value };
+      }
+
+      if (char === '\\') {
+        this.advance();
+        const escaped = this.scanEscapeSequence();
+        if (escaped === undefined) {
+          hasError = true;
+        } else {
+          value += escaped;
+        }
+      } else {
+        value += char;
+        this.advance();
+      }
+    }
+
+    if (!hasError) {
+      this.addDiagnostic(DiagnosticCode.UnterminatedString, 'Unterminated string literal', startOffset);
+    }
+    return { type: 'string', value };
+  }
+
+  private scanEscapeSequence(): string | undefined {
+    const char = this.peek();
+    if (char === undefined) {
+      this.addDiagnostic(DiagnosticCode.InvalidEscapeSequence, "Expected escape character after '\\'");
+      return undefined;
+    }
+
+    this.advance();
+
+    switch (char) {
+      case 'n': return '\n';
+      case 'r': return '\r';
+      case 't': return '\t';
+      case '\\': return '\\';
+      case '"': return '"';
+      case '0': return '\0';
+      case 'x': return this.scanHexEscape(2);
+      case 'u': return this.scanHexEscape(4);
+      default:
+        this.addDiagnostic(DiagnosticCode.InvalidEscapeSequence, `Invalid escape sequence '\\${char}'`);
+        return char;
+    }
+  }
+
+  private scanHexEscape(digits: number): string | undefined {
+    let hex = '';
+    for (let i = 0; i < digits; i++) {
+      const char = this.peek();
+      if (!isHexDigit(char)) {
+        this.addDiagnostic(
+          DiagnosticCode.InvalidHexEscape,
+          `Expected ${digits} hexadecimal digits in escape sequence`
+        );
+        return undefined;
+      }
+      hex += char;
+      this.advance();
+    }
+    return String.fromCharCode(parseInt(hex, 16));
+  }
+
+  private scanHash(): TokenKind {
+    this.advance(); // consume #
+
+    const char = this.peek();
+    if (char === undefined) {
+      this.addDiagnostic(DiagnosticCode.UnexpectedEOF, "Unexpected end of file after '#'");
+      return { type: 'unknown', value: '#' };
+    }
+
+    switch (char) {
+      case 't':
+      case 'T':
+      case 'f':
+      case 'F': {
+        this.advance();
+        return { type: 'boolean', value: char.toLowerCase() === 't' };
+      }
+      case '"':
+        return this.scanRawString();
+      case '|':
+        // Block comments are handled as trivia; this is recovery only
+        return { type: 'unknown', value: '#' };
+      default:
+        this.addDiagnostic(DiagnosticCode.UnknownCharacter, `Unknown directive '#${char}'`, this.offset - 1);
+        return { type: 'unknown', value: '#' };
+    }
+  }
+
+  private scanRawString(): TokenKind {
+    const startOffset = this.offset - 1; // include the #
+    this.advance(); // consume opening quote
+
+    let value = '';
+    while (!this.isAtEnd) {
+      const char = this.peek()!;
+      if (char === '"') {
+        this.advance();
+        return { type: 'rawString', value };
+      }
+      value += char;
+      this.advance();
+    }
+
+    this.addDiagnostic(DiagnosticCode.UnterminatedRawString, 'Unterminated raw string literal', startOffset);
+    return { type: 'rawString', value };
+  }
+
+  private scanNumber(): TokenKind {
+    let numberString = '';
+
+    const sign = this.peek();
+    if (sign === '-' || sign === '+') {
+      numberString += sign;
+      this.advance();
+    }
+
+    while (isDigit(this.peek())) {
+      numberString += this.peek();
+      this.advance();
+    }
+
+    const value = Number(numberString);
+    if (!Number.isSafeInteger(value)) {
+      this.addDiagnostic(DiagnosticCode.InvalidIntegerLiteral, `Invalid integer literal '${numberString}'`);
+      return { type: 'integer', value: 0 };
+    }
+    return { type: 'integer', value };
+  }
+
+  private scanSymbol(): TokenKind {
+    let symbol = '';
+    let char = this.peek();
+    while (char !== undefined && isSymbolContinue(char)) {
+      symbol += char;
+      this.advance();
+      char = this.peek();
+    }
+    return { type: 'symbol', value: symbol };
+  }
+
+  // MARK: - Trivia Scanning
+
+  private scanTrivia(isLeading: boolean): TriviaPiece[] {
+    const pieces: TriviaPiece[] = [];
+
+    while (!this.isAtEnd) {
+      const char = this.peek()!;
+      const start = this.offset;
+
+      if (char === ' ' || char === '\t') {
+        while (this.peek() === ' ' || this.peek() === '\t') {
+          this.advance();
+        }
+        pieces.push(this.triviaPiece('whitespace', start));
+      } else if (char === '\n' || char === '\r') {
+        this.advance();
+        if (char === '\r' && this.peek() === '\n') {
+          this.advance();
+        }
+        pieces.push(this.triviaPiece('newline', start));
+        if (!isLeading) {
+          // Trailing trivia stops after the first newline
+          return pieces;
+        }
+      } else if (char === ';') {
+        while (!this.isAtEnd && this.peek() !== '\n' && this.peek() !== '\r') {
+          this.advance();
+        }
+        pieces.push(this.triviaPiece('lineComment', start));
+      } else if (char === '#' && this.peek(1) === '|') {
+        this.scanBlockComment();
+        pieces.push(this.triviaPiece('blockComment', start));
+      } else {
+        return pieces;
+      }
+    }
+
+    return pieces;
+  }
+
+  private scanBlockComment(): void {
+    const startOffset = this.offset;
+    this.advance(); // consume #
+    this.advance(); // consume |
+
+    let depth = 1;
+    while (!this.isAtEnd && depth > 0) {
+      if (this.peek() === '#' && this.peek(1) === '|') {
+        depth += 1;
+        this.advance();
+        this.advance();
+      } else if (this.peek() === '|' && this.peek(1) === '#') {
+        depth -= 1;
+        this.advance();
+        this.advance();
+      } else {
+        this.advance();
+      }
+    }
+
+    if (depth > 0) {
+      this.addDiagnostic(DiagnosticCode.UnterminatedComment, 'Unterminated block comment', startOffset);
+    }
+  }
+
+  private triviaPiece(kind: TriviaPiece['kind'], start: number): TriviaPiece {
+    return {
+      kind,
+      text: this.text.slice(start, this.offset),
+      range: this.source.rangeAt(start, this.offset),
+    };
+  }
+
+  // MARK: - Position Tracking
+
+  private get isAtEnd(): boolean {
+    return this.offset >= this.text.length;
+  }
+
+  private peek(ahead = 0): string | undefined {
+    return this.text[this.offset + ahead];
+  }
+
+  private advance(): void {
+    if (this.offset < this.text.length) {
+      this.offset += 1;
+    }
+  }
+
+  private position(): SourcePosition {
+    return this.source.positionAt(this.offset);
+  }
+
+  // MARK: - Diagnostics
+
+  private addDiagnostic(code: DiagnosticCode, message: string, startOffset?: number): void {
+    const range = this.source.rangeAt(startOffset ?? this.offset, this.offset);
+    this.diagnostics.push(createDiagnostic(code, message, range));
+  }
+}
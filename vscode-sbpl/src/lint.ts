@@ -0,0 +1,371 @@
+import { exprAsFilter, exprStringValue, type Filter, type Profile, type Rule } from './ast.js';
+import { OPERATIONS } from './catalog.js';
+import { createDiagnostic, DiagnosticCode, type Diagnostic, type DiagnosticSeverity } from './diagnostics.js';
+import { pathSpec, resolveFilter, ruleFilter, ruleOperationNames, type DefinitionTable } from './filters.js';
+import type { Token } from './lexer.js';
+import { operationCovers, operationsOverlap } from './operations.js';
+import { REGEX_FILTERS } from './semantic.js';
+import type { SourceRange } from './source.js';
+
+/**
+ * Security lint rules.
+ *
+ * Each rule has an ID and reports as `W005`, except `deprecated-operation`,
+ * which reports as `W002`. A rule can be tuned in `sbpl.lint.rules` or
+ * silenced for one line with a comment naming its code or ID:
+ *
+ *     ; sbpl-disable-next-line W005
+ *     ; sbpl-disable-next-line allow-default, broad-regex
+ *
+ * A bare `; sbpl-disable-next-line` silences every lint rule on the next
+ * line. Comments never silence syntax, semantic or external checker
+ * diagnostics, whichever checker reports them.
+ */
+
+/** A rule's severity, or `off` to disable it. */
+export type LintSeverity = DiagnosticSeverity | 'off';
+
+/** Severities by rule ID, as in the `sbpl.lint.rules` setting. */
+export type LintRuleSettings = Record<string, LintSeverity>;
+
+export interface LintRuleInfo {
+  id: string;
+  code: DiagnosticCode;
+  defaultSeverity: DiagnosticSeverity;
+  description: string;
+}
+
+type SimpleFilter = Extract<Filter, { kind: 'simple' }>;
+
+interface LintContext {
+  profile: Profile;
+  definitions: DefinitionTable;
+  report(range: SourceRange, message: string): void;
+}
+
+interface LintRule extends LintRuleInfo {
+  check(context: LintContext): void;
+}
+
+/** Operations whose grant gives a process privileges beyond its own data. */
+const PRIVILEGED_OPERATIONS = ['mach-priv*', 'system-kext-load', 'nvram-set'];
+
+/** Directories where write access lets a process tamper with the system or other users. */
+const SENSITIVE_WRITE_ROOTS = new Set([
+  '/', '/Applications', '/Library', '/System', '/Users', '/bin', '/etc', '/private',
+  '/private/etc', '/private/var', '/sbin', '/usr', '/var',
+]);
+
+/** Regex bodies, without anchors, that match any string or any absolute path. */
+const MATCH_ALL_PATTERNS = new Set(['', '.*', '.+', '/', '/.*', '/.+']);
+
+/** Why each deprecated operation of the catalog should no longer be used. */
+const DEPRECATED_OPERATIONS = new Map(
+  OPERATIONS.flatMap((op) => (op.deprecated ? [[op.label, op.deprecated] as const] : []))
+);
+
+const SUPPRESSION_COMMENT = /^;+\s*sbpl-disable-next-line\b(.*)$/;
+
+const MAX_DEFINE_DEPTH = 16;
+
+const RULES: LintRule[] = [
+  {
+    id: 'allow-default',
+    code: DiagnosticCode.UnsafeOperation,
+    defaultSeverity: 'warning',
+    description: 'Flags `(allow default)`, which allows every operation no later rule denies.',
+    check({ profile, report }) {
+      for (const rule of profile.rules) {
+        const op = rule.action === 'allow' ? rule.operations.find((ref) => ref.name === 'default') : undefined;
+        if (op) {
+          report(op.range, '(allow default) allows every operation that no later rule denies');
+        }
+      }
+    },
+  },
+  {
+    id: 'missing-deny-default',
+    code: DiagnosticCode.UnsafeOperation,
+    defaultSeverity: 'warning',
+    description: 'Flags profiles with rules but no `(deny default)`.',
+    check({ profile, report }) {
+      const defaults = profile.rules.filter((rule) => rule.operations.some((op) => op.name === 'default'));
+      // `allow-default` already reports profiles that allow by default
+      if (profile.rules.length === 0 || defaults.length > 0) {
+        return;
+      }
+      const range = profile.version?.range ?? { start: profile.range.start, end: profile.range.start };
+      report(range, 'Missing (deny default): operations the profile does not mention are allowed');
+    },
+  },
+  {
+    id: 'broad-file-write',
+    code: DiagnosticCode.UnsafeOperation,
+    defaultSeverity: 'warning',
+    description: 'Flags file writes allowed everywhere, under `/`, a system directory or the whole home directory.',
+    check({ profile, definitions, report }) {
+      for (const rule of allowRulesFor(profile, definitions, 'file-write*')) {
+        const filter = ruleFilter(rule, definitions);
+        if (!filter) {
+          report(grantingOperation(rule, definitions, 'file-write*'), 'File writes are allowed everywhere');
+          continue;
+        }
+        for (const { filter: alternative, range } of alternatives(filter, definitions)) {
+          const spec = alternative.kind === 'simple' ? pathSpec(alternative) : undefined;
+          if (!spec || (spec.kind !== 'subpath' && spec.kind !== 'prefix')) {
+            continue;
+          }
+          const path = spec.value.length > 1 ? spec.value.replace(/\/+$/, '') : spec.value;
+          if (spec.base === 'home' && (path === '' || path === '/')) {
+            report(range, 'File writes are allowed in the whole home directory');
+          } else if (spec.base === 'root' && SENSITIVE_WRITE_ROOTS.has(path)) {
+            report(range, `File writes are allowed under ${path}`);
+          }
+        }
+      }
+    },
+  },
+  {
+    id: 'unrestricted-exec',
+    code: DiagnosticCode.UnsafeOperation,
+    defaultSeverity: 'warning',
+    description: 'Flags `process-exec` allowed without a path filter.',
+    check({ profile, definitions, report }) {
+      for (const rule of allowRulesFor(profile, definitions, 'process-exec*')) {
+        const filter = ruleFilter(rule, definitions);
+        if (!filter || !constrainsPath(filter, definitions, 0)) {
+          report(grantingOperation(rule, definitions, 'process-exec*'), 'Executing any program is allowed; add a path filter');
+        }
+      }
+    },
+  },
+  {
+    id: 'unrestricted-network',
+    code: DiagnosticCode.UnsafeOperation,
+    defaultSeverity: 'warning',
+    description: 'Flags `network-outbound` allowed to any host and port.',
+    check({ profile, definitions, report }) {
+      for (const rule of allowRulesFor(profile, definitions, 'network-outbound')) {
+        const filter = ruleFilter(rule, definitions);
+        if (!filter) {
+          report(grantingOperation(rule, definitions, 'network-outbound'), 'Outbound connections to any host are allowed');
+          continue;
+        }
+        for (const { filter: alternative, range } of alternatives(filter, definitions)) {
+          if (alternative.kind === 'simple' && alternative.type === 'remote' && matchesAnyAddress(alternative)) {
+            report(range, 'Outbound connections to any host and port are allowed');
+          }
+        }
+      }
+    },
+  },
+  {
+    id: 'privileged-operation',
+    code: DiagnosticCode.UnsafeOperation,
+    defaultSeverity: 'warning',
+    description: 'Flags grants of `mach-priv-*`, `system-kext-load` or `nvram-set`.',
+    check({ profile, definitions, report }) {
+      for (const rule of profile.rules) {
+        if (rule.action !== 'allow') {
+          continue;
+        }
+        for (const op of rule.operations) {
+          if (op.name === 'default' || definitions.has(op.name)) {
+            continue;
+          }
+          const privileged = PRIVILEGED_OPERATIONS.find((pattern) => operationsOverlap(pattern, op.name));
+          if (privileged) {
+            report(op.range, operationCovers(privileged, op.name)
+              ? `'${op.name}' is a privileged operation`
+              : `'${op.name}' includes the privileged operation '${privileged}'`);
+          }
+        }
+      }
+    },
+  },
+  {
+    id: 'deprecated-operation',
+    code: DiagnosticCode.Deprecated,
+    defaultSeverity: 'warning',
+    description: 'Flags operations the catalog marks as deprecated.',
+    check({ profile, definitions, report }) {
+      for (const rule of profile.rules) {
+        for (const op of rule.operations) {
+          const reason = definitions.has(op.name) ? undefined : DEPRECATED_OPERATIONS.get(op.name);
+          if (reason) {
+            report(op.range, `'${op.name}' is deprecated: ${reason}`);
+          }
+        }
+      }
+    },
+  },
+  {
+    id: 'broad-regex',
+    code: DiagnosticCode.UnsafeOperation,
+    defaultSeverity: 'information',
+    description: 'Flags regexes without a leading `^` and regexes that match everything.',
+    check({ profile, report }) {
+      const checkFilter = (filter: Filter): void => {
+        switch (filter.kind) {
+          case 'simple': {
+            const pattern = REGEX_FILTERS.has(filter.type) ? exprStringValue(filter.value) : undefined;
+            if (pattern === undefined) {
+              break;
+            }
+            if (MATCH_ALL_PATTERNS.has(pattern.replace(/^\^/, '').replace(/\$$/, ''))) {
+              report(filter.value.range, `Regex ${JSON.stringify(pattern)} matches everything`);
+            } else if (!pattern.startsWith('^')) {
+              report(filter.value.range, `Regex ${JSON.stringify(pattern)} is not anchored with '^' and matches anywhere in the name`);
+            }
+            break;
+          }
+          case 'compound':
+            filter.filters.forEach(checkFilter);
+            break;
+          case 'not':
+            checkFilter(filter.filter);
+            break;
+          case 'expression':
+            break;
+        }
+      };
+
+      for (const definition of profile.definitions) {
+        const filter = definition.isFunction ? undefined : exprAsFilter(definition.value);
+        if (filter) {
+          checkFilter(filter);
+        }
+      }
+      for (const rule of profile.rules) {
+        rule.filters.forEach(checkFilter);
+      }
+    },
+  },
+];
+
+/** Every lint rule, in the order they run. */
+export const LINT_RULES: readonly LintRuleInfo[] = RULES.map(({ id, code, defaultSeverity, description }) => ({
+  id,
+  code,
+  defaultSeverity,
+  description,
+}));
+
+/**
+ * Runs the lint rules on a profile. Rules set to `off` are skipped; the others
+ * report with the severity from `settings` or their default.
+ *
+ * @param definitions Definitions visible to the profile, including imported ones.
+ */
+export function lintProfile(profile: Profile, definitions: DefinitionTable, settings: LintRuleSettings = {}): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const rule of RULES) {
+    const severity = settings[rule.id] ?? rule.defaultSeverity;
+    if (severity === 'off') {
+      continue;
+    }
+    rule.check({
+      profile,
+      definitions,
+      report(range, message) {
+        diagnostics.push({ ...createDiagnostic(rule.code, message, range), severity, rule: rule.id });
+      },
+    });
+  }
+  return diagnostics;
+}
+
+/**
+ * Drops lint diagnostics silenced by a `; sbpl-disable-next-line` comment on
+ * the line above them. The comment may list diagnostic codes and rule IDs;
+ * diagnostics that no lint rule reported are kept.
+ */
+export function applySuppressions(diagnostics: Diagnostic[], tokens: Token[]): Diagnostic[] {
+  const suppressions = new Map<number, string[]>();
+  for (const token of tokens) {
+    for (const piece of [...token.leadingTrivia, ...token.trailingTrivia]) {
+      const match = piece.kind === 'lineComment' ? SUPPRESSION_COMMENT.exec(piece.text) : null;
+      if (match) {
+        suppressions.set(piece.range.start.line + 1, match[1].split(/[\s,]+/).filter((name) => name.length > 0));
+      }
+    }
+  }
+  if (suppressions.size === 0) {
+    return diagnostics;
+  }
+
+  return diagnostics.filter((diagnostic) => {
+    const names = suppressions.get(diagnostic.range.start.line);
+    if (!names || !diagnostic.rule) {
+      return true;
+    }
+    return names.length > 0 && !names.includes(diagnostic.code) && !names.includes(diagnostic.rule);
+  });
+}
+
+/** Allow rules naming an operation that overlaps `operation`, other than `default`. */
+function allowRulesFor(profile: Profile, definitions: DefinitionTable, operation: string): Rule[] {
+  return profile.rules.filter((rule) =>
+    rule.action === 'allow'
+    && ruleOperationNames(rule, definitions).some((name) => name !== 'default' && operationsOverlap(name, operation)));
+}
+
+/** The range of the first operation in `rule` that grants `operation`. */
+function grantingOperation(rule: Rule, definitions: DefinitionTable, operation: string): SourceRange {
+  const op = rule.operations.find((ref) =>
+    !definitions.has(ref.name) && ref.name !== 'default' && operationsOverlap(ref.name, operation));
+  return op?.range ?? rule.range;
+}
+
+/**
+ * The filters that each grant access on their own: `require-any` children and
+ * resolved references, paired with the source range to report them at.
+ */
+function alternatives(filter: Filter, definitions: DefinitionTable): Array<{ filter: Filter; range: SourceRange }> {
+  const result: Array<{ filter: Filter; range: SourceRange }> = [];
+  const visit = (current: Filter, at: SourceRange | undefined, depth: number): void => {
+    if (depth > MAX_DEFINE_DEPTH) {
+      return;
+    }
+    if (current.kind === 'compound' && current.type === 'require-any') {
+      current.filters.forEach((child) => visit(child, at, depth + 1));
+    } else if (current.kind === 'expression') {
+      // Report at the reference, not inside the definition
+      const resolved = resolveFilter(current, definitions);
+      if (resolved) {
+        visit(resolved, at ?? current.range, depth + 1);
+      }
+    } else {
+      result.push({ filter: current, range: at ?? current.range });
+    }
+  };
+  visit(filter, undefined, 0);
+  return result;
+}
+
+/** Whether every access the filter matches is limited to some paths. Unresolved references count as limited. */
+function constrainsPath(filter: Filter, definitions: DefinitionTable, depth: number): boolean {
+  if (depth > MAX_DEFINE_DEPTH) {
+    return true;
+  }
+  switch (filter.kind) {
+    case 'simple':
+      return pathSpec(filter) !== undefined;
+    case 'compound':
+      return filter.type === 'require-any'
+        ? filter.filters.every((child) => constrainsPath(child, definitions, depth + 1))
+        : filter.filters.some((child) => constrainsPath(child, definitions, depth + 1));
+    case 'not':
+      return false;
+    case 'expression': {
+      const resolved = resolveFilter(filter, definitions);
+      return resolved ? constrainsPath(resolved, definitions, depth + 1) : true;
+    }
+  }
+}
+
+/** Whether a `remote` filter leaves out the address or uses `*:*`. */
+function matchesAnyAddress(filter: SimpleFilter): boolean {
+  const address = filter.args.map(exprStringValue).find((value) => value !== undefined);
+  return address === undefined || address === '*' || address === '*:*';
+}
@@ -0,0 +1,173 @@
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import type { DiagnosticSeverity } from './diagnostics.js';
+import { DEFAULT_SEARCH_PATHS, expandSearchPaths } from './imports.js';
+import type { LintRuleSettings } from './lint.js';
+import { validateText } from './validator.js';
+import {
+  DEFAULT_EXCLUDE,
+  findProfiles,
+  formatReports,
+  meetsThreshold,
+  type ProfileReport,
+  type ReportFormat,
+  type SeverityThreshold,
+} from './workspaceLint.js';
+
+/**
+ * `sbpl-lint`: checks profiles from the command line with the extension's
+ * built-in checker and lint rules, for CI:
+ *
+ *     bun src/lintCli.ts [options] [file-or-directory]...
+ *
+ * `sbpl.lint.rules`, `sbpl.exclude` and `sbpl.importSearchPaths` are read
+ * from `.vscode/settings.json` in the current directory, or from the file
+ * given with `--settings`, so CI reports what the editor reports. Exits with
+ * 1 when a diagnostic reaches the `--fail-on` severity, and 2 on usage errors.
+ */
+
+const USAGE = `Usage: bun src/lintCli.ts [options] [file-or-directory]...
+
+Options:
+  --format <text|json|sarif>   Output format (default: text)
+  --fail-on <severity>         Exit with 1 on diagnostics at or above error, warning,
+                               information or hint; none never fails (default: error)
+  --settings <file>            VS Code settings to read sbpl.* settings from
+                               (default: .vscode/settings.json)
+  --search-path <dir>          Directory searched for imported profiles (repeatable)
+  --exclude <glob>             Skip matching files and directories (repeatable)`;
+
+const FORMATS: ReportFormat[] = ['text', 'json', 'sarif'];
+const THRESHOLDS: SeverityThreshold[] = ['error', 'warning', 'information', 'hint', 'none'];
+
+interface Options {
+  format: ReportFormat;
+  failOn: SeverityThreshold;
+  settingsFile?: string;
+  searchPaths: string[];
+  exclude: string[];
+  paths: string[];
+}
+
+/** The `sbpl.*` settings the CLI shares with the editor. */
+interface LintSettings {
+  rules: LintRuleSettings;
+  exclude: string[];
+  importSearchPaths: string[];
+}
+
+function parseArgs(args: string[]): Options | string {
+  const options: Options = { format: 'text', failOn: 'error', searchPaths: [], exclude: [], paths: [] };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = (): string | undefined => args[++i];
+    switch (arg) {
+      case '--format': {
+        const format = value();
+        if (!FORMATS.includes(format as ReportFormat)) {
+          return `--format must be one of ${FORMATS.join(', ')}`;
+        }
+        options.format = format as ReportFormat;
+        break;
+      }
+      case '--fail-on': {
+        const threshold = value();
+        if (!THRESHOLDS.includes(threshold as SeverityThreshold)) {
+          return `--fail-on must be one of ${THRESHOLDS.join(', ')}`;
+        }
+        options.failOn = threshold as SeverityThreshold;
+        break;
+      }
+      case '--settings':
+      case '--search-path':
+      case '--exclude': {
+        const entry = value();
+        if (entry === undefined) {
+          return `${arg} needs a value`;
+        }
+        if (arg === '--settings') {
+          options.settingsFile = entry;
+        } else {
+          (arg === '--exclude' ? options.exclude : options.searchPaths).push(entry);
+        }
+        break;
+      }
+      default:
+        if (arg.startsWith('--')) {
+          return `Unknown option ${arg}`;
+        }
+        options.paths.push(arg);
+    }
+  }
+  return options;
+}
+
+/** Reads the `sbpl.*` settings from a VS Code settings file, which may contain comments. */
+function readSettings(file: string): LintSettings {
+  const text = readFileSync(file, 'utf8')
+    .replace(/("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (match, string?: string) => string ?? '')
+    .replace(/,(\s*[}\]])/g, '$1');
+  const settings = JSON.parse(text) as Record<string, unknown>;
+  const nested = (settings.sbpl ?? {}) as Record<string, unknown>;
+  const get = (key: string): unknown => settings[`sbpl.${key}`] ?? nested[key];
+
+  return {
+    rules: (get('lint.rules') ?? (nested.lint as { rules?: unknown } | undefined)?.rules ?? {}) as LintRuleSettings,
+    exclude: (get('exclude') as string[] | undefined) ?? DEFAULT_EXCLUDE,
+    importSearchPaths: (get('importSearchPaths') as string[] | undefined) ?? DEFAULT_SEARCH_PATHS,
+  };
+}
+
+function main(args: string[]): number {
+  const options = parseArgs(args);
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (typeof options === 'string') {
+    console.error(`${options}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const cwd = process.cwd();
+  let settings: LintSettings = { rules: {}, exclude: DEFAULT_EXCLUDE, importSearchPaths: DEFAULT_SEARCH_PATHS };
+  const settingsFile = options.settingsFile ?? join(cwd, '.vscode', 'settings.json');
+  if (options.settingsFile !== undefined || existsSync(settingsFile)) {
+    try {
+      settings = readSettings(settingsFile);
+    } catch (error) {
+      console.error(`Cannot read settings from ${settingsFile}: ${error instanceof Error ? error.message : String(error)}`);
+      return 2;
+    }
+  }
+
+  const exclude = [...settings.exclude, ...options.exclude];
+  const searchPaths = expandSearchPaths([...options.searchPaths, ...settings.importSearchPaths], [cwd]);
+
+  let files: string[];
+  try {
+    // Files named on the command line are checked even when excluded
+    files = (options.paths.length > 0 ? options.paths : [cwd])
+      .map((path) => resolve(cwd, path))
+      .flatMap((path) => statSync(path).isDirectory() ? findProfiles(path, exclude, cwd) : [path]);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    return 2;
+  }
+
+  const reports: ProfileReport[] = files.map((filePath) => {
+    const { diagnostics } = validateText(readFileSync(filePath, 'utf8'), {
+      filePath,
+      imports: { searchPaths },
+      lint: settings.rules,
+    });
+    return { filePath, diagnostics };
+  });
+
+  process.stdout.write(formatReports(reports, options.format, cwd));
+
+  const failing = (severity: DiagnosticSeverity): boolean => meetsThreshold(severity, options.failOn);
+  return reports.some(({ diagnostics }) => diagnostics.some((diag) => failing(diag.severity))) ? 1 : 0;
+}
+
+process.exit(main(process.argv.slice(2)));
@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+import {
+  CAPABILITIES,
+  COMMON_IMPORTS,
+  entitlementRules,
+  generateProfile,
+  MACH_SERVICES,
+  parseEntitlements,
+  type EntitlementRules,
+  type ProfileTemplate,
+} from './profileTemplates.js';
+
+const SOURCES = [
+  { label: '$(checklist) Choose Capabilities', source: 'capabilities' },
+  { label: '$(file) From Entitlements File...', source: 'entitlements' },
+] as const;
+
+const POSTURES: Array<vscode.QuickPickItem & { denyDefault: boolean }> = [
+  { label: 'Deny by default', description: '(deny default)', detail: 'Only operations the profile allows are permitted (recommended)', denyDefault: true },
+  { label: 'Allow by default', description: '(allow default)', detail: 'Every operation is permitted unless a rule denies it', denyDefault: false },
+];
+
+const DEBUG_MODES: Array<vscode.QuickPickItem & { debug?: 'allow' | 'deny' }> = [
+  { label: 'No debug logging' },
+  { label: 'Log denied operations', description: '(debug deny)', debug: 'deny' },
+  { label: 'Log allowed operations', description: '(debug allow)', debug: 'allow' },
+];
+
+/**
+ * `SBPL: New Profile`: asks for a posture, imports and capabilities, which
+ * can be preselected from an entitlements file, and opens the generated
+ * profile in a new editor.
+ */
+export async function newProfile(): Promise<void> {
+  const source = await vscode.window.showQuickPick(SOURCES, { placeHolder: 'Create the profile from' });
+  if (!source) {
+    return;
+  }
+
+  let derived: EntitlementRules = { capabilities: [], machServices: [], fileExceptions: [], unmatchedEntitlements: [] };
+  let entitlementsFile: string | undefined;
+  if (source.source === 'entitlements') {
+    const [file] = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      openLabel: 'Use Entitlements',
+      filters: { 'Entitlements': ['entitlements', 'plist'], 'All Files': ['*'] },
+    }) ?? [];
+    if (!file) {
+      return;
+    }
+    let text: string;
+    try {
+      text = new TextDecoder().decode(await vscode.workspace.fs.readFile(file));
+    } catch {
+      vscode.window.showErrorMessage(`Cannot read ${vscode.workspace.asRelativePath(file)}.`);
+      return;
+    }
+    const { entitlements, errors } = parseEntitlements(text);
+    if (!entitlements) {
+      vscode.window.showErrorMessage(`Cannot read entitlements from ${vscode.workspace.asRelativePath(file)}: ${errors[0]}`);
+      return;
+    }
+    derived = entitlementRules(entitlements);
+    entitlementsFile = vscode.workspace.asRelativePath(file);
+  }
+
+  const posture = await vscode.window.showQuickPick(POSTURES, { placeHolder: 'Base posture' });
+  if (!posture) {
+    return;
+  }
+  const debug = await vscode.window.showQuickPick(DEBUG_MODES, { placeHolder: 'Debug mode' });
+  if (!debug) {
+    return;
+  }
+
+  const imports = await vscode.window.showQuickPick(
+    COMMON_IMPORTS.map((entry) => ({ label: entry.path, description: entry.description })),
+    { placeHolder: 'Profiles to import', canPickMany: true }
+  );
+  if (!imports) {
+    return;
+  }
+
+  const capabilities = await vscode.window.showQuickPick(
+    CAPABILITIES.map((capability) => ({
+      label: capability.label,
+      description: capability.description,
+      picked: derived.capabilities.includes(capability.id),
+      id: capability.id,
+    })),
+    { placeHolder: entitlementsFile ? `Capabilities (preselected from ${entitlementsFile})` : 'Capabilities', canPickMany: true }
+  );
+  if (!capabilities) {
+    return;
+  }
+
+  let machServices = derived.machServices;
+  if (capabilities.some((capability) => capability.id === MACH_SERVICES)) {
+    const names = await vscode.window.showInputBox({
+      prompt: 'Global names of the Mach services to look up, separated by commas',
+      placeHolder: 'com.apple.system.logger, com.apple.cfprefsd.daemon',
+      value: machServices.join(', '),
+    });
+    if (names === undefined) {
+      return;
+    }
+    machServices = names.split(',').map((name) => name.trim()).filter(Boolean);
+  }
+
+  const template: ProfileTemplate = {
+    denyDefault: posture.denyDefault,
+    debug: debug.debug,
+    imports: imports.map((entry) => entry.label),
+    capabilities: capabilities.map((capability) => capability.id),
+    machServices,
+    fileExceptions: derived.fileExceptions,
+    entitlementsFile,
+    unmatchedEntitlements: derived.unmatchedEntitlements,
+  };
+  const document = await vscode.workspace.openTextDocument({ language: 'sbpl', content: generateProfile(template) });
+  await vscode.window.showTextDocument(document);
+}
@@ -0,0 +1,152 @@
+import type { DefineDecl, Expr, Filter, Profile } from './ast.js';
+import { BOOLEANS, DECLARATIONS, FILTERS, OPERATIONS } from './catalog.js';
+import { isSymbolName } from './lexer.js';
+import { rangeTouches, type SourceRange } from './source.js';
+
+/**
+ * Symbol occurrences for navigation and rename.
+ *
+ * Every symbol in a profile that could name a `define` is an occurrence:
+ * definition names, symbols in operation position, filter types (calls to
+ * function defines) and symbols inside expressions. Function parameters shadow
+ * outer names inside the function body.
+ */
+
+export interface SymbolOccurrence {
+  name: string;
+  range: SourceRange;
+  isDefinition: boolean;
+}
+
+export type BuiltinKind = 'operation' | 'filter' | 'keyword';
+
+const BUILTINS = new Map<string, BuiltinKind>([
+  ...OPERATIONS.map((op) => [op.label, 'operation'] as const),
+  ...FILTERS.map((filter) => [filter.label, 'filter'] as const),
+  ...DECLARATIONS.map((decl) => [decl.label, 'keyword'] as const),
+  ...BOOLEANS.map((bool) => [bool.label, 'keyword'] as const),
+]);
+
+/** Whether a name is a built-in operation, filter or keyword from the catalogs. */
+export function builtinKind(name: string): BuiltinKind | undefined {
+  return BUILTINS.get(name);
+}
+
+/** Every symbol occurrence in a profile, in source order. */
+export function collectOccurrences(profile: Profile): SymbolOccurrence[] {
+  const occurrences: SymbolOccurrence[] = [];
+
+  const visitExpr = (expr: Expr, shadowed: ReadonlySet<string>): void => {
+    if (expr.kind === 'symbol') {
+      if (!shadowed.has(expr.name)) {
+        occurrences.push({ name: expr.name, range: expr.range, isDefinition: false });
+      }
+    } else if (expr.kind === 'list') {
+      expr.elements.forEach((element) => visitExpr(element, shadowed));
+    }
+  };
+
+  const noShadowing = new Set<string>();
+  const visitFilter = (filter: Filter): void => {
+    switch (filter.kind) {
+      case 'simple':
+        occurrences.push({ name: filter.type, range: filter.typeRange, isDefinition: false });
+        filter.args.forEach((arg) => visitExpr(arg, noShadowing));
+        break;
+      case 'compound':
+        filter.filters.forEach(visitFilter);
+        break;
+      case 'not':
+        visitFilter(filter.filter);
+        break;
+      case 'expression':
+        visitExpr(filter.expr, noShadowing);
+        break;
+    }
+  };
+
+  for (const definition of profile.definitions) {
+    occurrences.push({ name: definition.name, range: definition.nameRange, isDefinition: true });
+    visitExpr(definition.value, new Set(definition.parameters));
+  }
+  for (const rule of profile.rules) {
+    for (const op of rule.operations) {
+      occurrences.push({ name: op.name, range: op.range, isDefinition: false });
+    }
+    rule.filters.forEach(visitFilter);
+  }
+
+  return occurrences.sort((a, b) => a.range.start.offset - b.range.start.offset);
+}
+
+/** The occurrence at an offset, if any. */
+export function occurrenceAt(profile: Profile, offset: number): SymbolOccurrence | undefined {
+  return collectOccurrences(profile).find((occurrence) => rangeTouches(occurrence.range, offset));
+}
+
+/** Occurrences of one name. */
+export function occurrencesOf(profile: Profile, name: string): SymbolOccurrence[] {
+  return collectOccurrences(profile).filter((occurrence) => occurrence.name === name);
+}
+
+/**
+ * Checks a rename of a `define`d symbol.
+ *
+ * @param visible Definitions visible where the symbol is defined or used.
+ * @returns An error message, or `undefined` if the rename is allowed.
+ */
+export function checkRename(
+  definition: DefineDecl,
+  newName: string,
+  visible: Iterable<DefineDecl>
+): string | undefined {
+  if (!isSymbolName(newName)) {
+    return `'${newName}' is not a valid symbol name`;
+  }
+  const builtin = builtinKind(newName);
+  if (builtin) {
+    return `'${newName}' is a built-in ${builtin}`;
+  }
+  for (const other of visible) {
+    if (other === definition) {
+      continue;
+    }
+    if (other.name === newName) {
+      return `'${newName}' is already defined`;
+    }
+    if (other.parameters.includes(newName) && !other.parameters.includes(definition.name)
+      && exprReferences(other.value, definition.name)) {
+      return `'${newName}' would be shadowed by a parameter of '${other.name}'`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks the name of a new `define`.
+ *
+ * @param visible Definitions visible where the new definition goes.
+ * @returns An error message, or `undefined` if the name is free.
+ */
+export function checkNewName(newName: string, visible: Iterable<DefineDecl>): string | undefined {
+  if (!isSymbolName(newName)) {
+    return `'${newName}' is not a valid symbol name`;
+  }
+  const builtin = builtinKind(newName);
+  if (builtin) {
+    return `'${newName}' is a built-in ${builtin}`;
+  }
+  for (const other of visible) {
+    if (other.name === newName) {
+      return `'${newName}' is already defined`;
+    }
+  }
+  return undefined;
+}
+
+function exprReferences(expr: Expr, name: string): boolean {
+  if (expr.kind === 'symbol') {
+    return expr.name === name;
+  }
+  return expr.kind === 'list' && expr.elements.some((element) => exprReferences(element, name));
+}
@@ -0,0 +1,67 @@
+import { FILTER_OPERATIONS, OPERATIONS } from './catalog.js';
+
+/**
+ * Operation hierarchy helpers.
+ *
+ * Operations use a hierarchical naming scheme where a `*` suffix is a wildcard
+ * matching all sub-operations: `file-read*` matches `file-read-data` and
+ * `file-read-metadata`, and `file*` matches `file-read*` itself.
+ */
+
+/** Whether the operation name is a wildcard such as `file-read*`. */
+export function isWildcardOperation(name: string): boolean {
+  return name.endsWith('*');
+}
+
+/** Whether `pattern` matches every access that `name` matches. */
+export function operationCovers(pattern: string, name: string): boolean {
+  if (pattern === name) {
+    return true;
+  }
+  if (!isWildcardOperation(pattern)) {
+    return false;
+  }
+  const prefix = pattern.slice(0, -1);
+  return name.startsWith(prefix);
+}
+
+/** Whether two operation names can match a common access. */
+export function operationsOverlap(a: string, b: string): boolean {
+  return operationCovers(a, b) || operationCovers(b, a);
+}
+
+/** The concrete (non-wildcard) catalog operations matched by a wildcard. */
+export function expandOperation(name: string): string[] {
+  if (!isWildcardOperation(name)) {
+    return [name];
+  }
+  return OPERATIONS
+    .map((op) => op.label)
+    .filter((label) => label !== 'default' && !isWildcardOperation(label) && operationCovers(name, label));
+}
+
+/**
+ * The catalog category of an operation, e.g. `file` for `file-read-data`.
+ * Names missing from the catalog take the category of a wildcard covering them.
+ */
+export function operationCategory(name: string): string | undefined {
+  const exact = OPERATIONS.find((op) => op.label === name);
+  if (exact) {
+    return exact.category;
+  }
+  return OPERATIONS
+    .filter((op) => isWildcardOperation(op.label) && operationCovers(op.label, name))
+    .sort((a, b) => b.label.length - a.label.length)[0]?.category;
+}
+
+/**
+ * Whether a filter applies to at least one of the given operations. Filters
+ * apply everywhere when no operations are known or `default` is among them.
+ */
+export function filterAppliesTo(filter: string, operations: string[]): boolean {
+  const patterns = FILTER_OPERATIONS[filter];
+  if (!patterns || operations.length === 0 || operations.includes('default')) {
+    return true;
+  }
+  return operations.some((op) => patterns.some((pattern) => operationsOverlap(pattern, op)));
+}
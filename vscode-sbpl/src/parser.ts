@@ -0,0 +1,497 @@
+import type {
+  DebugDecl,
+  DefineDecl,
+  Expr,
+  Filter,
+  ImportDecl,
+  OperationRef,
+  Profile,
+  Rule,
+  SandboxAction,
+  VersionDecl,
+} from './ast.js';
+import { createDiagnostic, DiagnosticCode, type Diagnostic } from './diagnostics.js';
+import { Lexer, type Token, type TokenKind } from './lexer.js';
+import { SourceText, type SourceRange } from './source.js';
+
+/** The result of parsing a profile. */
+export interface ParseResult {
+  profile: Profile;
+  /** Lexer and parser diagnostics, in source order. */
+  diagnostics: Diagnostic[];
+  tokens: Token[];
+  source: SourceText;
+}
+
+/** Thrown internally to unwind to the nearest recovery point. */
+class ParseError extends Error {
+  constructor(readonly expected: string) {
+    super(`Expected ${expected}`);
+  }
+}
+
+type TopLevelDecl =
+  | { kind: 'version'; decl: VersionDecl }
+  | { kind: 'debug'; decl: DebugDecl }
+  | { kind: 'import'; decl: ImportDecl }
+  | { kind: 'define'; decl: DefineDecl }
+  | { kind: 'rule'; decl: Rule }
+  | { kind: 'other' };
+
+/**
+ * A recursive-descent parser for SBPL.
+ *
+ * Port of the Swift `Parser`: recovery and diagnostics follow the same rules,
+ * so the in-process backend and `sbpl-convert check` agree on P0xx codes.
+ */
+export class Parser {
+  private readonly tokens: Token[];
+  private current = 0;
+  private readonly diagnostics: Diagnostic[] = [];
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  /** Parses the tokens and returns the profile AST with parser diagnostics. */
+  parse(): { profile: Profile; diagnostics: Diagnostic[] } {
+    const start = this.currentToken.range.start;
+    const profile: Profile = { range: { start, end: start }, imports: [], definitions: [], rules: [] };
+
+    while (!this.isAtEnd) {
+      try {
+        const decl = this.parseTopLevel();
+        switch (decl?.kind) {
+          case 'version':
+            if (profile.version) {
+              this.addError(DiagnosticCode.DuplicateDefinition, 'Duplicate version declaration', decl.decl.range);
+            }
+            profile.version = decl.decl;
+            break;
+          case 'debug':
+            profile.debugMode = decl.decl;
+            break;
+          case 'import':
+            profile.imports.push(decl.decl);
+            break;
+          case 'define':
+            profile.definitions.push(decl.decl);
+            break;
+          case 'rule':
+            profile.rules.push(decl.decl);
+            break;
+        }
+      } catch (error) {
+        if (!(error instanceof ParseError)) {
+          throw error;
+        }
+        // Error recovery: skip to next top-level form
+        this.synchronize();
+      }
+    }
+
+    profile.range = { start, end: this.tokens[this.tokens.length - 1].range.end };
+    return { profile, diagnostics: this.diagnostics };
+  }
+
+  // MARK: - Top-Level Parsing
+
+  private parseTopLevel(): TopLevelDecl | undefined {
+    if (this.isAtEnd) {
+      return undefined;
+    }
+
+    if (this.currentToken.kind.type !== 'leftParen') {
+      this.addError(DiagnosticCode.UnexpectedToken, "Expected '(' to start a declaration", this.currentToken.range);
+      this.advance();
+      return undefined;
+    }
+
+    const startToken = this.currentToken;
+    this.advance(); // consume (
+
+    const formName = this.symbolValue(this.currentToken.kind);
+    if (formName === undefined) {
+      this.addError(DiagnosticCode.ExpectedExpression, 'Expected form name', this.currentToken.range);
+      this.skipToCloseParen();
+      return undefined;
+    }
+
+    this.advance(); // consume form name
+
+    switch (formName) {
+      case 'version':
+        return { kind: 'version', decl: this.parseVersionBody(startToken) };
+      case 'debug':
+        return { kind: 'debug', decl: this.parseDebugBody(startToken) };
+      case 'import':
+        return { kind: 'import', decl: this.parseImportBody(startToken) };
+      case 'define':
+        return { kind: 'define', decl: this.parseDefineBody(startToken) };
+      case 'allow':
+      case 'deny':
+        return { kind: 'rule', decl: this.parseRuleBody(formName, startToken) };
+      default:
+        // Unknown form - skip it but don't error (could be macro, etc.)
+        this.skipToCloseParen();
+        return { kind: 'other' };
+    }
+  }
+
+  // MARK: - Declaration Parsing
+
+  private parseVersionBody(startToken: Token): VersionDecl {
+    const kind = this.currentToken.kind;
+    if (kind.type !== 'integer') {
+      this.addError(DiagnosticCode.ExpectedExpression, 'Expected version number', this.currentToken.range);
+      this.skipToCloseParen();
+      throw new ParseError('version number');
+    }
+    const versionRange = this.currentToken.range;
+    this.advance();
+
+    this.expectCloseParen();
+
+    return { range: this.rangeFrom(startToken), version: kind.value, versionRange };
+  }
+
+  private parseDebugBody(startToken: Token): DebugDecl {
+    const actionName = this.symbolValue(this.currentToken.kind);
+    if (actionName === undefined) {
+      this.addError(DiagnosticCode.ExpectedExpression, "Expected 'allow' or 'deny'", this.currentToken.range);
+      this.skipToCloseParen();
+      throw new ParseError('action');
+    }
+
+    let action: SandboxAction = 'deny';
+    if (actionName === 'allow' || actionName === 'deny') {
+      action = actionName;
+    } else {
+      this.addError(
+        DiagnosticCode.InvalidForm,
+        `Expected 'allow' or 'deny', got '${actionName}'`,
+        this.currentToken.range
+      );
+    }
+    this.advance();
+
+    this.expectCloseParen();
+
+    return { range: this.rangeFrom(startToken), action };
+  }
+
+  private parseImportBody(startToken: Token): ImportDecl {
+    const kind = this.currentToken.kind;
+    if (kind.type !== 'string') {
+      this.addError(DiagnosticCode.ExpectedExpression, 'Expected import path string', this.currentToken.range);
+      this.skipToCloseParen();
+      throw new ParseError('import path');
+    }
+
+    const pathRange = this.currentToken.range;
+    this.advance();
+
+    this.expectCloseParen();
+
+    return { range: this.rangeFrom(startToken), path: kind.value, pathRange };
+  }
+
+  private parseDefineBody(startToken: Token): DefineDecl {
+    let name: string;
+    let nameRange: SourceRange;
+    let isFunction = false;
+    const parameters: string[] = [];
+
+    const symbol = this.symbolValue(this.currentToken.kind);
+    if (symbol !== undefined) {
+      name = symbol;
+      nameRange = this.currentToken.range;
+      this.advance();
+    } else if (this.currentToken.kind.type === 'leftParen') {
+      // Function definition: (define (name args...) body)
+      this.advance();
+      const functionName = this.symbolValue(this.currentToken.kind);
+      if (functionName === undefined) {
+        this.addError(DiagnosticCode.ExpectedExpression, 'Expected function name', this.currentToken.range);
+        throw new ParseError('function name');
+      }
+      name = functionName;
+      nameRange = this.currentToken.range;
+      isFunction = true;
+      this.advance();
+
+      let parameter = this.symbolValue(this.currentToken.kind);
+      while (parameter !== undefined) {
+        parameters.push(parameter);
+        this.advance();
+        parameter = this.symbolValue(this.currentToken.kind);
+      }
+      this.skipToCloseParen();
+    } else {
+      this.addError(DiagnosticCode.ExpectedExpression, 'Expected definition name', this.currentToken.range);
+      this.skipToCloseParen();
+      throw new ParseError('definition name');
+    }
+
+    const value = this.scanExpr();
+
+    this.expectCloseParen();
+
+    return { range: this.rangeFrom(startToken), name, nameRange, isFunction, parameters, value };
+  }
+
+  private parseRuleBody(action: SandboxAction, startToken: Token): Rule {
+    const operations: OperationRef[] = [];
+    const filters: Filter[] = [];
+
+    while (!this.isAtEnd && !this.check('rightParen')) {
+      const kind = this.currentToken.kind;
+      if (kind.type === 'symbol') {
+        operations.push({ range: this.currentToken.range, name: kind.value });
+        this.advance();
+      } else if (kind.type === 'leftParen') {
+        const filter = this.tryParse(() => this.parseFilter());
+        if (filter) {
+          filters.push(filter);
+        } else {
+          this.skipToCloseParen();
+        }
+      } else {
+        this.addError(DiagnosticCode.UnexpectedToken, 'Unexpected token in rule', this.currentToken.range);
+        this.advance();
+      }
+    }
+
+    this.expectCloseParen();
+
+    return { range: this.rangeFrom(startToken), action, operations, filters };
+  }
+
+  // MARK: - Filter Parsing
+
+  private parseFilter(): Filter {
+    if (this.currentToken.kind.type !== 'leftParen') {
+      throw new ParseError('filter');
+    }
+
+    const startToken = this.currentToken;
+    this.advance();
+
+    const filterType = this.symbolValue(this.currentToken.kind);
+    if (filterType === undefined) {
+      this.addError(DiagnosticCode.ExpectedExpression, 'Expected filter type', this.currentToken.range);
+      this.skipToCloseParen();
+      throw new ParseError('filter type');
+    }
+
+    const typeRange = this.currentToken.range;
+    this.advance();
+
+    switch (filterType) {
+      case 'require-all':
+      case 'require-any': {
+        const filters = this.parseSubFilters();
+        this.expectCloseParen();
+        return { kind: 'compound', type: filterType, typeRange, filters, range: this.rangeFrom(startToken) };
+      }
+
+      case 'require-not': {
+        const filter = this.parseFilterOrReference();
+        this.expectCloseParen();
+        return { kind: 'not', typeRange, filter, range: this.rangeFrom(startToken) };
+      }
+
+      default: {
+        // Simple filter with one or more arguments
+        const args = [this.scanExpr()];
+        while (!this.isAtEnd && !this.check('rightParen')) {
+          const arg = this.tryParse(() => this.scanExpr());
+          if (arg) {
+            args.push(arg);
+          } else {
+            this.advance();
+          }
+        }
+        this.expectCloseParen();
+        return { kind: 'simple', type: filterType, typeRange, value: args[0], args, range: this.rangeFrom(startToken) };
+      }
+    }
+  }
+
+  private parseSubFilters(): Filter[] {
+    const filters: Filter[] = [];
+    while (!this.isAtEnd && !this.check('rightParen')) {
+      const kind = this.currentToken.kind;
+      if (kind.type === 'leftParen') {
+        const filter = this.tryParse(() => this.parseFilter());
+        if (filter) {
+          filters.push(filter);
+        } else if (this.currentToken.kind.type === 'leftParen') {
+          this.skipToCloseParen();
+        }
+      } else if (kind.type === 'symbol') {
+        // Reference to a define'd filter
+        const expr = this.scanExpr();
+        filters.push({ kind: 'expression', expr, range: expr.range });
+      } else {
+        this.advance();
+      }
+    }
+    return filters;
+  }
+
+  private parseFilterOrReference(): Filter {
+    if (this.currentToken.kind.type === 'symbol') {
+      const expr = this.scanExpr();
+      return { kind: 'expression', expr, range: expr.range };
+    }
+    return this.parseFilter();
+  }
+
+  // MARK: - Expr Parsing
+
+  private scanExpr(): Expr {
+    const token = this.currentToken;
+    const kind = token.kind;
+    const range = token.range;
+
+    switch (kind.type) {
+      case 'integer':
+        this.advance();
+        return { kind: 'integer', value: kind.value, range };
+      case 'string':
+        this.advance();
+        return { kind: 'string', value: kind.value, range };
+      case 'rawString':
+        this.advance();
+        return { kind: 'rawString', value: kind.value, range };
+      case 'boolean':
+        this.advance();
+        return { kind: 'boolean', value: kind.value, range };
+      case 'symbol':
+        this.advance();
+        return { kind: 'symbol', name: kind.value, range };
+      case 'leftParen':
+        return this.parseList();
+      default:
+        this.addError(DiagnosticCode.ExpectedExpression, 'Expected expression', range);
+        throw new ParseError('expression');
+    }
+  }
+
+  private parseList(): Expr {
+    const startToken = this.currentToken;
+    this.advance();
+
+    const elements: Expr[] = [];
+    while (!this.isAtEnd && !this.check('rightParen')) {
+      elements.push(this.scanExpr());
+    }
+
+    this.expectCloseParen();
+
+    return { kind: 'list', elements, range: this.rangeFrom(startToken) };
+  }
+
+  // MARK: - Helpers
+
+  private get currentToken(): Token {
+    return this.tokens[this.current];
+  }
+
+  private get previousToken(): Token {
+    return this.tokens[Math.max(0, this.current - 1)];
+  }
+
+  private get isAtEnd(): boolean {
+    return this.currentToken.kind.type === 'eof';
+  }
+
+  private check(type: TokenKind['type']): boolean {
+    return !this.isAtEnd && this.currentToken.kind.type === type;
+  }
+
+  private symbolValue(kind: TokenKind): string | undefined {
+    return kind.type === 'symbol' ? kind.value : undefined;
+  }
+
+  private advance(): void {
+    if (!this.isAtEnd) {
+      this.current += 1;
+    }
+  }
+
+  private rangeFrom(startToken: Token): SourceRange {
+    return { start: startToken.range.start, end: this.previousToken.range.end };
+  }
+
+  private tryParse<T>(parse: () => T): T | undefined {
+    try {
+      return parse();
+    } catch (error) {
+      if (error instanceof ParseError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private expectCloseParen(): void {
+    if (this.currentToken.kind.type !== 'rightParen') {
+      this.addError(DiagnosticCode.ExpectedCloseParen, "Expected ')'", this.currentToken.range);
+      throw new ParseError(')');
+    }
+    this.advance();
+  }
+
+  private skipToCloseParen(): void {
+    let depth = 1;
+    while (!this.isAtEnd && depth > 0) {
+      const type = this.currentToken.kind.type;
+      if (type === 'leftParen') {
+        depth += 1;
+      } else if (type === 'rightParen') {
+        depth -= 1;
+      }
+      this.advance();
+    }
+  }
+
+  private synchronize(): void {
+    // A failed form has always consumed its own '(', so an open paren here
+    // starts the next form and must not be skipped
+    while (!this.isAtEnd) {
+      // Sync at top-level open paren
+      if (this.currentToken.kind.type === 'leftParen') {
+        return;
+      }
+      this.advance();
+    }
+  }
+
+  private addError(code: DiagnosticCode, message: string, range: SourceRange): void {
+    this.diagnostics.push(createDiagnostic(code, message, range));
+  }
+}
+
+/** Lexes and parses SBPL source text. */
+export function parse(text: string): ParseResult {
+  const source = new SourceText(text);
+  const lexer = new Lexer(source);
+  const tokens = lexer.tokenize();
+  const { profile, diagnostics } = new Parser(tokens).parse();
+
+  // Nested recovery can report the same error once per open form; keep one
+  const seen = new Set<string>();
+  const unique = [...lexer.diagnostics, ...diagnostics].filter((diagnostic) => {
+    const key = `${diagnostic.code}:${diagnostic.range.start.offset}:${diagnostic.message}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+  unique.sort((a, b) => a.range.start.offset - b.range.start.offset);
+
+  return { profile, diagnostics: unique, tokens, source };
+}
@@ -0,0 +1,214 @@
+import type { Filter, Profile, Rule, SandboxAction } from './ast.js';
+import { OPERATIONS } from './catalog.js';
+import { filterMatches, type AccessQuery } from './evaluator.js';
+import {
+  buildDefinitionTable,
+  expandFilter,
+  isUnderSubpath,
+  pathSpec,
+  ruleFilter,
+  ruleOperationNames,
+  rulesInEvaluationOrder,
+  type DefinitionTable,
+} from './filters.js';
+import { resolveImportPath, resolveImports, type ImportOptions } from './imports.js';
+import { operationCategory } from './operations.js';
+
+/**
+ * Effective permissions: for each operation a profile names, the rules that
+ * still decide it, with `define`s expanded and the rules of imported files
+ * included where they are imported.
+ *
+ * As in `diffProfiles`, the last unfiltered rule covering an operation, or
+ * `default` when there is none, sets its baseline and hides the rules before
+ * it; the filtered rules after it carve out exceptions and are kept in
+ * evaluation order, with `default` rules first.
+ */
+
+/** A rule that applies to an operation. */
+export interface PermissionEntry {
+  action: SandboxAction;
+  /**
+   * One alternative of the rule's filters, with definitions expanded;
+   * `undefined` when the rule has no filters and matches every access.
+   */
+  filter?: Filter;
+  rule: Rule;
+  /** The imported file the rule is in; `undefined` for the profile's own rules. */
+  filePath?: string;
+}
+
+export interface OperationPermissions {
+  operation: string;
+  /** The decision for accesses no filtered entry matches. */
+  baseline: SandboxAction;
+  /** The unfiltered rule that sets the baseline, if any, then the filtered rules after it. */
+  entries: PermissionEntry[];
+  /** The decision for the access searched for by `filterPermissions`. */
+  decision?: SandboxAction;
+}
+
+export interface PermissionCategory {
+  /** An operation category of the catalog, such as `file` or `mach`. */
+  category: string;
+  operations: OperationPermissions[];
+}
+
+interface SourcedRule {
+  rule: Rule;
+  filePath?: string;
+}
+
+const CATEGORY_ORDER = [...new Set(OPERATIONS.map((op) => op.category ?? 'other'))];
+
+/**
+ * The effective permissions of a profile, grouped by operation category in
+ * catalog order.
+ *
+ * @param filePath The profile's location, for resolving relative imports.
+ * @param importOptions Where to find imports; imports are not followed without them.
+ */
+export function effectivePermissions(
+  profile: Profile,
+  filePath?: string,
+  importOptions?: ImportOptions
+): PermissionCategory[] {
+  const resolution = importOptions ? resolveImports(profile, filePath, importOptions) : undefined;
+  const definitions = buildDefinitionTable([
+    ...profile.definitions,
+    ...resolution?.definitions.map((entry) => entry.definition) ?? [],
+  ]);
+
+  const rules: SourcedRule[] = [];
+  const collect = (current: Profile, currentPath: string | undefined, imported: boolean, visiting: Set<string>): void => {
+    const forms = [
+      ...current.imports.map((decl) => ({ offset: decl.range.start.offset, decl, rule: undefined })),
+      ...current.rules.map((rule) => ({ offset: rule.range.start.offset, decl: undefined, rule })),
+    ].sort((a, b) => a.offset - b.offset);
+
+    for (const { decl, rule } of forms) {
+      if (rule) {
+        rules.push({ rule, filePath: imported ? currentPath : undefined });
+        continue;
+      }
+      const target = importOptions && decl && resolveImportPath(decl.path, currentPath, importOptions);
+      const importedProfile = target && !visiting.has(target) ? resolution?.profiles.get(target) : undefined;
+      if (target && importedProfile) {
+        collect(importedProfile, target, true, new Set([...visiting, target]));
+      }
+    }
+  };
+  collect(profile, filePath, false, new Set(filePath ? [filePath] : []));
+
+  const operations = [...new Set(rules.flatMap(({ rule }) => ruleOperationNames(rule, definitions)))].sort();
+  const categories = new Map<string, OperationPermissions[]>();
+  for (const operation of operations) {
+    const category = operationCategory(operation) ?? 'other';
+    categories.set(category, [...categories.get(category) ?? [], permissionsOf(operation, rules, definitions)]);
+  }
+
+  return [...categories]
+    .map(([category, operations]) => ({ category, operations }))
+    .sort((a, b) => rank(a.category) - rank(b.category));
+}
+
+function rank(category: string): number {
+  const index = CATEGORY_ORDER.indexOf(category);
+  return index < 0 ? CATEGORY_ORDER.length : index;
+}
+
+function permissionsOf(operation: string, rules: SourcedRule[], definitions: DefinitionTable): OperationPermissions {
+  const permissions: OperationPermissions = { operation, baseline: 'allow', entries: [] };
+
+  for (const { rule, filePath } of rulesInEvaluationOrder(rules, operation, definitions, (entry) => entry.rule)) {
+    const filter = ruleFilter(rule, definitions);
+    if (!filter) {
+      permissions.baseline = rule.action;
+      permissions.entries = [{ action: rule.action, rule, filePath }];
+      continue;
+    }
+    for (const alternative of alternatives(expandFilter(filter, definitions))) {
+      permissions.entries.push({ action: rule.action, filter: alternative, rule, filePath });
+    }
+  }
+
+  return permissions;
+}
+
+/** Splits `require-any` into its alternatives, which are listed one by one. */
+function alternatives(filter: Filter): Filter[] {
+  return filter.kind === 'compound' && filter.type === 'require-any' ? filter.filters.flatMap(alternatives) : [filter];
+}
+
+/**
+ * Keeps the operations with a filtered rule for a path or name, or that an
+ * unfiltered rule allows, and sets their `decision` for it.
+ *
+ * Text starting with `/` or `~/` is a path: a rule applies when its filter
+ * matches the path, or names a path inside it, so `~/Library` also finds
+ * rules for `~/Library/Caches`. Other text is a Mach service or IOKit class
+ * name. Unfiltered rules are kept, as they apply to every access; operations
+ * an unfiltered rule denies are left out when no filtered rule applies, or a
+ * `(deny default)` profile would list every operation.
+ *
+ * @param homeDirectory The directory `~` and the `home-*` filters stand for.
+ */
+export function filterPermissions(
+  categories: PermissionCategory[],
+  text: string,
+  homeDirectory: string
+): PermissionCategory[] {
+  const search = text.trim();
+  if (!search) {
+    return categories;
+  }
+
+  const home = homeDirectory.replace(/\/$/, '');
+  const query: Omit<AccessQuery, 'operation'> = search.startsWith('/') || search === '~' || search.startsWith('~/')
+    ? { path: search.startsWith('~') ? home + search.slice(1) : search, homeDirectory: home }
+    : { globalName: search, localName: search, iokitClass: search };
+
+  return categories
+    .map(({ category, operations }) => ({
+      category,
+      operations: operations.flatMap((permissions): OperationPermissions[] => {
+        const access = { ...query, operation: permissions.operation };
+        const matching = permissions.entries.filter((entry) => entry.filter && appliesTo(entry.filter, access, home));
+        const deciding = [...permissions.entries].reverse()
+          .find((entry) => !entry.filter || filterMatches(entry.filter, access) === true);
+        if (matching.length === 0 && !(deciding && !deciding.filter && deciding.action === 'allow')) {
+          return [];
+        }
+        const entries = permissions.entries.filter((entry) => !entry.filter || matching.includes(entry));
+        return [{ ...permissions, entries, decision: deciding?.action ?? permissions.baseline }];
+      }),
+    }))
+    .filter(({ operations }) => operations.length > 0);
+}
+
+function appliesTo(filter: Filter, query: AccessQuery, home: string): boolean {
+  if (filterMatches(filter, query) === true) {
+    return true;
+  }
+  const { path } = query;
+  return path !== undefined && pathFilters(filter).some((leaf) => {
+    const spec = pathSpec(leaf);
+    if (!spec || spec.kind === 'regex') {
+      return false;
+    }
+    const value = spec.base === 'home' ? home + spec.value : spec.value;
+    return isUnderSubpath(value, path);
+  });
+}
+
+/** The simple filters of a filter that are not negated. */
+function pathFilters(filter: Filter): Extract<Filter, { kind: 'simple' }>[] {
+  switch (filter.kind) {
+    case 'simple':
+      return [filter];
+    case 'compound':
+      return filter.filters.flatMap(pathFilters);
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,185 @@
+import { homedir } from 'node:os';
+import * as vscode from 'vscode';
+import { filterToString } from './ast.js';
+import { toRange } from './convert.js';
+import { documentFilePath, getImportOptions } from './importPaths.js';
+import { parse } from './parser.js';
+import {
+  effectivePermissions,
+  filterPermissions,
+  type OperationPermissions,
+  type PermissionCategory,
+  type PermissionEntry,
+} from './permissions.js';
+
+const VIEW_ID = 'sbpl.permissions';
+const FILTER_COMMAND = 'sbpl.filterPermissions';
+const CLEAR_FILTER_COMMAND = 'sbpl.clearPermissionsFilter';
+const FILTERED_CONTEXT = 'sbpl.permissionsFiltered';
+
+/** Edits are shown after typing pauses for this long. */
+const REFRESH_DELAY_MS = 300;
+
+type PermissionNode =
+  | { kind: 'category'; category: PermissionCategory }
+  | { kind: 'operation'; permissions: OperationPermissions }
+  | { kind: 'entry'; entry: PermissionEntry };
+
+/**
+ * Explorer view of the effective permissions of the profile in the active
+ * editor: operation categories, then operations, then the allow and deny
+ * rules that apply to them. Rules jump to their source when clicked, and the
+ * view can be filtered by a path or service name.
+ */
+export class SBPLPermissionsView implements vscode.TreeDataProvider<PermissionNode>, vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<PermissionNode | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  private readonly view: vscode.TreeView<PermissionNode>;
+  private readonly disposables: vscode.Disposable[] = [];
+  private document: vscode.TextDocument | undefined;
+  private search = '';
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor() {
+    this.view = vscode.window.createTreeView(VIEW_ID, { treeDataProvider: this, showCollapseAll: true });
+    this.disposables.push(
+      this.view,
+      this.changeEmitter,
+      vscode.window.onDidChangeActiveTextEditor((editor) => this.track(editor)),
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        if (event.document === this.document) {
+          this.scheduleRefresh();
+        }
+      }),
+      vscode.workspace.onDidCloseTextDocument((document) => {
+        if (document === this.document) {
+          this.track(undefined);
+        }
+      }),
+      vscode.commands.registerCommand(FILTER_COMMAND, () => this.askForFilter()),
+      vscode.commands.registerCommand(CLEAR_FILTER_COMMAND, () => this.setFilter(''))
+    );
+    this.track(vscode.window.activeTextEditor);
+  }
+
+  dispose(): void {
+    clearTimeout(this.timer);
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+
+  getTreeItem(node: PermissionNode): vscode.TreeItem {
+    switch (node.kind) {
+      case 'category': {
+        const item = new vscode.TreeItem(node.category.category, vscode.TreeItemCollapsibleState.Expanded);
+        item.iconPath = new vscode.ThemeIcon('symbol-namespace');
+        item.description = `${node.category.operations.length} operations`;
+        return item;
+      }
+      case 'operation':
+        return this.operationItem(node.permissions);
+      case 'entry':
+        return this.entryItem(node.entry);
+    }
+  }
+
+  getChildren(node?: PermissionNode): PermissionNode[] {
+    if (!node) {
+      return this.categories().map((category) => ({ kind: 'category', category }));
+    }
+    switch (node.kind) {
+      case 'category':
+        return node.category.operations.map((permissions) => ({ kind: 'operation', permissions }));
+      case 'operation':
+        return node.permissions.entries.map((entry) => ({ kind: 'entry', entry }));
+      case 'entry':
+        return [];
+    }
+  }
+
+  private categories(): PermissionCategory[] {
+    if (!this.document) {
+      this.view.message = 'Open a sandbox profile to see its effective permissions.';
+      return [];
+    }
+    const { profile } = parse(this.document.getText());
+    const categories = effectivePermissions(profile, documentFilePath(this.document), getImportOptions(this.document.uri));
+    const filtered = filterPermissions(categories, this.search, homedir());
+    this.view.message = this.search && filtered.length === 0 ? `No rules apply to ${this.search}.` : undefined;
+    return filtered;
+  }
+
+  private operationItem(permissions: OperationPermissions): vscode.TreeItem {
+    const item = new vscode.TreeItem(permissions.operation, vscode.TreeItemCollapsibleState.Collapsed);
+    item.iconPath = new vscode.ThemeIcon('symbol-event');
+    const exceptions = permissions.entries.filter((entry) => entry.filter).length;
+    const baseline = permissions.baseline === 'allow' ? 'allowed' : 'denied';
+    if (permissions.decision) {
+      item.description = permissions.decision === 'allow' ? 'allowed' : 'denied';
+    } else {
+      item.description = exceptions > 0 ? `${baseline}, ${exceptions} filtered rules` : baseline;
+    }
+    return item;
+  }
+
+  private entryItem(entry: PermissionEntry): vscode.TreeItem {
+    const filter = entry.filter ? filterToString(entry.filter) : 'every access';
+    const item = new vscode.TreeItem(`${entry.action} ${filter}`, vscode.TreeItemCollapsibleState.None);
+    item.iconPath = entry.action === 'allow'
+      ? new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'))
+      : new vscode.ThemeIcon('circle-slash', new vscode.ThemeColor('testing.iconFailed'));
+
+    const uri = entry.filePath ? vscode.Uri.file(entry.filePath) : this.document?.uri;
+    const line = entry.rule.range.start.line + 1;
+    item.description = entry.filePath ? `${vscode.workspace.asRelativePath(entry.filePath)}:${line}` : `line ${line}`;
+    item.tooltip = entry.filePath ? `Imported from ${entry.filePath}` : undefined;
+    if (uri) {
+      item.command = {
+        title: 'Go to Rule',
+        command: 'vscode.open',
+        arguments: [uri, { selection: toRange(entry.rule.range) } satisfies vscode.TextDocumentShowOptions],
+      };
+    }
+    return item;
+  }
+
+  /** Follows SBPL editors; focus moving to a panel or another view keeps the current profile. */
+  private track(editor: vscode.TextEditor | undefined): void {
+    if (editor && editor.document.languageId !== 'sbpl') {
+      editor = undefined;
+    } else if (!editor && this.document && !this.document.isClosed) {
+      return;
+    }
+    this.document = editor?.document;
+    this.refresh();
+  }
+
+  private scheduleRefresh(): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.refresh(), REFRESH_DELAY_MS);
+  }
+
+  private refresh(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.changeEmitter.fire(undefined);
+  }
+
+  private async askForFilter(): Promise<void> {
+    const search = await vscode.window.showInputBox({
+      prompt: 'Show the rules that apply to a path (/usr/lib, ~/Library) or a Mach service or IOKit class name',
+      placeHolder: '~/Library',
+      value: this.search,
+    });
+    if (search !== undefined) {
+      this.setFilter(search);
+    }
+  }
+
+  private setFilter(search: string): void {
+    this.search = search.trim();
+    this.view.description = this.search || undefined;
+    void vscode.commands.executeCommand('setContext', FILTERED_CONTEXT, this.search !== '');
+    this.refresh();
+  }
+}
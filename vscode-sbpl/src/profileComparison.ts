@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import type { Profile } from './ast.js';
+import { buildDefinitionTable, type DefinitionTable } from './filters.js';
+import { readHeadVersion } from './git.js';
+import { getImportOptions } from './importPaths.js';
+import { resolveImports } from './imports.js';
+import { parse } from './parser.js';
+import { diffProfiles, renderDiffMarkdown, type ProfileChange } from './profileDiff.js';
+
+interface ProfileVersion {
+  label: string;
+  profile: Profile;
+  imported: DefinitionTable;
+}
+
+/**
+ * `SBPL: Compare Profiles`: compares a profile with its git `HEAD` version or
+ * with another profile and opens the report as a Markdown preview.
+ *
+ * Called with two URIs, as in
+ * `executeCommand('sbpl.compareProfiles', before, after)`, it compares them
+ * without prompting and also returns the changes.
+ */
+export async function compareProfiles(before?: vscode.Uri, after?: vscode.Uri): Promise<ProfileChange[] | undefined> {
+  let beforeVersion: ProfileVersion | undefined;
+  let afterVersion: ProfileVersion | undefined;
+
+  if (before && after) {
+    beforeVersion = await loadVersion(before);
+    afterVersion = await loadVersion(after);
+  } else {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'sbpl') {
+      return undefined;
+    }
+    afterVersion = await loadVersion(editor.document.uri);
+    beforeVersion = await pickBaseline(editor.document.uri);
+  }
+  if (!beforeVersion || !afterVersion) {
+    return undefined;
+  }
+
+  const changes = diffProfiles(beforeVersion.profile, afterVersion.profile, beforeVersion.imported, afterVersion.imported);
+  const report = await vscode.workspace.openTextDocument({
+    language: 'markdown',
+    content: renderDiffMarkdown(changes, beforeVersion.label, afterVersion.label),
+  });
+  await vscode.commands.executeCommand('markdown.showPreview', report.uri);
+  return changes;
+}
+
+async function pickBaseline(current: vscode.Uri): Promise<ProfileVersion | undefined> {
+  const items = [
+    ...(current.scheme === 'file' ? [{ label: '$(git-commit) Git HEAD', baseline: 'head' as const }] : []),
+    { label: '$(file) Another Profile...', baseline: 'file' as const },
+  ];
+  const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Compare the profile with' });
+  if (!picked) {
+    return undefined;
+  }
+
+  if (picked.baseline === 'head') {
+    const text = await readHeadVersion(current.fsPath);
+    if (text === undefined) {
+      vscode.window.showErrorMessage(`${vscode.workspace.asRelativePath(current)} is not committed in a git repository.`);
+      return undefined;
+    }
+    return versionOf(`${vscode.workspace.asRelativePath(current)} (HEAD)`, text, current);
+  }
+
+  const [file] = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    openLabel: 'Compare',
+    filters: { 'Sandbox Profiles': ['sb', 'sbpl'], 'All Files': ['*'] },
+  }) ?? [];
+  return file ? loadVersion(file) : undefined;
+}
+
+async function loadVersion(uri: vscode.Uri): Promise<ProfileVersion | undefined> {
+  try {
+    const document = await vscode.workspace.openTextDocument(uri);
+    return versionOf(vscode.workspace.asRelativePath(uri), document.getText(), uri);
+  } catch {
+    vscode.window.showErrorMessage(`Cannot read ${vscode.workspace.asRelativePath(uri)}.`);
+    return undefined;
+  }
+}
+
+/** Parses a version, resolving its imports as if it were at `location`. */
+function versionOf(label: string, text: string, location: vscode.Uri): ProfileVersion {
+  const { profile } = parse(text);
+  const filePath = location.scheme === 'file' ? location.fsPath : undefined;
+  const { definitions } = resolveImports(profile, filePath, getImportOptions(location));
+  return { label, profile, imported: buildDefinitionTable(definitions.map((entry) => entry.definition)) };
+}
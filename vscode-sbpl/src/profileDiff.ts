@@ -0,0 +1,296 @@
+import { defineToString, filterToString, type Filter, type Profile, type SandboxAction } from './ast.js';
+import {
+  buildDefinitionTable,
+  expandFilter,
+  filterCovers,
+  ruleFilter,
+  ruleOperationNames,
+  rulesInEvaluationOrder,
+  type DefinitionTable,
+} from './filters.js';
+import { operationsOverlap } from './operations.js';
+
+/**
+ * Semantic diff of two versions of a profile.
+ *
+ * Access is compared per operation name written in either version. For each
+ * name, the last unfiltered rule covering it sets its baseline, falling back
+ * to `default` rules wherever they appear, and the filtered rules after it
+ * carve exceptions out of that baseline, or out of an earlier exception: a
+ * deny after a broader allow is kept even though the baseline already denies.
+ * Filters are expanded through each version's own definitions, so a `define`
+ * that changed is compared by what it matches, not by its name.
+ */
+
+export type ProfileChangeKind =
+  | 'gained'
+  | 'lost'
+  | 'broadened'
+  | 'narrowed'
+  | 'import-added'
+  | 'import-removed'
+  | 'define-added'
+  | 'define-removed'
+  | 'define-changed'
+  | 'debug-changed'
+  | 'version-changed';
+
+export interface ProfileChange {
+  kind: ProfileChangeKind;
+  /** The operation, import path or definition name that changed. */
+  subject: string;
+  detail: string;
+  /** Whether the new version allows something the old one did not. */
+  broadening: boolean;
+  /** Whether the subject is an operation where extra access is a security risk. */
+  securityRelevant: boolean;
+}
+
+/** Operations where new access deserves a reviewer's attention first. */
+const SECURITY_RELEVANT_OPERATIONS = [
+  'default',
+  'process-exec*',
+  'process-fork',
+  'network-outbound',
+  'network-inbound',
+  'network-bind',
+  'file-write*',
+  'mach-priv*',
+  'iokit-open*',
+  'system-privilege',
+];
+
+/** Access to one operation name. */
+interface Access {
+  /** Decision of the last unfiltered rule covering the operation, or of `default`; unmatched accesses are allowed. */
+  baseline: SandboxAction;
+  /** Filters of later rules that allow what the baseline or an earlier exception denies. */
+  allow: Filter[];
+  /** Filters of later rules that deny what the baseline or an earlier exception allows. */
+  deny: Filter[];
+}
+
+const NO_DEFINITIONS: DefinitionTable = new Map();
+
+/**
+ * Compares two versions of a profile. Security-relevant broadenings come
+ * first, then other broadenings, narrowings, and the remaining changes.
+ *
+ * @param beforeImported Definitions visible to `before` through imports.
+ * @param afterImported Definitions visible to `after` through imports.
+ */
+export function diffProfiles(
+  before: Profile,
+  after: Profile,
+  beforeImported: DefinitionTable = new Map(),
+  afterImported: DefinitionTable = new Map()
+): ProfileChange[] {
+  const beforeDefinitions = buildDefinitionTable([...before.definitions, ...beforeImported.values()]);
+  const afterDefinitions = buildDefinitionTable([...after.definitions, ...afterImported.values()]);
+
+  const changes: ProfileChange[] = [];
+  const operations = new Set([
+    ...operationNames(before, beforeDefinitions),
+    ...operationNames(after, afterDefinitions),
+  ]);
+  for (const operation of operations) {
+    const change = diffAccess(
+      operation,
+      accessTo(operation, before, beforeDefinitions),
+      accessTo(operation, after, afterDefinitions)
+    );
+    if (change) {
+      changes.push(change);
+    }
+  }
+
+  changes.push(...diffDeclarations(before, after));
+
+  const rank = (change: ProfileChange): number =>
+    change.broadening ? (change.securityRelevant ? 0 : 1) : change.kind === 'lost' || change.kind === 'narrowed' ? 2 : 3;
+  return changes
+    .map((change, index) => ({ change, index }))
+    .sort((a, b) => rank(a.change) - rank(b.change) || a.index - b.index)
+    .map(({ change }) => change);
+}
+
+function operationNames(profile: Profile, definitions: DefinitionTable): string[] {
+  return profile.rules.flatMap((rule) => ruleOperationNames(rule, definitions));
+}
+
+function accessTo(operation: string, profile: Profile, definitions: DefinitionTable): Access {
+  const access: Access = { baseline: 'allow', allow: [], deny: [] };
+
+  for (const rule of rulesInEvaluationOrder(profile.rules, operation, definitions, (entry) => entry)) {
+    const filter = ruleFilter(rule, definitions);
+    if (!filter) {
+      access.baseline = rule.action;
+      access.allow = [];
+      access.deny = [];
+    } else if (rule.action !== access.baseline || access[opposite(rule.action)].length > 0) {
+      access[rule.action].push(...alternatives(expandFilter(filter, definitions)));
+    }
+  }
+
+  return access;
+}
+
+function opposite(action: SandboxAction): SandboxAction {
+  return action === 'allow' ? 'deny' : 'allow';
+}
+
+/** Splits `require-any` into its alternatives, which are compared one by one. */
+function alternatives(filter: Filter): Filter[] {
+  return filter.kind === 'compound' && filter.type === 'require-any' ? filter.filters.flatMap(alternatives) : [filter];
+}
+
+/** Filters of `a` that no filter of `b` covers. */
+function uncovered(a: Filter[], b: Filter[]): Filter[] {
+  const seen = new Set<string>();
+  return a.filter((filter) => {
+    const text = filterToString(filter);
+    if (seen.has(text) || b.some((other) => filterCovers(other, filter, NO_DEFINITIONS))) {
+      return false;
+    }
+    seen.add(text);
+    return true;
+  });
+}
+
+function diffAccess(operation: string, before: Access, after: Access): ProfileChange | undefined {
+  const securityRelevant = SECURITY_RELEVANT_OPERATIONS.some((pattern) => operationsOverlap(pattern, operation));
+  const change = (kind: ProfileChangeKind, detail: string): ProfileChange => ({
+    kind,
+    subject: operation,
+    detail,
+    broadening: kind === 'gained' || kind === 'broadened',
+    securityRelevant,
+  });
+  const list = (filters: Filter[]): string => filters.map(filterToString).join(', ');
+
+  if (before.baseline !== after.baseline) {
+    if (after.baseline === 'allow') {
+      const kind = before.allow.length === 0 ? 'gained' : 'broadened';
+      return change(kind, after.deny.length > 0 ? `now allowed except ${list(after.deny)}` : 'now allowed');
+    }
+    const kind = before.deny.length === 0 ? 'lost' : 'narrowed';
+    return change(kind, after.allow.length > 0 ? `now denied except ${list(after.allow)}` : 'now denied');
+  }
+
+  // Same baseline: compare the exceptions
+  const added = { allow: uncovered(after.allow, before.allow), deny: uncovered(after.deny, before.deny) };
+  const removed = { allow: uncovered(before.allow, after.allow), deny: uncovered(before.deny, after.deny) };
+  const parts = [
+    ['newly allowed', added.allow],
+    ['no longer allowed', removed.allow],
+    ['no longer denied', removed.deny],
+    ['newly denied', added.deny],
+  ] as const;
+  const detail = parts.filter(([, filters]) => filters.length > 0).map(([label, filters]) => `${label}: ${list(filters)}`);
+  if (detail.length === 0) {
+    return undefined;
+  }
+
+  if (after.baseline === 'deny' && before.allow.length === 0) {
+    return change('gained', detail.join('; '));
+  }
+  if (after.baseline === 'deny' && after.allow.length === 0) {
+    return change('lost', detail.join('; '));
+  }
+  const broadening = added.allow.length > 0 || removed.deny.length > 0;
+  return change(broadening ? 'broadened' : 'narrowed', detail.join('; '));
+}
+
+function diffDeclarations(before: Profile, after: Profile): ProfileChange[] {
+  const changes: ProfileChange[] = [];
+  const note = (kind: ProfileChangeKind, subject: string, detail: string): void => {
+    changes.push({ kind, subject, detail, broadening: false, securityRelevant: false });
+  };
+
+  const beforeDebug = before.debugMode?.action;
+  const afterDebug = after.debugMode?.action;
+  if (beforeDebug !== afterDebug) {
+    note('debug-changed', 'debug', `${beforeDebug ? `(debug ${beforeDebug})` : 'none'} → ${afterDebug ? `(debug ${afterDebug})` : 'none'}`);
+  }
+  const beforeVersion = before.version?.version;
+  const afterVersion = after.version?.version;
+  if (beforeVersion !== afterVersion) {
+    note('version-changed', 'version', `${beforeVersion ?? 'none'} → ${afterVersion ?? 'none'}`);
+  }
+
+  const beforeImports = new Set(before.imports.map((decl) => decl.path));
+  const afterImports = new Set(after.imports.map((decl) => decl.path));
+  for (const path of afterImports) {
+    if (!beforeImports.has(path)) {
+      note('import-added', path, 'imported rules are not compared');
+    }
+  }
+  for (const path of beforeImports) {
+    if (!afterImports.has(path)) {
+      note('import-removed', path, 'imported rules are not compared');
+    }
+  }
+
+  const beforeDefines = buildDefinitionTable(before.definitions);
+  const afterDefines = buildDefinitionTable(after.definitions);
+  for (const [name, definition] of afterDefines) {
+    const previous = beforeDefines.get(name);
+    if (!previous) {
+      note('define-added', name, defineToString(definition));
+    } else if (defineToString(previous) !== defineToString(definition)) {
+      note('define-changed', name, `${defineToString(previous)} → ${defineToString(definition)}`);
+    }
+  }
+  for (const [name, definition] of beforeDefines) {
+    if (!afterDefines.has(name)) {
+      note('define-removed', name, defineToString(definition));
+    }
+  }
+
+  return changes;
+}
+
+const HEADINGS: Record<ProfileChangeKind, string> = {
+  'gained': 'Gained access',
+  'broadened': 'Broadened',
+  'lost': 'Lost access',
+  'narrowed': 'Narrowed',
+  'import-added': 'Import added',
+  'import-removed': 'Import removed',
+  'define-added': 'Definition added',
+  'define-removed': 'Definition removed',
+  'define-changed': 'Definition changed',
+  'debug-changed': 'Debug mode changed',
+  'version-changed': 'Version changed',
+};
+
+/** Renders changes as a Markdown report. */
+export function renderDiffMarkdown(changes: ProfileChange[], beforeLabel: string, afterLabel: string): string {
+  const lines = [`# Profile changes: ${beforeLabel} → ${afterLabel}`, ''];
+  if (changes.length === 0) {
+    lines.push('No changes in access, imports, definitions or debug mode.');
+    return lines.join('\n') + '\n';
+  }
+
+  const sections: Array<[string, ProfileChange[]]> = [
+    ['Security-relevant broadenings', changes.filter((change) => change.broadening && change.securityRelevant)],
+    ['Broadenings', changes.filter((change) => change.broadening && !change.securityRelevant)],
+    ['Narrowings', changes.filter((change) => change.kind === 'lost' || change.kind === 'narrowed')],
+    ['Declarations', changes.filter((change) => !['gained', 'broadened', 'lost', 'narrowed'].includes(change.kind))],
+  ];
+  for (const [title, entries] of sections) {
+    if (entries.length === 0) {
+      continue;
+    }
+    lines.push(`## ${title}`, '');
+    for (const change of entries) {
+      lines.push(`- **${HEADINGS[change.kind]}** \`${change.subject}\`: ${escapeMarkdown(change.detail)}`);
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>])/g, '\\$1');
+}
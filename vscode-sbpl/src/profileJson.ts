@@ -0,0 +1,362 @@
+import type { Expr, Filter, Profile, Rule } from './ast.js';
+import { formatText, type FormatOptions } from './formatter.js';
+import { isSymbolName } from './lexer.js';
+
+/**
+ * JSON representation of profiles. Mirrors `ProfileJSON` from SBPLConverter,
+ * so files round-trip with `sbpl-convert to-json`.
+ *
+ * Expressions are JSON values: numbers, booleans, arrays for lists, and
+ * strings for symbols. String literals keep their double quotes inside the
+ * JSON string (`"\"/usr\""`) to tell them apart from symbols.
+ *
+ * Two optional fields go beyond the Swift schema so conversion is lossless:
+ * `parameters` on function definitions and `arguments` on filters with more
+ * than one argument. The Swift decoder ignores them.
+ */
+
+export interface ProfileJSON {
+  version?: number;
+  debugMode?: string;
+  imports?: string[];
+  definitions?: DefinitionJSON[];
+  rules?: RuleJSON[];
+}
+
+export interface DefinitionJSON {
+  name: string;
+  /** Parameter names of the function form `(define (name args...) body)`. */
+  parameters?: string[];
+  value: ExpressionJSON;
+}
+
+export interface RuleJSON {
+  action: string;
+  operations: string[];
+  filters?: FilterJSON[];
+}
+
+export interface FilterJSON {
+  /** A filter name, `require-all`, `require-any`, `require-not`, or `expression` for a bare expression. */
+  type: string;
+  /** The first argument of a simple filter, or the expression itself. */
+  value?: ExpressionJSON;
+  /** Arguments after `value`, as in `(remote tcp "*:443")`. */
+  arguments?: ExpressionJSON[];
+  /** Sub-filters of compound and negated filters. */
+  filters?: FilterJSON[];
+}
+
+export type ExpressionJSON = number | boolean | string | ExpressionJSON[];
+
+/** Converts a parsed profile to its JSON representation. */
+export function profileToJson(profile: Profile): ProfileJSON {
+  const json: ProfileJSON = {};
+
+  if (profile.version) {
+    json.version = profile.version.version;
+  }
+  if (profile.debugMode) {
+    json.debugMode = profile.debugMode.action;
+  }
+  if (profile.imports.length > 0) {
+    json.imports = profile.imports.map((decl) => decl.path);
+  }
+  if (profile.definitions.length > 0) {
+    json.definitions = profile.definitions.map((definition) => {
+      const entry: DefinitionJSON = { name: definition.name, value: exprToJson(definition.value) };
+      if (definition.isFunction) {
+        entry.parameters = definition.parameters;
+      }
+      return entry;
+    });
+  }
+  if (profile.rules.length > 0) {
+    json.rules = profile.rules.map(ruleToJson);
+  }
+
+  return json;
+}
+
+function ruleToJson(rule: Rule): RuleJSON {
+  const json: RuleJSON = { action: rule.action, operations: rule.operations.map((op) => op.name) };
+  if (rule.filters.length > 0) {
+    json.filters = rule.filters.map(filterToJson);
+  }
+  return json;
+}
+
+function filterToJson(filter: Filter): FilterJSON {
+  switch (filter.kind) {
+    case 'simple': {
+      const json: FilterJSON = { type: filter.type, value: exprToJson(filter.value) };
+      if (filter.args.length > 1) {
+        json.arguments = filter.args.slice(1).map(exprToJson);
+      }
+      return json;
+    }
+    case 'compound':
+      return { type: filter.type, filters: filter.filters.map(filterToJson) };
+    case 'not':
+      return { type: 'require-not', filters: [filterToJson(filter.filter)] };
+    case 'expression':
+      return { type: 'expression', value: exprToJson(filter.expr) };
+  }
+}
+
+function exprToJson(expr: Expr): ExpressionJSON {
+  switch (expr.kind) {
+    case 'integer':
+    case 'boolean':
+      return expr.value;
+    case 'string':
+    case 'rawString':
+      return `"${expr.value}"`;
+    case 'symbol':
+      return expr.name;
+    case 'list':
+      return expr.elements.map(exprToJson);
+  }
+}
+
+/**
+ * Converts the JSON representation back to SBPL source, laid out by the
+ * formatter. Sections are separated by blank lines, as `sbpl-convert` does.
+ */
+export function jsonToSbpl(json: ProfileJSON, options: Partial<FormatOptions> = {}): string {
+  const sections: string[][] = [];
+
+  if (json.version !== undefined) {
+    sections.push([`(version ${json.version})`]);
+  }
+  if (json.debugMode !== undefined) {
+    sections.push([`(debug ${json.debugMode})`]);
+  }
+  if (json.imports?.length) {
+    sections.push(json.imports.map((path) => `(import ${quote(path)})`));
+  }
+  if (json.definitions?.length) {
+    sections.push(json.definitions.map((definition) => {
+      const head = definition.parameters
+        ? `(${[definition.name, ...definition.parameters].join(' ')})`
+        : definition.name;
+      return `(define ${head} ${jsonToExpr(definition.value)})`;
+    }));
+  }
+  if (json.rules?.length) {
+    sections.push(json.rules.map((rule) =>
+      `(${[rule.action, ...rule.operations, ...(rule.filters ?? []).map(jsonToFilter)].join(' ')})`
+    ));
+  }
+
+  const text = sections.map((lines) => lines.join('\n')).join('\n\n') + '\n';
+  return formatText(text, options) ?? text;
+}
+
+function jsonToFilter(filter: FilterJSON): string {
+  if (filter.type === 'expression' && filter.value !== undefined) {
+    return jsonToExpr(filter.value);
+  }
+  const parts = [filter.type];
+  if (filter.value !== undefined) {
+    parts.push(jsonToExpr(filter.value), ...(filter.arguments ?? []).map(jsonToExpr));
+  }
+  parts.push(...(filter.filters ?? []).map(jsonToFilter));
+  return `(${parts.join(' ')})`;
+}
+
+function jsonToExpr(expr: ExpressionJSON): string {
+  if (typeof expr === 'number') {
+    return String(expr);
+  }
+  if (typeof expr === 'boolean') {
+    return expr ? '#t' : '#f';
+  }
+  if (Array.isArray(expr)) {
+    return `(${expr.map(jsonToExpr).join(' ')})`;
+  }
+  return expr.startsWith('"') && expr.endsWith('"') && expr.length >= 2 ? quote(expr.slice(1, -1)) : expr;
+}
+
+function quote(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+  return `"${escaped}"`;
+}
+
+/** The result of reading profile JSON text. */
+export interface ProfileJSONParseResult {
+  profile?: ProfileJSON;
+  /** Problems found, each prefixed with the JSON path it concerns. */
+  errors: string[];
+}
+
+/** Parses and checks profile JSON text against the `ProfileJSON` schema. */
+export function parseProfileJson(text: string): ProfileJSONParseResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return { errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const errors: string[] = [];
+  checkProfile(value, errors);
+  return errors.length === 0 ? { profile: value as ProfileJSON, errors } : { errors };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+function checkProfile(value: unknown, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push('(root): expected an object');
+    return;
+  }
+  if (value.version !== undefined && !Number.isInteger(value.version)) {
+    errors.push('version: expected an integer');
+  }
+  if (value.debugMode !== undefined && value.debugMode !== 'allow' && value.debugMode !== 'deny') {
+    errors.push('debugMode: expected "allow" or "deny"');
+  }
+  if (value.imports !== undefined && !isStringArray(value.imports)) {
+    errors.push('imports: expected an array of strings');
+  }
+
+  if (value.definitions !== undefined) {
+    if (!Array.isArray(value.definitions)) {
+      errors.push('definitions: expected an array');
+    } else {
+      value.definitions.forEach((definition, index) => checkDefinition(definition, `definitions[${index}]`, errors));
+    }
+  }
+
+  if (value.rules !== undefined) {
+    if (!Array.isArray(value.rules)) {
+      errors.push('rules: expected an array');
+    } else {
+      value.rules.forEach((rule, index) => checkRule(rule, `rules[${index}]`, errors));
+    }
+  }
+}
+
+function checkDefinition(value: unknown, path: string, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+  if (typeof value.name !== 'string' || value.name.length === 0) {
+    errors.push(`${path}.name: expected a non-empty string`);
+  } else {
+    checkSymbol(value.name, `${path}.name`, errors);
+  }
+  if (value.parameters !== undefined && !isStringArray(value.parameters)) {
+    errors.push(`${path}.parameters: expected an array of strings`);
+  } else {
+    value.parameters?.forEach((name, index) => checkSymbol(name, `${path}.parameters[${index}]`, errors));
+  }
+  checkExpression(value.value, `${path}.value`, errors);
+}
+
+function checkRule(value: unknown, path: string, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+  if (value.action !== 'allow' && value.action !== 'deny') {
+    errors.push(`${path}.action: expected "allow" or "deny"`);
+  }
+  if (!isStringArray(value.operations) || value.operations.length === 0) {
+    errors.push(`${path}.operations: expected a non-empty array of strings`);
+  } else {
+    value.operations.forEach((name, index) => checkSymbol(name, `${path}.operations[${index}]`, errors));
+  }
+  checkFilters(value.filters, `${path}.filters`, errors);
+}
+
+function checkFilters(value: unknown, path: string, errors: string[]): void {
+  if (value === undefined) {
+    return;
+  }
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected an array`);
+    return;
+  }
+  value.forEach((filter, index) => checkFilter(filter, `${path}[${index}]`, errors));
+}
+
+function checkFilter(value: unknown, path: string, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+  if (typeof value.type !== 'string' || value.type.length === 0) {
+    errors.push(`${path}.type: expected a non-empty string`);
+    return;
+  }
+
+  switch (value.type) {
+    case 'require-all':
+    case 'require-any':
+      if (!Array.isArray(value.filters) || value.filters.length === 0) {
+        errors.push(`${path}.filters: ${value.type} needs at least one filter`);
+      }
+      checkFilters(value.filters, `${path}.filters`, errors);
+      break;
+    case 'require-not':
+      if (!Array.isArray(value.filters) || value.filters.length !== 1) {
+        errors.push(`${path}.filters: require-not needs exactly one filter`);
+      }
+      checkFilters(value.filters, `${path}.filters`, errors);
+      break;
+    case 'expression':
+      checkExpression(value.value, `${path}.value`, errors);
+      break;
+    default:
+      checkSymbol(value.type, `${path}.type`, errors);
+      // Arguments follow the value, so a filter without a value has no arguments either
+      if (value.value === undefined) {
+        errors.push(`${path}.value: ${value.type} needs a value`);
+      } else {
+        checkExpression(value.value, `${path}.value`, errors);
+      }
+      if (value.arguments !== undefined) {
+        if (!Array.isArray(value.arguments)) {
+          errors.push(`${path}.arguments: expected an array`);
+        } else {
+          value.arguments.forEach((arg, index) => checkExpression(arg, `${path}.arguments[${index}]`, errors));
+        }
+      }
+  }
+}
+
+function checkExpression(value: unknown, path: string, errors: string[]): void {
+  if (typeof value === 'string') {
+    // Strings without quotes are symbols
+    if (!(value.length >= 2 && value.startsWith('"') && value.endsWith('"'))) {
+      checkSymbol(value, path, errors);
+    }
+    return;
+  }
+  if (typeof value === 'boolean' || Number.isInteger(value)) {
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((element, index) => checkExpression(element, `${path}[${index}]`, errors));
+    return;
+  }
+  errors.push(`${path}: expected an integer, boolean, string or array`);
+}
+
+function checkSymbol(name: string, path: string, errors: string[]): void {
+  if (!isSymbolName(name)) {
+    errors.push(`${path}: ${JSON.stringify(name)} is not a valid symbol`);
+  }
+}
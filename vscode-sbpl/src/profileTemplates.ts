@@ -0,0 +1,455 @@
+import { FILTERS, OPERATIONS } from './catalog.js';
+import { formatText } from './formatter.js';
+
+/**
+ * New profiles built from a posture, imports and capability groups, and the
+ * capabilities an app's entitlements call for.
+ *
+ * Rules are annotated with the catalog descriptions of their operations and
+ * filters, so a generated profile explains itself.
+ */
+
+/** An `allow` rule; filters are SBPL source, such as `(subpath "/usr/lib")`. */
+export interface TemplateRule {
+  operations: string[];
+  filters: string[];
+}
+
+/** A group of rules that grants one capability. */
+export interface Capability {
+  id: string;
+  label: string;
+  description: string;
+  /** Boolean entitlements that grant the same capability to an App Sandbox app. */
+  entitlements: string[];
+  rules: TemplateRule[];
+}
+
+/** A file the `temporary-exception.files` entitlements open up. */
+export interface FileException {
+  /** Absolute, or relative to the home directory; a trailing `/` makes it a directory. */
+  path: string;
+  relativeToHome: boolean;
+  write: boolean;
+}
+
+/** The choices a new profile is built from. */
+export interface ProfileTemplate {
+  /** `(deny default)` rather than `(allow default)`. */
+  denyDefault: boolean;
+  debug?: 'allow' | 'deny';
+  imports: string[];
+  /** Ids of `CAPABILITIES` entries. */
+  capabilities: string[];
+  /** Global names for the `mach-services` capability. */
+  machServices: string[];
+  fileExceptions: FileException[];
+  /** The entitlements file the template was derived from, named in the header. */
+  entitlementsFile?: string;
+  /** Entitlements without matching rules, listed in the header. */
+  unmatchedEntitlements: string[];
+}
+
+/** The capabilities derived from a set of entitlements. */
+export type EntitlementRules = Pick<ProfileTemplate, 'capabilities' | 'machServices' | 'fileExceptions' | 'unmatchedEntitlements'>;
+
+/** Profiles commonly imported from `/System/Library/Sandbox/Profiles`. */
+export const COMMON_IMPORTS = [
+  { path: 'system.sb', description: 'System libraries, frameworks and services most processes need' },
+  { path: 'bsd.sb', description: 'BSD process and file system basics' },
+];
+
+/** The capability whose rules are built from `ProfileTemplate.machServices`. */
+export const MACH_SERVICES = 'mach-services';
+
+export const CAPABILITIES: Capability[] = [
+  {
+    id: 'system-libraries',
+    label: 'System libraries',
+    description: 'Load system libraries and frameworks and read system settings',
+    entitlements: [],
+    rules: [
+      { operations: ['file-read*'], filters: ['(subpath "/usr/lib")', '(subpath "/System/Library")'] },
+      { operations: ['file-read-metadata'], filters: [] },
+      { operations: ['sysctl-read'], filters: [] },
+    ],
+  },
+  {
+    id: 'network-client',
+    label: 'Network client',
+    description: 'Outgoing HTTP and HTTPS connections and DNS lookups',
+    entitlements: ['com.apple.security.network.client'],
+    rules: [
+      { operations: ['network-outbound'], filters: ['(remote tcp "*:80")', '(remote tcp "*:443")', '(remote udp "*:53")'] },
+      { operations: ['mach-lookup'], filters: ['(global-name "com.apple.dnssd.service")'] },
+    ],
+  },
+  {
+    id: 'network-server',
+    label: 'Network server',
+    description: 'Listen for incoming TCP connections',
+    entitlements: ['com.apple.security.network.server'],
+    rules: [
+      { operations: ['network-bind', 'network-inbound'], filters: ['(local tcp "*:*")'] },
+    ],
+  },
+  {
+    id: 'user-selected-read',
+    label: 'User-selected files (read-only)',
+    description: 'Read files the user picks in an open panel',
+    entitlements: ['com.apple.security.files.user-selected.read-only'],
+    rules: [
+      { operations: ['file-read*'], filters: ['(extension "com.apple.app-sandbox.read")'] },
+    ],
+  },
+  {
+    id: 'user-selected-read-write',
+    label: 'User-selected files (read-write)',
+    description: 'Read and write files the user picks in an open or save panel',
+    entitlements: ['com.apple.security.files.user-selected.read-write'],
+    rules: [
+      { operations: ['file-read*', 'file-write*'], filters: ['(extension "com.apple.app-sandbox.read-write")'] },
+    ],
+  },
+  {
+    id: 'downloads',
+    label: 'Downloads folder',
+    description: 'Read and write ~/Downloads',
+    entitlements: ['com.apple.security.files.downloads.read-write'],
+    rules: [
+      { operations: ['file-read*', 'file-write*'], filters: ['(home-subpath "/Downloads")'] },
+    ],
+  },
+  {
+    id: 'camera',
+    label: 'Camera',
+    description: 'Capture video from the camera',
+    entitlements: ['com.apple.security.device.camera'],
+    rules: [{ operations: ['device-camera'], filters: [] }],
+  },
+  {
+    id: 'microphone',
+    label: 'Microphone',
+    description: 'Record audio from the microphone',
+    entitlements: ['com.apple.security.device.audio-input', 'com.apple.security.device.microphone'],
+    rules: [{ operations: ['device-microphone'], filters: [] }],
+  },
+  {
+    id: MACH_SERVICES,
+    label: 'Mach services',
+    description: 'Look up named Mach services',
+    entitlements: [],
+    rules: [],
+  },
+  {
+    id: 'temp-directory',
+    label: 'Temporary directory',
+    description: 'Read and write /tmp and the per-user temporary directory',
+    entitlements: [],
+    rules: [
+      { operations: ['file-read*', 'file-write*'], filters: ['(subpath "/private/tmp")', '(subpath "/private/var/folders")'] },
+    ],
+  },
+  {
+    id: 'apple-events',
+    label: 'Apple Events',
+    description: 'Send Apple Events to automate other apps',
+    entitlements: ['com.apple.security.automation.apple-events'],
+    rules: [{ operations: ['appleevent-send'], filters: [] }],
+  },
+];
+
+const APP_SANDBOX = 'com.apple.security.app-sandbox';
+const MACH_LOOKUP_EXCEPTION = 'com.apple.security.temporary-exception.mach-lookup.global-name';
+const FILE_EXCEPTION = /^com\.apple\.security\.temporary-exception\.files\.(absolute-path|home-relative-path)\.(read-only|read-write)$/;
+
+/** Builds the text of a new profile, laid out by the formatter. */
+export function generateProfile(template: ProfileTemplate): string {
+  const details = new Map<string, string>([
+    ...FILTERS.map((filter): [string, string] => [filter.label, filter.detail]),
+    ...OPERATIONS.map((op): [string, string] => [op.label, op.detail]),
+  ]);
+  const described = new Set<string>();
+  const render = (rule: TemplateRule): string[] => renderRule(rule, details, described);
+  const sections: string[][] = [];
+
+  const header = ['; Sandbox profile generated by SBPL: New Profile'];
+  if (template.entitlementsFile) {
+    header.push(`; Derived from the entitlements in ${template.entitlementsFile}`);
+  }
+  if (template.unmatchedEntitlements.length > 0) {
+    header.push(';', '; No rules were generated for these entitlements:');
+    header.push(...template.unmatchedEntitlements.map((name) => `;   ${name}`));
+  }
+  sections.push([...header, '(version 1)']);
+
+  if (template.debug) {
+    sections.push([
+      template.debug === 'deny' ? '; Log denied operations to the system log' : '; Log allowed operations to the system log',
+      `(debug ${template.debug})`,
+    ]);
+  }
+
+  sections.push(template.denyDefault
+    ? ['; Deny every operation that no rule below allows', '(deny default)']
+    : ['; Allow every operation that no rule below denies', '(allow default)']);
+
+  if (template.imports.length > 0) {
+    sections.push(['; Shared rules from /System/Library/Sandbox/Profiles', ...template.imports.map((path) => `(import ${JSON.stringify(path)})`)]);
+  }
+
+  for (const capability of CAPABILITIES) {
+    if (!template.capabilities.includes(capability.id)) {
+      continue;
+    }
+    const rules = capability.id === MACH_SERVICES ? machServiceRules(template.machServices) : capability.rules;
+    if (rules.length === 0) {
+      continue;
+    }
+    sections.push([
+      `;; ${capability.label}: ${capability.description}`,
+      ...rules.flatMap(render),
+    ]);
+  }
+
+  const exceptions = fileExceptionRules(template.fileExceptions);
+  if (exceptions.length > 0) {
+    sections.push([
+      ';; Temporary exceptions: files named by the temporary-exception entitlements',
+      ...exceptions.flatMap(render),
+    ]);
+  }
+
+  const text = sections.map((lines) => lines.join('\n')).join('\n\n') + '\n';
+  return formatText(text) ?? text;
+}
+
+/** Catalog descriptions of the operations and filters not described yet, then the rule. */
+function renderRule(rule: TemplateRule, details: Map<string, string>, described: Set<string>): string[] {
+  const names = new Set([...rule.operations, ...rule.filters.map((filter) => /^\(([^\s()]+)/.exec(filter)?.[1] ?? '')]);
+  const comments = [...names]
+    .filter((name) => details.has(name) && !described.has(name))
+    .map((name) => {
+      described.add(name);
+      return `; ${name}: ${details.get(name)}`;
+    });
+  return [...comments, `(allow ${[...rule.operations, ...rule.filters].join(' ')})`];
+}
+
+function machServiceRules(services: string[]): TemplateRule[] {
+  if (services.length === 0) {
+    return [];
+  }
+  return [{ operations: ['mach-lookup'], filters: services.map((name) => `(global-name ${JSON.stringify(name)})`) }];
+}
+
+/** One rule for the read-only exceptions and one for the read-write ones. */
+function fileExceptionRules(exceptions: FileException[]): TemplateRule[] {
+  const filter = (exception: FileException): string => {
+    const directory = exception.path.endsWith('/') && exception.path.length > 1;
+    const path = directory ? exception.path.replace(/\/+$/, '') : exception.path;
+    const type = `${exception.relativeToHome ? 'home-' : ''}${directory ? 'subpath' : 'literal'}`;
+    return `(${type} ${JSON.stringify(path)})`;
+  };
+  const readOnly = exceptions.filter((exception) => !exception.write).map(filter);
+  const readWrite = exceptions.filter((exception) => exception.write).map(filter);
+  return [
+    ...(readOnly.length > 0 ? [{ operations: ['file-read*'], filters: readOnly }] : []),
+    ...(readWrite.length > 0 ? [{ operations: ['file-read*', 'file-write*'], filters: readWrite }] : []),
+  ];
+}
+
+/** Maps entitlements to capabilities, Mach services and file exceptions. */
+export function entitlementRules(entitlements: Record<string, PlistValue>): EntitlementRules {
+  const rules: EntitlementRules = { capabilities: [], machServices: [], fileExceptions: [], unmatchedEntitlements: [] };
+  const strings = (value: PlistValue): string[] =>
+    typeof value === 'string' ? [value] : Array.isArray(value) ? value.filter((item) => typeof item === 'string') : [];
+
+  for (const [name, value] of Object.entries(entitlements)) {
+    const capability = CAPABILITIES.find((entry) => entry.entitlements.includes(name));
+    const fileException = FILE_EXCEPTION.exec(name);
+    if (capability) {
+      if (value === true && !rules.capabilities.includes(capability.id)) {
+        rules.capabilities.push(capability.id);
+      }
+    } else if (name === MACH_LOOKUP_EXCEPTION) {
+      rules.machServices.push(...strings(value));
+    } else if (fileException) {
+      const relativeToHome = fileException[1] === 'home-relative-path';
+      const write = fileException[2] === 'read-write';
+      rules.fileExceptions.push(...strings(value).map((path) => ({ path, relativeToHome, write })));
+    } else if (name !== APP_SANDBOX) {
+      rules.unmatchedEntitlements.push(name);
+    }
+  }
+
+  if (rules.machServices.length > 0) {
+    rules.capabilities.push(MACH_SERVICES);
+  }
+  return rules;
+}
+
+/** A value of an XML property list. */
+export type PlistValue = string | number | boolean | PlistValue[] | { [key: string]: PlistValue };
+
+/** The result of reading an entitlements file. */
+export interface EntitlementsParseResult {
+  entitlements?: Record<string, PlistValue>;
+  errors: string[];
+}
+
+interface PlistToken {
+  /** Tag name, or `undefined` for the text between tags. */
+  tag?: string;
+  closing: boolean;
+  empty: boolean;
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/** Parses an entitlements file, an XML property list whose root is a `<dict>`. */
+export function parseEntitlements(text: string): EntitlementsParseResult {
+  const tokens = tokenizePlist(text);
+  const start = tokens.findIndex((token) => token.tag && token.tag !== 'plist');
+  if (start < 0 || tokens[start].tag !== 'dict' || tokens[start].closing) {
+    return { errors: ['Expected an XML property list with a <dict> at its root'] };
+  }
+  try {
+    const parser = new PlistParser(tokens, start);
+    const value = parser.value();
+    return { entitlements: value as Record<string, PlistValue>, errors: [] };
+  } catch (error) {
+    return { errors: [error instanceof Error ? error.message : String(error)] };
+  }
+}
+
+/** Splits XML into tags and the text between them, dropping the prolog, doctype and comments. */
+function tokenizePlist(text: string): PlistToken[] {
+  const tokens: PlistToken[] = [];
+  const pattern = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([A-Za-z][\w.-]*)[^>]*?(\/?)>|([^<]+)/g;
+  for (const match of text.matchAll(pattern)) {
+    if (match[2]) {
+      tokens.push({ tag: match[2], closing: match[1] === '/', empty: match[3] === '/', text: match[0] });
+    } else if (match[4]) {
+      tokens.push({ closing: false, empty: false, text: decodeEntities(match[4]) });
+    }
+  }
+  return tokens;
+}
+
+/** Decodes character references and the predefined entities, keeping references past the last code point. */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      const code = name.startsWith('#x') ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name] ?? entity;
+  });
+}
+
+class PlistParser {
+  constructor(private readonly tokens: PlistToken[], private index: number) {}
+
+  value(): PlistValue {
+    const token = this.nextTag();
+    if (token.closing) {
+      throw new Error(`Unexpected ${token.text}`);
+    }
+    switch (token.tag) {
+      case 'true':
+      case 'false':
+        if (!token.empty) {
+          this.close(token.tag);
+        }
+        return token.tag === 'true';
+      case 'string':
+      case 'date':
+      case 'data':
+        return token.empty ? '' : this.text(token.tag);
+      case 'integer':
+      case 'real': {
+        const text = this.text(token.tag).trim();
+        const number = Number(text);
+        if (text === '' || Number.isNaN(number)) {
+          throw new Error(`Expected a number in <${token.tag}>, found '${text}'`);
+        }
+        return number;
+      }
+      case 'array':
+        return token.empty ? [] : this.array();
+      case 'dict':
+        return token.empty ? {} : this.dict();
+      default:
+        throw new Error(`Unsupported property list element <${token.tag}>`);
+    }
+  }
+
+  private array(): PlistValue[] {
+    const items: PlistValue[] = [];
+    while (!this.atClose('array')) {
+      items.push(this.value());
+    }
+    this.close('array');
+    return items;
+  }
+
+  private dict(): Record<string, PlistValue> {
+    const entries: Record<string, PlistValue> = {};
+    while (!this.atClose('dict')) {
+      const key = this.nextTag();
+      if (key.tag !== 'key' || key.closing) {
+        throw new Error(`Expected <key> in <dict>, found ${key.text}`);
+      }
+      const name = key.empty ? '' : this.text('key');
+      entries[name] = this.value();
+    }
+    this.close('dict');
+    return entries;
+  }
+
+  /** The text up to the closing tag, which is consumed. */
+  private text(tag: string): string {
+    let text = '';
+    while (this.index < this.tokens.length && !this.tokens[this.index].tag) {
+      text += this.tokens[this.index++].text;
+    }
+    this.close(tag);
+    return text;
+  }
+
+  private atClose(tag: string): boolean {
+    this.skipWhitespace();
+    const token = this.tokens[this.index];
+    if (!token) {
+      throw new Error(`Unexpected end of file in <${tag}>`);
+    }
+    return token.tag === tag && token.closing;
+  }
+
+  private close(tag: string): void {
+    const token = this.nextTag();
+    if (token.tag !== tag || !token.closing) {
+      throw new Error(`Expected </${tag}>, found ${token.text}`);
+    }
+  }
+
+  private nextTag(): PlistToken {
+    this.skipWhitespace();
+    const token = this.tokens[this.index++];
+    if (!token) {
+      throw new Error('Unexpected end of file');
+    }
+    if (!token.tag) {
+      throw new Error(`Unexpected text '${token.text.trim()}'`);
+    }
+    return token;
+  }
+
+  private skipWhitespace(): void {
+    while (this.index < this.tokens.length && !this.tokens[this.index].tag && !this.tokens[this.index].text.trim()) {
+      this.index++;
+    }
+  }
+}
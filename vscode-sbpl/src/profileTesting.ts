@@ -0,0 +1,175 @@
+import * as vscode from 'vscode';
+import { toRange } from './convert.js';
+import { buildDefinitionTable } from './filters.js';
+import { getImportOptions } from './importPaths.js';
+import { resolveImports } from './imports.js';
+import { parse } from './parser.js';
+import {
+  isProfileTestFile,
+  parseProfileTests,
+  profilePathFor,
+  runProfileTests,
+  testCaseLabel,
+  type LocatedTestCase,
+} from './profileTests.js';
+
+const TEST_FILE_GLOB = '**/*.{sb,sbpl}.test.json';
+
+/**
+ * Profile test files in the Test Explorer.
+ *
+ * Each `*.sb.test.json` file is a test item whose children are its cases.
+ * Cases live in the profile they test: after a run, a case's range is the
+ * rule that decided it, so pass/fail markers show in the profile's gutter.
+ */
+export class SBPLTestController implements vscode.Disposable {
+  private readonly controller = vscode.tests.createTestController('sbpl', 'SBPL Profile Tests');
+  private readonly cases = new WeakMap<vscode.TestItem, LocatedTestCase>();
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this.controller.resolveHandler = async (item) => {
+      if (!item) {
+        await this.discover();
+      }
+    };
+    this.controller.createRunProfile(
+      'Run',
+      vscode.TestRunProfileKind.Run,
+      (request, token) => this.run(request, token),
+      true
+    );
+
+    const watcher = vscode.workspace.createFileSystemWatcher(TEST_FILE_GLOB);
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate((uri) => this.load(uri)),
+      watcher.onDidChange((uri) => this.load(uri)),
+      watcher.onDidDelete((uri) => this.controller.items.delete(uri.toString())),
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        if (event.document.uri.scheme === 'file' && isProfileTestFile(event.document.uri.fsPath)) {
+          void this.load(event.document.uri);
+        }
+      })
+    );
+  }
+
+  private async discover(): Promise<void> {
+    const files = await vscode.workspace.findFiles(TEST_FILE_GLOB, '**/node_modules/**');
+    await Promise.all(files.map((uri) => this.load(uri)));
+  }
+
+  /** (Re)loads the cases of a test file. */
+  private async load(uri: vscode.Uri): Promise<vscode.TestItem | undefined> {
+    const text = await readText(uri);
+    if (text === undefined) {
+      this.controller.items.delete(uri.toString());
+      return undefined;
+    }
+
+    let file = this.controller.items.get(uri.toString());
+    if (!file) {
+      file = this.controller.createTestItem(uri.toString(), vscode.workspace.asRelativePath(uri), uri);
+      this.controller.items.add(file);
+    }
+
+    const { cases, errors } = parseProfileTests(text);
+    file.error = errors.length > 0 ? errors.join('\n') : undefined;
+
+    const profileUri = vscode.Uri.file(profilePathFor(uri.fsPath));
+    file.children.replace(cases.map((entry, index) => {
+      const item = this.controller.createTestItem(`${uri.toString()}#${index}`, testCaseLabel(entry.testCase), profileUri);
+      this.cases.set(item, entry);
+      return item;
+    }));
+    return file;
+  }
+
+  private async run(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+    const run = this.controller.createTestRun(request);
+    const excluded = new Set(request.exclude ?? []);
+
+    // Group the requested cases by test file, reloading whole files
+    const groups = new Map<vscode.TestItem, vscode.TestItem[]>();
+    const requested = request.include ?? [...collect(this.controller.items)];
+    for (const item of requested) {
+      if (this.cases.has(item)) {
+        const file = item.parent!;
+        groups.set(file, [...(groups.get(file) ?? []), item]);
+      } else if (item.uri) {
+        const file = await this.load(item.uri);
+        if (file) {
+          groups.set(file, [...collect(file.children)]);
+        }
+      }
+    }
+
+    for (const [file, items] of groups) {
+      if (token.isCancellationRequested) {
+        break;
+      }
+      await this.runFile(run, file, items.filter((item) => !excluded.has(item)));
+    }
+    run.end();
+  }
+
+  private async runFile(run: vscode.TestRun, file: vscode.TestItem, items: vscode.TestItem[]): Promise<void> {
+    const profileUri = vscode.Uri.file(profilePathFor(file.uri!.fsPath));
+    const text = await readText(profileUri);
+    if (text === undefined) {
+      const message = new vscode.TestMessage(`Cannot read the profile ${vscode.workspace.asRelativePath(profileUri)}`);
+      items.forEach((item) => run.errored(item, message));
+      return;
+    }
+
+    const { profile } = parse(text);
+    const { definitions } = resolveImports(profile, profileUri.fsPath, getImportOptions(profileUri));
+    const imported = buildDefinitionTable(definitions.map((entry) => entry.definition));
+
+    for (const item of items) {
+      const entry = this.cases.get(item)!;
+      run.started(item);
+      const [{ testCase, result, passed }] = runProfileTests(profile, [entry.testCase], imported);
+      item.range = result.rule ? toRange(result.rule.range) : undefined;
+
+      if (passed) {
+        run.passed(item);
+        continue;
+      }
+      const decidedBy = result.rule ? `the rule on line ${result.rule.range.start.line + 1}` : 'no matching rule';
+      const message = vscode.TestMessage.diff(
+        `Expected ${testCase.expect}, got ${result.decision} by ${decidedBy}`,
+        testCase.expect,
+        result.decision
+      );
+      message.location = result.rule
+        ? new vscode.Location(profileUri, toRange(result.rule.range))
+        : new vscode.Location(file.uri!, toRange(entry.range));
+      run.failed(item, message);
+    }
+  }
+
+  dispose(): void {
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.controller.dispose();
+  }
+}
+
+function* collect(items: vscode.TestItemCollection): Iterable<vscode.TestItem> {
+  for (const [, item] of items) {
+    yield item;
+  }
+}
+
+/** Reads a file from its open editor if there is one, so unsaved edits are tested. */
+async function readText(uri: vscode.Uri): Promise<string | undefined> {
+  const open = vscode.workspace.textDocuments.find((document) => document.uri.toString() === uri.toString());
+  if (open) {
+    return open.getText();
+  }
+  try {
+    return new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,192 @@
+import type { Profile, SandboxAction } from './ast.js';
+import { evaluateAccess, type AccessDecision, type AccessQuery } from './evaluator.js';
+import type { DefinitionTable } from './filters.js';
+import { SourceText, type SourceRange } from './source.js';
+
+/**
+ * Profile test files: declarative expectations kept next to a profile.
+ *
+ * `profile.sb.test.json` holds an array of access queries for `profile.sb`,
+ * each with the decision it expects:
+ *
+ *     [
+ *       { "operation": "file-read-data", "path": "/usr/lib/dyld", "expect": "allow" },
+ *       { "operation": "mach-lookup", "globalName": "com.apple.windowserver", "expect": "deny" }
+ *     ]
+ *
+ * Cases are checked with the access evaluator, so they are answered the same
+ * way `SBPL: Test Access` answers them.
+ */
+
+export const PROFILE_TEST_SUFFIX = '.test.json';
+
+/** One expectation from a test file. */
+export interface ProfileTestCase extends AccessQuery {
+  /** Label shown instead of the generated one. */
+  name?: string;
+  expect: SandboxAction;
+}
+
+/** A test case with its location in the test file. */
+export interface LocatedTestCase {
+  testCase: ProfileTestCase;
+  range: SourceRange;
+}
+
+export interface ProfileTestFile {
+  cases: LocatedTestCase[];
+  /** Problems found, each prefixed with the JSON path it concerns. */
+  errors: string[];
+}
+
+export interface ProfileTestResult {
+  testCase: ProfileTestCase;
+  result: AccessDecision;
+  passed: boolean;
+}
+
+const STRING_FIELDS = ['name', 'path', 'homeDirectory', 'globalName', 'localName', 'address', 'iokitClass'] as const;
+const KNOWN_FIELDS = new Set<string>(['operation', 'expect', 'protocol', ...STRING_FIELDS]);
+
+export function isProfileTestFile(filePath: string): boolean {
+  return /\.(sb|sbpl)\.test\.json$/.test(filePath);
+}
+
+/** The profile a test file belongs to: `profile.sb.test.json` tests `profile.sb`. */
+export function profilePathFor(testFilePath: string): string {
+  return testFilePath.slice(0, -PROFILE_TEST_SUFFIX.length);
+}
+
+/** Label of a test case: its `name`, or the access it checks. */
+export function testCaseLabel(testCase: ProfileTestCase): string {
+  if (testCase.name) {
+    return testCase.name;
+  }
+  const argument = testCase.path ?? testCase.globalName ?? testCase.localName ?? testCase.address ?? testCase.iokitClass;
+  return [testCase.expect, testCase.operation, argument].filter(Boolean).join(' ');
+}
+
+/** Parses and checks a test file. Cases with errors are left out. */
+export function parseProfileTests(text: string): ProfileTestFile {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return { cases: [], errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+  if (!Array.isArray(value)) {
+    return { cases: [], errors: ['(root): expected an array of test cases'] };
+  }
+
+  const source = new SourceText(text);
+  const ranges = elementRanges(text);
+  const cases: LocatedTestCase[] = [];
+  const errors: string[] = [];
+
+  value.forEach((item, index) => {
+    const caseErrors = checkTestCase(item, `[${index}]`);
+    if (caseErrors.length > 0) {
+      errors.push(...caseErrors);
+      return;
+    }
+    const [start, end] = ranges[index] ?? [0, 0];
+    cases.push({ testCase: item as ProfileTestCase, range: source.rangeAt(start, end) });
+  });
+
+  return { cases, errors };
+}
+
+function checkTestCase(value: unknown, path: string): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [`${path}: expected an object`];
+  }
+
+  const item = value as Record<string, unknown>;
+  const errors: string[] = [];
+  if (typeof item.operation !== 'string' || item.operation.length === 0) {
+    errors.push(`${path}.operation: expected a non-empty string`);
+  }
+  if (item.expect !== 'allow' && item.expect !== 'deny') {
+    errors.push(`${path}.expect: expected "allow" or "deny"`);
+  }
+  if (item.protocol !== undefined && item.protocol !== 'tcp' && item.protocol !== 'udp') {
+    errors.push(`${path}.protocol: expected "tcp" or "udp"`);
+  }
+  for (const field of STRING_FIELDS) {
+    if (item[field] !== undefined && typeof item[field] !== 'string') {
+      errors.push(`${path}.${field}: expected a string`);
+    }
+  }
+  for (const key of Object.keys(item)) {
+    if (!KNOWN_FIELDS.has(key)) {
+      errors.push(`${path}.${key}: unknown field`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Start and end offsets of the elements of a top-level JSON array, by index.
+ * Only called on text that `JSON.parse` accepted.
+ */
+function elementRanges(text: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  let depth = 0;
+  let index = 0;
+  let start = -1;
+  let end = -1;
+
+  const close = (): void => {
+    if (start >= 0) {
+      ranges[index] = [start, end];
+    }
+    start = -1;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      continue;
+    }
+    if (depth === 1 && ch === ',') {
+      close();
+      index++;
+      continue;
+    }
+    if (depth === 1 && start < 0 && ch !== ']') {
+      start = i;
+    }
+
+    if (ch === '"') {
+      // Skip to the closing quote
+      for (i++; i < text.length && text[i] !== '"'; i++) {
+        if (text[i] === '\\') {
+          i++;
+        }
+      }
+    } else if (ch === '[' || ch === '{') {
+      depth++;
+    } else if (ch === ']' || ch === '}') {
+      depth--;
+      if (depth === 0) {
+        close();
+        break;
+      }
+    }
+    end = i + 1;
+  }
+
+  return ranges;
+}
+
+/** Checks test cases against a profile. */
+export function runProfileTests(
+  profile: Profile,
+  cases: ProfileTestCase[],
+  imported?: DefinitionTable
+): ProfileTestResult[] {
+  return cases.map((testCase) => {
+    const result = evaluateAccess(profile, testCase, imported);
+    return { testCase, result, passed: result.decision === testCase.expect };
+  });
+}
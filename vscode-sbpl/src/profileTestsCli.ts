@@ -0,0 +1,124 @@
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { buildDefinitionTable } from './filters.js';
+import { DEFAULT_SEARCH_PATHS, expandSearchPaths, resolveImports } from './imports.js';
+import { parse } from './parser.js';
+import { isProfileTestFile, parseProfileTests, profilePathFor, runProfileTests, testCaseLabel } from './profileTests.js';
+import { SourceText } from './source.js';
+
+/**
+ * Runs profile test files from the command line, for CI:
+ *
+ *     bun src/profileTestsCli.ts [--search-path <dir>]... [file-or-directory]...
+ *
+ * Directories are searched for `*.sb.test.json` files; the current directory
+ * is used when no path is given. Exits with 1 when a test fails or a test
+ * file cannot be run, and 2 on usage errors.
+ */
+
+const USAGE = 'Usage: bun src/profileTestsCli.ts [--search-path <dir>]... [file-or-directory]...';
+
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git', 'out', '.build']);
+
+function findTestFiles(path: string): string[] {
+  if (!statSync(path).isDirectory()) {
+    return [path];
+  }
+  const files: string[] = [];
+  for (const entry of readdirSync(path, { withFileTypes: true })) {
+    if (entry.isDirectory() && !SKIPPED_DIRECTORIES.has(entry.name)) {
+      files.push(...findTestFiles(join(path, entry.name)));
+    } else if (entry.isFile() && isProfileTestFile(entry.name)) {
+      files.push(join(path, entry.name));
+    }
+  }
+  return files.sort();
+}
+
+function readText(path: string): string | undefined {
+  try {
+    return readFileSync(path, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+function main(args: string[]): number {
+  const searchPathEntries: string[] = [];
+  const paths: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--search-path') {
+      const value = args[++i];
+      if (value === undefined) {
+        console.error(USAGE);
+        return 2;
+      }
+      searchPathEntries.push(value);
+    } else if (args[i] === '--help' || args[i] === '-h') {
+      console.log(USAGE);
+      return 0;
+    } else {
+      paths.push(args[i]);
+    }
+  }
+
+  const cwd = process.cwd();
+  const searchPaths = expandSearchPaths([...searchPathEntries, ...DEFAULT_SEARCH_PATHS], [cwd]);
+
+  let testFiles: string[];
+  try {
+    testFiles = (paths.length > 0 ? paths : [cwd]).flatMap(findTestFiles);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    return 2;
+  }
+
+  let passed = 0;
+  let failed = 0;
+  let broken = 0;
+
+  for (const testFile of testFiles) {
+    const name = relative(cwd, testFile);
+    const profilePath = profilePathFor(testFile);
+    const testText = readText(testFile);
+    const profileText = readText(profilePath);
+    if (testText === undefined || profileText === undefined) {
+      console.log(`${name}: cannot read ${testText === undefined ? testFile : profilePath}`);
+      broken++;
+      continue;
+    }
+
+    console.log(name);
+    const { cases, errors } = parseProfileTests(testText);
+    for (const error of errors) {
+      console.log(`  ! ${error}`);
+      broken++;
+    }
+
+    const { profile } = parse(profileText);
+    const { definitions } = resolveImports(profile, profilePath, { searchPaths });
+    const imported = buildDefinitionTable(definitions.map((entry) => entry.definition));
+    const results = runProfileTests(profile, cases.map((entry) => entry.testCase), imported);
+    const profileSource = new SourceText(profileText);
+
+    results.forEach(({ testCase, result, passed: ok }, index) => {
+      if (ok) {
+        console.log(`  ✓ ${testCaseLabel(testCase)}`);
+        passed++;
+        return;
+      }
+      failed++;
+      const line = cases[index].range.start.line + 1;
+      const decidedBy = result.rule
+        ? `${profileSource.slice(result.rule.range).replace(/\s+/g, ' ')} at ${relative(cwd, profilePath)}:${result.rule.range.start.line + 1}`
+        : 'no matching rule';
+      console.log(`  ✗ ${testCaseLabel(testCase)} (${name}:${line})`);
+      console.log(`      expected ${testCase.expect}, got ${result.decision} by ${decidedBy}`);
+    });
+  }
+
+  console.log(`\n${passed} passed, ${failed} failed${broken > 0 ? `, ${broken} errors` : ''}`);
+  return failed > 0 || broken > 0 ? 1 : 0;
+}
+
+process.exit(main(process.argv.slice(2)));
@@ -0,0 +1,343 @@
+import { exprAsFilter, filterToString, type CompoundType, type Filter, type Profile, type Rule } from './ast.js';
+import { OPERATIONS } from './catalog.js';
+import type { CodeFix, TextEdit } from './diagnostics.js';
+import { buildDefinitionTable, ruleOperationNames, type DefinitionTable } from './filters.js';
+import { checkNewName } from './occurrences.js';
+import { expandOperation, isWildcardOperation, operationCovers } from './operations.js';
+import type { ParseResult } from './parser.js';
+import type { SourceRange, SourceText } from './source.js';
+
+/**
+ * Structural refactorings of rules and filters.
+ *
+ * Each refactoring works on the selection: the filters or rules it overlaps,
+ * or the innermost one around the cursor when it is empty. Edits reuse the
+ * original source text of the forms they move, so comments and layout inside
+ * them are kept.
+ *
+ * Symbols naming a `define` may sit among a rule's operations; they are
+ * filters, so splitting copies them into every rule and merging requires
+ * them to match. `imported` holds the definitions visible through imports.
+ */
+
+export type FilterWrapper = CompoundType | 'require-not';
+
+export const FILTER_WRAPPERS: FilterWrapper[] = ['require-any', 'require-all', 'require-not'];
+
+const WILDCARD_OPERATIONS = OPERATIONS.map((op) => op.label).filter(isWildcardOperation);
+
+/** Every refactoring that applies to the selection, except extracting a define, which needs a name. */
+export function refactoringsAt(
+  parse: ParseResult,
+  selection: SourceRange,
+  imported: DefinitionTable = new Map()
+): CodeFix[] {
+  return [
+    ...FILTER_WRAPPERS.map((wrapper) => wrapFilters(parse, selection, wrapper)),
+    unwrapFilter(parse, selection),
+    splitRule(parse, selection, imported),
+    mergeRules(parse, selection, imported),
+    collapseOperations(parse, selection, imported),
+  ].filter((fix): fix is CodeFix => fix !== undefined);
+}
+
+/** Wraps the selected sibling filters in a compound filter; `require-not` takes a single filter. */
+export function wrapFilters(parse: ParseResult, selection: SourceRange, wrapper: FilterWrapper): CodeFix | undefined {
+  const selected = selectedSiblings(parse.profile, selection);
+  if (!selected || (wrapper === 'require-not' && selected.length !== 1)) {
+    return undefined;
+  }
+
+  const { source } = parse;
+  const first = selected[0].range;
+  const last = selected[selected.length - 1].range;
+  const text = source.text.slice(first.start.offset, last.end.offset);
+  const newText = text.includes('\n')
+    ? `(${wrapper}\n${indentationOf(source, first.start.line)}  ${text.replace(/\n/g, '\n  ')})`
+    : `(${wrapper} ${text})`;
+  return {
+    title: selected.length === 1 ? `Wrap filter in (${wrapper} ...)` : `Wrap ${selected.length} filters in (${wrapper} ...)`,
+    edits: [{ range: { start: first.start, end: last.end }, newText }],
+    isPreferred: false,
+  };
+}
+
+/** Replaces the innermost `require-all` or `require-any` around the selection by its only filter. */
+export function unwrapFilter(parse: ParseResult, selection: SourceRange): CodeFix | undefined {
+  const compound = filtersOf(parse.profile)
+    .filter((filter) => filter.kind === 'compound' && contains(filter.range, selection))
+    .pop();
+  if (compound?.kind !== 'compound' || compound.filters.length !== 1) {
+    return undefined;
+  }
+
+  // The filter moves out by the indentation it had inside the compound
+  const child = compound.filters[0].range;
+  const shift = Math.max(0, child.start.column - compound.range.start.column);
+  const text = parse.source.slice(child).replace(new RegExp(`\n[ \\t]{0,${shift}}`, 'g'), '\n');
+  return {
+    title: `Unwrap (${compound.type} ...)`,
+    edits: [{ range: compound.range, newText: text }],
+    isPreferred: false,
+  };
+}
+
+/** Splits the rule around the selection into one rule per operation, each with the same filters. */
+export function splitRule(parse: ParseResult, selection: SourceRange, imported: DefinitionTable = new Map()): CodeFix | undefined {
+  const rule = parse.profile.rules.find((candidate) => contains(candidate.range, selection));
+  const span = rule && operationSpan(rule, parse.source);
+  if (!rule || !span) {
+    return undefined;
+  }
+  const { operations, symbols } = operationsAndSymbols(rule, definitionsOf(parse, imported));
+  if (operations.length < 2) {
+    return undefined;
+  }
+
+  const { source } = parse;
+  const before = source.text.slice(rule.range.start.offset, span.start.offset);
+  const after = source.text.slice(span.end.offset, rule.range.end.offset);
+  const separator = `\n${indentationOf(source, rule.range.start.line)}`;
+  return {
+    title: `Split into ${operations.length} rules`,
+    edits: [{
+      range: rule.range,
+      newText: operations.map((name) => before + [name, ...symbols].join(' ') + after).join(separator),
+    }],
+    isPreferred: false,
+  };
+}
+
+/**
+ * Merges adjacent rules with the same action and filters into the first of
+ * them. A selection spanning rules merges those; otherwise the run of
+ * mergeable rules around the cursor is merged.
+ */
+export function mergeRules(parse: ParseResult, selection: SourceRange, imported: DefinitionTable = new Map()): CodeFix | undefined {
+  const { rules } = parse.profile;
+  const { source } = parse;
+  const index = rules.findIndex((rule) => overlaps(rule.range, selection));
+  if (index < 0 || !operationSpan(rules[index], source)) {
+    return undefined;
+  }
+
+  const definitions = definitionsOf(parse, imported);
+  const key = (rule: Rule): string =>
+    [rule.action, ...operationsAndSymbols(rule, definitions).symbols, ...rule.filters.map(filterToString)].join(' ');
+  const mergeable = (a: Rule, b: Rule): boolean => key(a) === key(b)
+    && operationSpan(b, source) !== undefined
+    && source.text.slice(a.range.end.offset, b.range.start.offset).trim() === '';
+
+  const isEmpty = selection.start.offset === selection.end.offset;
+  let start = index;
+  let end = index;
+  while (isEmpty && start > 0 && mergeable(rules[start - 1], rules[start])) {
+    start--;
+  }
+  while (end + 1 < rules.length && mergeable(rules[end], rules[end + 1])
+    && (isEmpty || overlaps(rules[end + 1].range, selection))) {
+    end++;
+  }
+  if (end === start) {
+    return undefined;
+  }
+
+  const merged = rules.slice(start, end + 1);
+  const first = merged[0];
+  const names = [
+    ...new Set(merged.flatMap((rule) => operationsAndSymbols(rule, definitions).operations)),
+    ...operationsAndSymbols(first, definitions).symbols,
+  ];
+  const span = operationSpan(first, source)!;
+  const text = source.text.slice(first.range.start.offset, span.start.offset)
+    + names.join(' ')
+    + source.text.slice(span.end.offset, first.range.end.offset);
+  return {
+    title: `Merge ${merged.length} rules`,
+    edits: [{ range: { start: first.range.start, end: merged[merged.length - 1].range.end }, newText: text }],
+    isPreferred: false,
+  };
+}
+
+/**
+ * Replaces the operations of the rule around the selection by a wildcard
+ * when the rule lists every catalog operation the wildcard covers, e.g.
+ * `file-read-data file-read-metadata file-read-xattr` becomes `file-read*`.
+ * Only the broadest such wildcards are used.
+ */
+export function collapseOperations(parse: ParseResult, selection: SourceRange, imported: DefinitionTable = new Map()): CodeFix | undefined {
+  const rule = parse.profile.rules.find((candidate) => contains(candidate.range, selection));
+  const span = rule && operationSpan(rule, parse.source);
+  if (!rule || !span) {
+    return undefined;
+  }
+  const { operations, symbols } = operationsAndSymbols(rule, definitionsOf(parse, imported));
+
+  const complete = WILDCARD_OPERATIONS.filter((wildcard) => {
+    const children = expandOperation(wildcard);
+    return children.length >= 2
+      && !operations.some((name) => operationCovers(name, wildcard))
+      && children.every((child) => operations.includes(child));
+  });
+  const wildcards = complete.filter((wildcard) =>
+    !complete.some((other) => other !== wildcard && operationCovers(other, wildcard)));
+  if (wildcards.length === 0) {
+    return undefined;
+  }
+
+  const names = new Set(operations.map((name) => wildcards.find((wildcard) => operationCovers(wildcard, name)) ?? name));
+  return {
+    title: `Collapse operations into ${wildcards.map((wildcard) => `'${wildcard}'`).join(', ')}`,
+    edits: [{ range: span, newText: [...names, ...symbols].join(' ') }],
+    isPreferred: false,
+  };
+}
+
+/** The filter of a rule that extracting a define would move: the innermost one around the selection. */
+export function extractableFilter(parse: ParseResult, selection: SourceRange): Filter | undefined {
+  return parse.profile.rules
+    .flatMap((rule) => rule.filters.flatMap(withDescendants))
+    .filter((filter) => filter.kind !== 'expression' && contains(filter.range, selection))
+    .pop();
+}
+
+/** A name for a new define holding the filter, derived from its path or name argument. */
+export function suggestDefineName(parse: ParseResult, filter: Filter): string {
+  const value = filter.kind === 'simple' && (filter.value.kind === 'string' || filter.value.kind === 'rawString')
+    ? filter.value.value
+    : '';
+  const words = value.split('/').filter((part) => /[a-z0-9]/i.test(part)).pop() ?? '';
+  const base = words.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'extracted-filter';
+
+  for (let suffix = 1; ; suffix++) {
+    const name = suffix === 1 ? base : `${base}-${suffix}`;
+    if (!checkNewName(name, parse.profile.definitions)) {
+      return name;
+    }
+  }
+}
+
+/**
+ * Moves the filter around the selection into a new `(define name ...)`
+ * before its rule and refers to it by name.
+ *
+ * @returns The refactoring, or an error message when the name cannot be used.
+ */
+export function extractDefine(parse: ParseResult, selection: SourceRange, name: string): CodeFix | string | undefined {
+  const filter = extractableFilter(parse, selection);
+  const rule = filter && parse.profile.rules.find((candidate) => contains(candidate.range, filter.range));
+  if (!filter || !rule) {
+    return undefined;
+  }
+  const error = checkNewName(name, parse.profile.definitions);
+  if (error) {
+    return error;
+  }
+
+  const { source } = parse;
+  const indentation = indentationOf(source, rule.range.start.line);
+  const text = source.slice(filter.range).replace(/\n[ \t]*/g, (match) => `\n${indentation}  ${match.slice(1 + filter.range.start.column)}`);
+  const lineStart = source.positionAt(source.offsetAt(rule.range.start.line, 0));
+  const edits: TextEdit[] = [
+    { range: { start: lineStart, end: lineStart }, newText: `${indentation}(define ${name} ${text})\n` },
+    { range: filter.range, newText: name },
+  ];
+  return { title: 'Extract filter into a define', edits, isPreferred: false };
+}
+
+/** The sibling filters the selection covers, from the innermost list of filters holding all of it. */
+function selectedSiblings(profile: Profile, selection: SourceRange): Filter[] | undefined {
+  let result: Filter[] | undefined;
+  for (const siblings of filterLists(profile)) {
+    const selected = siblings.filter((filter) => overlaps(filter.range, selection));
+    if (selected.length === 0) {
+      continue;
+    }
+    const span = { start: selected[0].range.start, end: selected[selected.length - 1].range.end };
+    if (contains(span, selection)) {
+      result = selected;
+    }
+  }
+  return result;
+}
+
+/** Every list of sibling filters, parents before children: rule filters, compound children and define values. */
+function filterLists(profile: Profile): Filter[][] {
+  const lists: Filter[][] = [];
+  const visit = (filters: Filter[]): void => {
+    lists.push(filters);
+    for (const filter of filters) {
+      if (filter.kind === 'compound') {
+        visit(filter.filters);
+      } else if (filter.kind === 'not') {
+        visit([filter.filter]);
+      }
+    }
+  };
+
+  for (const definition of profile.definitions) {
+    const filter = definition.isFunction ? undefined : exprAsFilter(definition.value);
+    if (filter && filter.kind !== 'expression') {
+      visit([filter]);
+    }
+  }
+  for (const rule of profile.rules) {
+    visit(rule.filters);
+  }
+  return lists;
+}
+
+/** Every filter, parents before children. */
+function filtersOf(profile: Profile): Filter[] {
+  return filterLists(profile).flat();
+}
+
+function withDescendants(filter: Filter): Filter[] {
+  switch (filter.kind) {
+    case 'compound':
+      return [filter, ...filter.filters.flatMap(withDescendants)];
+    case 'not':
+      return [filter, ...withDescendants(filter.filter)];
+    default:
+      return [filter];
+  }
+}
+
+function definitionsOf(parse: ParseResult, imported: DefinitionTable): DefinitionTable {
+  return buildDefinitionTable([...parse.profile.definitions, ...imported.values()]);
+}
+
+/** The operations of a rule, and the defined symbols written among them. */
+function operationsAndSymbols(rule: Rule, definitions: DefinitionTable): { operations: string[]; symbols: string[] } {
+  return {
+    operations: ruleOperationNames(rule, definitions),
+    symbols: rule.operations.map((op) => op.name).filter((name) => definitions.has(name)),
+  };
+}
+
+/** The range of a rule's operations and the symbols among them, if only whitespace separates them. */
+function operationSpan(rule: Rule, source: SourceText): SourceRange | undefined {
+  if (rule.operations.length === 0) {
+    return undefined;
+  }
+  const { operations } = rule;
+  const separated = operations.slice(1).every((op, index) =>
+    source.text.slice(operations[index].range.end.offset, op.range.start.offset).trim() === '');
+  return separated ? { start: operations[0].range.start, end: operations[operations.length - 1].range.end } : undefined;
+}
+
+/** Whether a non-empty selection overlaps the range, or an empty one is inside or at its edge. */
+function overlaps(range: SourceRange, selection: SourceRange): boolean {
+  if (selection.start.offset === selection.end.offset) {
+    return contains(range, selection);
+  }
+  return range.start.offset < selection.end.offset && selection.start.offset < range.end.offset;
+}
+
+function contains(range: SourceRange, selection: SourceRange): boolean {
+  return range.start.offset <= selection.start.offset && selection.end.offset <= range.end.offset;
+}
+
+function indentationOf(source: SourceText, line: number): string {
+  return /^[ \t]*/.exec(source.text.slice(source.offsetAt(line, 0)))?.[0] ?? '';
+}
@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import type { DefineDecl } from './ast.js';
+import { toRange } from './convert.js';
+import { resolveSymbol, symbolLocations, type ScopedProfile, type SymbolScope } from './definition.js';
+import { getImportOptions } from './importPaths.js';
+import { resolveImports } from './imports.js';
+import { builtinKind, checkRename } from './occurrences.js';
+import { parse } from './parser.js';
+import { readText, SBPL_FILES_GLOB } from './symbolProviders.js';
+
+/**
+ * Renames `define`d symbols everywhere they are visible: imported files, and
+ * workspace files that import the file defining the symbol. Built-in
+ * operations, filters and keywords cannot be renamed, and neither can
+ * symbols that would need edits outside the workspace, such as the system
+ * profiles in /System/Library/Sandbox/Profiles.
+ */
+export class SBPLRenameProvider implements vscode.RenameProvider {
+  prepareRename(document: vscode.TextDocument, position: vscode.Position): vscode.Range {
+    const { occurrence, scope } = resolveSymbol(document, position);
+    if (!occurrence) {
+      throw new Error('Only symbols introduced by define can be renamed');
+    }
+    if (!scope) {
+      const builtin = builtinKind(occurrence.name);
+      throw new Error(builtin
+        ? `Cannot rename built-in ${builtin} '${occurrence.name}'`
+        : `'${occurrence.name}' is not introduced by define`);
+    }
+    checkEditable(document, scope.definition.name, [scope.uri]);
+    return toRange(occurrence.range);
+  }
+
+  async provideRenameEdits(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    newName: string,
+    token: vscode.CancellationToken
+  ): Promise<vscode.WorkspaceEdit | undefined> {
+    const { scope } = resolveSymbol(document, position);
+    if (!scope) {
+      throw new Error('Only symbols introduced by define can be renamed');
+    }
+
+    const importers = await findImporters(scope, token);
+    if (token.isCancellationRequested) {
+      return undefined;
+    }
+    const visible = [
+      ...scope.visible,
+      ...scope.profiles.flatMap(({ profile }) => profile.definitions),
+      ...importers.flatMap(({ visible: definitions }) => definitions),
+    ];
+    const problem = checkRename(scope.definition, newName, new Set(visible));
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    const locations = symbolLocations({ ...scope, profiles: [...scope.profiles, ...importers] }, true);
+    checkEditable(document, scope.definition.name, locations.map((location) => location.uri));
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const location of locations) {
+      edit.replace(location.uri, location.range, newName);
+    }
+    return edit;
+  }
+}
+
+/** A workspace file that imports the definition of the symbol being renamed. */
+interface Importer extends ScopedProfile {
+  /** The definitions visible in the file, for checking the new name. */
+  visible: DefineDecl[];
+}
+
+/**
+ * Workspace files outside the scope that see the symbol's definition
+ * through their imports and do not define the name themselves.
+ */
+async function findImporters(scope: SymbolScope, token: vscode.CancellationToken): Promise<Importer[]> {
+  const { name } = scope.definition;
+  const known = new Set(scope.profiles.map(({ uri }) => uri.toString()));
+  const files = await vscode.workspace.findFiles(SBPL_FILES_GLOB, undefined, undefined, token);
+
+  const importers: Importer[] = [];
+  for (const uri of files) {
+    if (token.isCancellationRequested) {
+      break;
+    }
+    if (known.has(uri.toString())) {
+      continue;
+    }
+    const text = await readText(uri);
+    if (!text.includes(name)) {
+      continue;
+    }
+    const { profile } = parse(text);
+    if (profile.imports.length === 0 || profile.definitions.some((definition) => definition.name === name)) {
+      continue;
+    }
+    const resolution = resolveImports(profile, uri.fsPath, getImportOptions(uri));
+    const imported = resolution.definitions.find((entry) => entry.definition.name === name);
+    if (imported?.filePath === scope.uri.fsPath) {
+      const visible = [...profile.definitions, ...resolution.definitions.map((entry) => entry.definition)];
+      importers.push({ uri, profile, visible });
+    }
+  }
+  return importers;
+}
+
+/** Throws when a rename would edit a file outside the workspace, other than the document itself. */
+function checkEditable(document: vscode.TextDocument, name: string, uris: vscode.Uri[]): void {
+  const outside = uris.find((uri) =>
+    uri.toString() !== document.uri.toString() && !vscode.workspace.getWorkspaceFolder(uri));
+  if (outside) {
+    throw new Error(`Cannot rename '${name}': ${outside.fsPath} is outside the workspace`);
+  }
+}
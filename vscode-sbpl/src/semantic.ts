@@ -0,0 +1,193 @@
+import { exprAsFilter, type DefineDecl, type Expr, type Filter, type Profile } from './ast.js';
+import { FILTERS, OPERATIONS } from './catalog.js';
+import { createDiagnostic, DiagnosticCode, type Diagnostic } from './diagnostics.js';
+import type { DefinitionTable } from './filters.js';
+
+const KNOWN_OPERATIONS = new Set(OPERATIONS.map((op) => op.label));
+const KNOWN_FILTERS = new Set(FILTERS.map((filter) => filter.label));
+/** Filters whose argument is a regular expression. */
+export const REGEX_FILTERS = new Set(['regex', 'home-regex', 'global-name-regex', 'local-name-regex', 'ipc-posix-name-regex']);
+
+/** The only profile version understood by the sandbox. */
+export const SUPPORTED_VERSION = 1;
+
+/**
+ * Checks a parsed profile against the operation and filter catalogs.
+ *
+ * Reports unknown operations (W007), unknown filter types (S005), undefined
+ * variables (S001), duplicate definitions (S006), unsupported versions (S007)
+ * and invalid regex literals (S010).
+ *
+ * @param imported Definitions made visible by the profile's imports.
+ */
+export function checkSemantics(profile: Profile, imported: DefinitionTable = new Map()): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const local = collectDefinitions(profile.definitions, diagnostics);
+  const lookup = (name: string): DefineDecl | undefined => local.get(name) ?? imported.get(name);
+
+  if (profile.version && profile.version.version !== SUPPORTED_VERSION) {
+    diagnostics.push(createDiagnostic(
+      DiagnosticCode.InvalidVersion,
+      `Unsupported profile version ${profile.version.version}; expected (version ${SUPPORTED_VERSION})`,
+      profile.version.versionRange
+    ));
+  }
+
+  const checkFilter = (filter: Filter): void => {
+    switch (filter.kind) {
+      case 'simple':
+        if (!KNOWN_FILTERS.has(filter.type) && !lookup(filter.type)?.isFunction) {
+          diagnostics.push(createDiagnostic(
+            DiagnosticCode.InvalidFilterType,
+            `Unknown filter type '${filter.type}'`,
+            filter.typeRange
+          ));
+        }
+        if (REGEX_FILTERS.has(filter.type)) {
+          checkRegex(filter.value, diagnostics);
+        }
+        break;
+      case 'compound':
+        filter.filters.forEach(checkFilter);
+        break;
+      case 'not':
+        checkFilter(filter.filter);
+        break;
+      case 'expression':
+        checkReference(filter.expr);
+        break;
+    }
+  };
+
+  const checkReference = (expr: Expr): void => {
+    if (expr.kind === 'symbol' && !lookup(expr.name)) {
+      diagnostics.push(createDiagnostic(
+        DiagnosticCode.UndefinedVariable,
+        `Undefined variable '${expr.name}'`,
+        expr.range
+      ));
+    }
+  };
+
+  for (const definition of profile.definitions) {
+    // Function bodies refer to their parameters, which are not modeled
+    if (definition.isFunction || definition.value.kind !== 'list') {
+      continue;
+    }
+    const filter = exprAsFilter(definition.value);
+    if (filter) {
+      checkFilter(filter);
+    }
+  }
+
+  for (const rule of profile.rules) {
+    for (const operation of rule.operations) {
+      // A symbol in operation position may also be a define'd filter
+      if (!KNOWN_OPERATIONS.has(operation.name) && !lookup(operation.name)) {
+        diagnostics.push(createDiagnostic(
+          DiagnosticCode.UnknownOperation,
+          `Unknown operation '${operation.name}'`,
+          operation.range
+        ));
+      }
+    }
+    rule.filters.forEach(checkFilter);
+  }
+
+  return diagnostics;
+}
+
+function collectDefinitions(definitions: DefineDecl[], diagnostics: Diagnostic[]): Map<string, DefineDecl> {
+  const byName = new Map<string, DefineDecl>();
+  for (const definition of definitions) {
+    const existing = byName.get(definition.name);
+    if (existing) {
+      diagnostics.push(createDiagnostic(
+        DiagnosticCode.DuplicateDefinition,
+        `Duplicate definition of '${definition.name}'`,
+        definition.nameRange,
+        [{ range: existing.nameRange, message: `'${definition.name}' was first defined here` }]
+      ));
+      continue;
+    }
+    byName.set(definition.name, definition);
+  }
+  return byName;
+}
+
+function checkRegex(expr: Expr, diagnostics: Diagnostic[]): void {
+  if (expr.kind !== 'string' && expr.kind !== 'rawString') {
+    return;
+  }
+  const reason = posixRegexProblem(expr.value);
+  if (reason) {
+    diagnostics.push(createDiagnostic(
+      DiagnosticCode.InvalidRegex,
+      `Invalid regular expression: ${reason}`,
+      expr.range
+    ));
+  }
+}
+
+/** POSIX classes for the Perl escapes people reach for first. */
+const ESCAPE_REPLACEMENTS: Record<string, string> = {
+  d: '[0-9]',
+  D: '[^0-9]',
+  w: '[[:alnum:]_]',
+  W: '[^[:alnum:]_]',
+  s: '[[:space:]]',
+  S: '[^[:space:]]',
+};
+
+/**
+ * Why the sandbox's POSIX extended regex engine rejects a pattern, if it
+ * does. JavaScript's `RegExp` checks the structure, but it accepts Perl
+ * syntax such as lookarounds, `\d` and lazy quantifiers, which is caught
+ * first.
+ */
+function posixRegexProblem(pattern: string): string | undefined {
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '[') {
+      i = bracketEnd(pattern, i);
+    } else if (char === '\\') {
+      const escaped = pattern[i + 1] ?? '';
+      if (/[0-9A-Za-z]/.test(escaped)) {
+        const replacement = ESCAPE_REPLACEMENTS[escaped];
+        return `'\\${escaped}' is not supported by POSIX regexes${replacement ? `; use ${replacement}` : ''}`;
+      }
+      i += 1;
+    } else if (char === '(' && pattern[i + 1] === '?') {
+      return "'(?' groups such as lookarounds are not supported by POSIX regexes";
+    } else if ('*+?}'.includes(char) && (pattern[i + 1] === '?' || pattern[i + 1] === '+')) {
+      return `Lazy and possessive quantifiers such as '${char}${pattern[i + 1]}' are not supported by POSIX regexes`;
+    }
+  }
+
+  try {
+    new RegExp(pattern);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'invalid pattern';
+  }
+}
+
+/** The index of the `]` closing the bracket expression at `start`, where `[:alpha:]` and a leading `]` are literal. */
+function bracketEnd(pattern: string, start: number): number {
+  let i = start + 1;
+  if (pattern[i] === '^') {
+    i += 1;
+  }
+  if (pattern[i] === ']') {
+    i += 1;
+  }
+  for (; i < pattern.length; i++) {
+    if (pattern[i] === '[' && /[:.=]/.test(pattern[i + 1] ?? '')) {
+      const close = pattern.indexOf(pattern[i + 1] + ']', i + 2);
+      i = close < 0 ? pattern.length : close + 1;
+    } else if (pattern[i] === ']') {
+      return i;
+    }
+  }
+  return pattern.length;
+}
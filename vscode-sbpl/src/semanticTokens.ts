@@ -0,0 +1,232 @@
+import { exprAsFilter, type DefineDecl, type Expr, type Filter } from './ast.js';
+import { FILTER_VALUES, FILTERS, OPERATIONS } from './catalog.js';
+import type { DefinitionTable } from './filters.js';
+import type { ParseResult } from './parser.js';
+import { isWildcardOperation } from './operations.js';
+import { REGEX_FILTERS } from './semantic.js';
+import { rangesOverlap, type SourceRange } from './source.js';
+
+/**
+ * Semantic tokens from a parsed profile.
+ *
+ * Names are classified by what they resolve to rather than by how they look:
+ * operations and filters come from the catalogs, symbols from the profile's
+ * and its imports' definitions, and names that are neither are marked
+ * `unknown`. Strings passed to regex filters are `regexp` tokens.
+ */
+
+/** Token types in legend order; `action`, `operation` and `filter` are contributed by the extension. */
+export const SEMANTIC_TOKEN_TYPES = [
+  'keyword',
+  'action',
+  'operation',
+  'filter',
+  'operator',
+  'function',
+  'variable',
+  'parameter',
+  'enumMember',
+  'string',
+  'regexp',
+  'number',
+] as const;
+
+/** Token modifiers in legend order; `wildcard` and `unknown` are contributed by the extension. */
+export const SEMANTIC_TOKEN_MODIFIERS = ['declaration', 'deprecated', 'wildcard', 'unknown'] as const;
+
+export type SemanticTokenType = (typeof SEMANTIC_TOKEN_TYPES)[number];
+export type SemanticTokenModifier = (typeof SEMANTIC_TOKEN_MODIFIERS)[number];
+
+/** A token on a single line; tokens spanning lines are split. */
+export interface SemanticToken {
+  line: number;
+  column: number;
+  length: number;
+  type: SemanticTokenType;
+  modifiers: SemanticTokenModifier[];
+}
+
+interface Classification {
+  type: SemanticTokenType;
+  modifiers: SemanticTokenModifier[];
+}
+
+const OPERATIONS_BY_NAME = new Map(OPERATIONS.map((op) => [op.label, op]));
+const KNOWN_FILTERS = new Set(FILTERS.map((filter) => filter.label));
+const KEYWORDS = new Set(['version', 'debug', 'import', 'define']);
+const ACTIONS = new Set(['allow', 'deny']);
+
+/**
+ * The semantic tokens of a profile, in source order.
+ *
+ * @param imported Definitions made visible by the profile's imports.
+ * @param range Only tokens overlapping this range are returned.
+ */
+export function semanticTokens(result: ParseResult, imported: DefinitionTable = new Map(), range?: SourceRange): SemanticToken[] {
+  const { profile, source, tokens } = result;
+  const local = new Map<string, DefineDecl>();
+  for (const definition of profile.definitions) {
+    if (!local.has(definition.name)) {
+      local.set(definition.name, definition);
+    }
+  }
+  const lookup = (name: string): DefineDecl | undefined => local.get(name) ?? imported.get(name);
+
+  // Classifications of names by start offset, and the strings that are regexes
+  const names = new Map<number, Classification>();
+  const regexes = new Set<number>();
+  const classify = (at: SourceRange, type: SemanticTokenType, ...modifiers: SemanticTokenModifier[]): void => {
+    names.set(at.start.offset, { type, modifiers });
+  };
+
+  /** Classifies a symbol that names a parameter or definition; returns whether it does. */
+  const classifyDefined = (expr: Expr & { kind: 'symbol' }, parameters: ReadonlySet<string>): boolean => {
+    const definition = parameters.has(expr.name) ? undefined : lookup(expr.name);
+    if (parameters.has(expr.name)) {
+      classify(expr.range, 'parameter');
+    } else if (definition) {
+      classify(expr.range, definition.isFunction ? 'function' : 'variable');
+    }
+    return parameters.has(expr.name) || definition !== undefined;
+  };
+
+  /** An argument, which may be one of the enum values of `filterType`. */
+  const visitArgument = (expr: Expr, parameters: ReadonlySet<string>, filterType?: string): void => {
+    if (expr.kind === 'list') {
+      expr.elements.forEach((element) => visitArgument(element, parameters, filterType));
+    } else if (expr.kind === 'symbol') {
+      if (!classifyDefined(expr, parameters) && filterType && FILTER_VALUES[filterType]?.includes(expr.name)) {
+        classify(expr.range, 'enumMember');
+      }
+    } else if ((expr.kind === 'string' || expr.kind === 'rawString') && filterType && REGEX_FILTERS.has(filterType)) {
+      regexes.add(expr.range.start.offset);
+    }
+  };
+
+  const visitFilter = (filter: Filter, parameters: ReadonlySet<string>): void => {
+    switch (filter.kind) {
+      case 'simple':
+        if (parameters.has(filter.type)) {
+          classify(filter.typeRange, 'parameter');
+        } else if (lookup(filter.type)?.isFunction) {
+          classify(filter.typeRange, 'function');
+        } else {
+          classify(filter.typeRange, 'filter', ...(KNOWN_FILTERS.has(filter.type) ? [] : ['unknown' as const]));
+        }
+        filter.args.forEach((arg) => visitArgument(arg, parameters, filter.type));
+        break;
+      case 'compound':
+        classify(filter.typeRange, 'operator');
+        filter.filters.forEach((child) => visitFilter(child, parameters));
+        break;
+      case 'not':
+        classify(filter.typeRange, 'operator');
+        visitFilter(filter.filter, parameters);
+        break;
+      case 'expression':
+        // A symbol in filter position must name a definition
+        if (filter.expr.kind !== 'symbol') {
+          visitArgument(filter.expr, parameters);
+        } else if (!classifyDefined(filter.expr, parameters)) {
+          classify(filter.expr.range, 'variable', 'unknown');
+        }
+        break;
+    }
+  };
+
+  for (const definition of profile.definitions) {
+    classify(definition.nameRange, definition.isFunction ? 'function' : 'variable', 'declaration');
+    const parameters = new Set(definition.parameters);
+    const filter = exprAsFilter(definition.value);
+    if (filter) {
+      visitFilter(filter, parameters);
+    } else {
+      visitArgument(definition.value, parameters);
+    }
+  }
+
+  for (const rule of profile.rules) {
+    for (const operation of rule.operations) {
+      const definition = lookup(operation.name);
+      const entry = OPERATIONS_BY_NAME.get(operation.name);
+      if (definition) {
+        classify(operation.range, definition.isFunction ? 'function' : 'variable');
+      } else if (entry) {
+        const modifiers: SemanticTokenModifier[] = [];
+        if (isWildcardOperation(operation.name)) {
+          modifiers.push('wildcard');
+        }
+        if (entry.deprecated) {
+          modifiers.push('deprecated');
+        }
+        classify(operation.range, 'operation', ...modifiers);
+      } else {
+        classify(operation.range, 'operation', 'unknown');
+      }
+    }
+    rule.filters.forEach((filter) => visitFilter(filter, new Set()));
+  }
+
+  const found: SemanticToken[] = [];
+  let previous: string | undefined;
+  for (const token of tokens) {
+    if (range && !rangesOverlap(token.range, range)) {
+      previous = token.kind.type;
+      continue;
+    }
+
+    let classification: Classification | undefined;
+    switch (token.kind.type) {
+      case 'symbol':
+        classification = names.get(token.range.start.offset);
+        // Declarations and actions are only keywords at the head of a form
+        if (!classification && previous === 'leftParen') {
+          if (ACTIONS.has(token.kind.value)) {
+            classification = { type: 'action', modifiers: [] };
+          } else if (KEYWORDS.has(token.kind.value)) {
+            classification = { type: 'keyword', modifiers: [] };
+          }
+        }
+        break;
+      case 'string':
+      case 'rawString':
+        classification = { type: regexes.has(token.range.start.offset) ? 'regexp' : 'string', modifiers: [] };
+        break;
+      case 'integer':
+        classification = { type: 'number', modifiers: [] };
+        break;
+    }
+    previous = token.kind.type;
+
+    if (classification) {
+      found.push(...splitLines(token.range, source.text, classification));
+    }
+  }
+  return found;
+}
+
+/** One token per line of a range. */
+function splitLines(range: SourceRange, text: string, { type, modifiers }: Classification): SemanticToken[] {
+  const tokens: SemanticToken[] = [];
+  let line = range.start.line;
+  let column = range.start.column;
+  let start = range.start.offset;
+  for (let offset = start; offset <= range.end.offset; offset++) {
+    const atEnd = offset === range.end.offset;
+    if (atEnd || text[offset] === '\n' || text[offset] === '\r') {
+      if (offset > start) {
+        tokens.push({ line, column, length: offset - start, type, modifiers });
+      }
+      if (atEnd) {
+        break;
+      }
+      if (text[offset] === '\r' && text[offset + 1] === '\n') {
+        offset++;
+      }
+      line++;
+      column = 0;
+      start = offset + 1;
+    }
+  }
+  return tokens;
+}
@@ -0,0 +1,478 @@
+import { sep } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import {
+  CompletionItemKind,
+  createConnection,
+  DiagnosticSeverity,
+  DiagnosticTag,
+  FileChangeType,
+  InsertTextFormat,
+  MarkupKind,
+  ProposedFeatures,
+  SemanticTokensBuilder,
+  TextDocuments,
+  TextDocumentSyncKind,
+  type CompletionItem,
+  type Diagnostic as LspDiagnostic,
+  type InitializeResult,
+  type Range,
+  type SemanticTokens,
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { completionsAt, type CompletionKind } from './completion.js';
+import { DiagnosticCode, type Diagnostic } from './diagnostics.js';
+import {
+  CHECKER_STATUS_NOTIFICATION,
+  ExternalChecker,
+  type CheckerStatus,
+  type ExternalDiagnostic,
+} from './externalChecker.js';
+import { buildDefinitionTable } from './filters.js';
+import { hoverAt } from './hover.js';
+import {
+  DEFAULT_SEARCH_PATHS,
+  expandSearchPaths,
+  nodeImportHost,
+  resolveImports,
+  type ImportHost,
+  type ImportOptions,
+} from './imports.js';
+import type { LintRuleSettings } from './lint.js';
+import { parse } from './parser.js';
+import {
+  SEMANTIC_TOKEN_MODIFIERS,
+  SEMANTIC_TOKEN_TYPES,
+  semanticTokens,
+  type SemanticToken,
+} from './semanticTokens.js';
+import type { SourceRange } from './source.js';
+import { ValidationScheduler, type CancellationFlag } from './validationScheduler.js';
+import { validateText } from './validator.js';
+import { DEFAULT_EXCLUDE, findProfiles, isExcluded, isProfilePath } from './workspaceLint.js';
+
+/**
+ * SBPL language server.
+ *
+ * Provides diagnostics, completion, hover and semantic tokens over the
+ * Language Server Protocol, so any LSP client can use the built-in checker
+ * and catalogs:
+ *
+ *     bun src/server.ts --stdio
+ *
+ * Settings are read from the `sbpl` configuration section, the same settings
+ * the VS Code extension contributes.
+ *
+ * Documents are validated after `sbpl.validationDelay` milliseconds without
+ * edits. With `sbpl.checker` set to `sbpl-convert`, one `sbpl-convert serve`
+ * process checks every document; its state is sent to the client in
+ * `sbpl/checkerStatus` notifications and its stderr goes to the log.
+ *
+ * Profiles in the workspace folders that are not open are read from disk and
+ * validated too, except those matching `sbpl.exclude`; clients should send
+ * `workspace/didChangeWatchedFiles` for `.sb` and `.sbpl` files.
+ */
+
+interface SBPLSettings {
+  enableDiagnostics: boolean;
+  exclude: string[];
+  checker: 'builtin' | 'sbpl-convert';
+  executablePath: string;
+  importSearchPaths: string[];
+  lint: { rules: LintRuleSettings };
+  validationDelay: number;
+}
+
+const DEFAULT_SETTINGS: SBPLSettings = {
+  enableDiagnostics: true,
+  exclude: DEFAULT_EXCLUDE,
+  checker: 'builtin',
+  executablePath: '',
+  importSearchPaths: DEFAULT_SEARCH_PATHS,
+  lint: { rules: {} },
+  validationDelay: 300,
+};
+
+const CHECK_SYNTAX_COMMAND = 'sbpl.checkSyntax';
+
+const COMPLETION_KINDS: Record<CompletionKind, CompletionItemKind> = {
+  keyword: CompletionItemKind.Keyword,
+  operation: CompletionItemKind.Function,
+  filter: CompletionItemKind.Method,
+  enumMember: CompletionItemKind.EnumMember,
+  constant: CompletionItemKind.Constant,
+  variable: CompletionItemKind.Variable,
+  function: CompletionItemKind.Function,
+};
+
+const SEVERITIES: Record<Diagnostic['severity'], DiagnosticSeverity> = {
+  error: DiagnosticSeverity.Error,
+  warning: DiagnosticSeverity.Warning,
+  information: DiagnosticSeverity.Information,
+  hint: DiagnosticSeverity.Hint,
+};
+
+const connection = createConnection(ProposedFeatures.all);
+const documents = new TextDocuments(TextDocument);
+
+let workspaceRoots: string[] = [];
+let hasConfigurationCapability = false;
+/** Settings pushed by clients that cannot be asked for configuration. */
+let pushedSettings: Partial<SBPLSettings> = {};
+/** The debounce delay from the most recently read settings. */
+let validationDelay = DEFAULT_SETTINGS.validationDelay;
+let externalChecker: ExternalChecker | undefined;
+/** URIs of the profiles found in the workspace folders, open or not. */
+let workspaceProfiles = new Set<string>();
+/** Semantic tokens last sent for each open document, to answer delta requests. */
+const tokenBuilders = new Map<string, SemanticTokensBuilder>();
+
+const scheduler = new ValidationScheduler(validateDocument);
+
+/** Reads imported profiles from open documents first, so unsaved edits are seen. */
+const documentImportHost: ImportHost = {
+  readFile(filePath: string): string | undefined {
+    const open = documents.all().find((document) => filePathOf(document.uri) === filePath);
+    return open ? open.getText() : nodeImportHost.readFile(filePath);
+  },
+};
+
+connection.onInitialize((params): InitializeResult => {
+  hasConfigurationCapability = params.capabilities.workspace?.configuration ?? false;
+  pushedSettings = settingsFrom(params.initializationOptions);
+
+  const folders = params.workspaceFolders ?? (params.rootUri ? [{ uri: params.rootUri, name: '' }] : []);
+  workspaceRoots = folders.flatMap((folder) => filePathOf(folder.uri) ?? []);
+
+  return {
+    capabilities: {
+      textDocumentSync: TextDocumentSyncKind.Incremental,
+      completionProvider: { triggerCharacters: ['(', ' ', '\n'] },
+      hoverProvider: true,
+      semanticTokensProvider: {
+        legend: { tokenTypes: [...SEMANTIC_TOKEN_TYPES], tokenModifiers: [...SEMANTIC_TOKEN_MODIFIERS] },
+        full: { delta: true },
+        range: true,
+      },
+      executeCommandProvider: { commands: [CHECK_SYNTAX_COMMAND] },
+    },
+    serverInfo: { name: 'sbpl-language-server' },
+  };
+});
+
+connection.onInitialized(() => {
+  void scanWorkspace();
+});
+
+connection.onDidChangeConfiguration((params) => {
+  pushedSettings = settingsFrom(params.settings);
+  // `sbpl.exclude` may have changed
+  void scanWorkspace().then(() => validateAll());
+});
+
+connection.onDidChangeWatchedFiles(async ({ changes }) => {
+  for (const { uri, type } of changes) {
+    const filePath = filePathOf(uri);
+    if (!filePath || !isProfilePath(filePath)) {
+      continue;
+    }
+    if (type === FileChangeType.Deleted || !(await isWorkspaceProfile(filePath))) {
+      forgetWorkspaceProfile(uri);
+    } else {
+      workspaceProfiles.add(uri);
+      if (!documents.get(uri)) {
+        scheduler.schedule(uri, 0);
+      }
+    }
+  }
+});
+
+documents.onDidChangeContent(({ document }) => {
+  scheduler.schedule(document.uri, validationDelay);
+});
+
+// Other profiles may import the saved one
+documents.onDidSave(() => {
+  validateAll();
+});
+
+documents.onDidClose(({ document }) => {
+  scheduler.cancel(document.uri);
+  tokenBuilders.delete(document.uri);
+  if (workspaceProfiles.has(document.uri)) {
+    // Report the saved contents again
+    scheduler.schedule(document.uri, 0);
+  } else {
+    connection.sendDiagnostics({ uri: document.uri, diagnostics: [] });
+  }
+});
+
+connection.onExecuteCommand((params) => {
+  if (params.command === CHECK_SYNTAX_COMMAND) {
+    validateAll(0);
+  }
+});
+
+connection.onShutdown(() => {
+  scheduler.dispose();
+  externalChecker?.dispose();
+});
+
+connection.onCompletion(async ({ textDocument, position }): Promise<CompletionItem[]> => {
+  const document = documents.get(textDocument.uri);
+  if (!document) {
+    return [];
+  }
+
+  const result = parse(document.getText());
+  const settings = await getSettings(document.uri);
+  const { definitions } = resolveImports(result.profile, filePathOf(document.uri), importOptions(document.uri, settings));
+  const { items, wordStart } = completionsAt(result, document.offsetAt(position), definitions);
+  const range: Range = { start: document.positionAt(wordStart), end: position };
+
+  return items.map((entry) => {
+    const item: CompletionItem = {
+      label: entry.label,
+      kind: COMPLETION_KINDS[entry.kind],
+      detail: entry.detail,
+      sortText: entry.sortText,
+      textEdit: { range, newText: entry.snippet ?? entry.label },
+    };
+    if (entry.documentation) {
+      item.documentation = { kind: MarkupKind.Markdown, value: entry.documentation };
+    }
+    if (entry.snippet) {
+      item.insertTextFormat = InsertTextFormat.Snippet;
+    }
+    return item;
+  });
+});
+
+connection.onHover(async ({ textDocument, position }) => {
+  const document = documents.get(textDocument.uri);
+  if (!document) {
+    return null;
+  }
+
+  const result = parse(document.getText());
+  const settings = await getSettings(document.uri);
+  const { definitions } = resolveImports(result.profile, filePathOf(document.uri), importOptions(document.uri, settings));
+  const hover = hoverAt(result, document.offsetAt(position), definitions);
+  if (!hover) {
+    return null;
+  }
+  return { contents: { kind: MarkupKind.Markdown, value: hover.contents }, range: toRange(hover.range) };
+});
+
+connection.languages.semanticTokens.on(async ({ textDocument }): Promise<SemanticTokens> => {
+  const builder = new SemanticTokensBuilder();
+  tokenBuilders.set(textDocument.uri, builder);
+  pushTokens(builder, await semanticTokensFor(textDocument.uri));
+  return builder.build();
+});
+
+connection.languages.semanticTokens.onDelta(async ({ textDocument, previousResultId }) => {
+  const builder = tokenBuilders.get(textDocument.uri) ?? new SemanticTokensBuilder();
+  tokenBuilders.set(textDocument.uri, builder);
+  builder.previousResult(previousResultId);
+  pushTokens(builder, await semanticTokensFor(textDocument.uri));
+  return builder.buildEdits();
+});
+
+connection.languages.semanticTokens.onRange(async ({ textDocument, range }): Promise<SemanticTokens> => {
+  const builder = new SemanticTokensBuilder();
+  pushTokens(builder, await semanticTokensFor(textDocument.uri, range));
+  return builder.build();
+});
+
+/** Semantic tokens of an open document, with definitions from its imports. */
+async function semanticTokensFor(uri: string, range?: Range): Promise<SemanticToken[]> {
+  const document = documents.get(uri);
+  if (!document) {
+    return [];
+  }
+  const result = parse(document.getText());
+  const settings = await getSettings(uri);
+  const { definitions } = resolveImports(result.profile, filePathOf(uri), importOptions(uri, settings));
+  const sourceRange = range
+    ? result.source.rangeAt(document.offsetAt(range.start), document.offsetAt(range.end))
+    : undefined;
+  return semanticTokens(result, buildDefinitionTable(definitions.map((entry) => entry.definition)), sourceRange);
+}
+
+function pushTokens(builder: SemanticTokensBuilder, tokens: SemanticToken[]): void {
+  for (const token of tokens) {
+    const modifiers = token.modifiers.reduce((bits, modifier) => bits | (1 << SEMANTIC_TOKEN_MODIFIERS.indexOf(modifier)), 0);
+    builder.push(token.line, token.column, token.length, SEMANTIC_TOKEN_TYPES.indexOf(token.type), modifiers);
+  }
+}
+
+function validateAll(delay = validationDelay): void {
+  const uris = new Set([...documents.all().map((document) => document.uri), ...workspaceProfiles]);
+  for (const uri of uris) {
+    scheduler.schedule(uri, delay);
+  }
+}
+
+/** Finds the profiles in the workspace folders, validating new ones and clearing those now excluded. */
+async function scanWorkspace(): Promise<void> {
+  const found = new Set<string>();
+  for (const root of workspaceRoots) {
+    const { exclude } = await getSettings(pathToFileURL(root).href);
+    for (const filePath of findProfiles(root, exclude)) {
+      found.add(pathToFileURL(filePath).href);
+    }
+  }
+
+  for (const uri of workspaceProfiles) {
+    if (!found.has(uri)) {
+      forgetWorkspaceProfile(uri);
+    }
+  }
+  for (const uri of found) {
+    if (!workspaceProfiles.has(uri) && !documents.get(uri)) {
+      scheduler.schedule(uri, 0);
+    }
+  }
+  workspaceProfiles = found;
+}
+
+/** Whether a file is in a workspace folder and not excluded there. */
+async function isWorkspaceProfile(filePath: string): Promise<boolean> {
+  const root = workspaceRoots.find((folder) => filePath.startsWith(folder + sep));
+  if (!root) {
+    return false;
+  }
+  const { exclude } = await getSettings(pathToFileURL(root).href);
+  return !isExcluded(filePath, root, exclude);
+}
+
+/** Stops reporting a profile that was deleted or excluded, unless it is open. */
+function forgetWorkspaceProfile(uri: string): void {
+  workspaceProfiles.delete(uri);
+  if (!documents.get(uri)) {
+    scheduler.cancel(uri);
+    connection.sendDiagnostics({ uri, diagnostics: [] });
+  }
+}
+
+/** The text of an open document, or else of a workspace profile on disk. */
+function textOf(uri: string): string | undefined {
+  const document = documents.get(uri);
+  if (document) {
+    return document.getText();
+  }
+  const filePath = workspaceProfiles.has(uri) ? filePathOf(uri) : undefined;
+  return filePath ? nodeImportHost.readFile(filePath) : undefined;
+}
+
+async function validateDocument(uri: string, token: CancellationFlag): Promise<void> {
+  const settings = await getSettings(uri);
+  const text = textOf(uri);
+  validationDelay = settings.validationDelay;
+  if (text === undefined || token.cancelled) {
+    return;
+  }
+  let diagnostics: LspDiagnostic[] = [];
+
+  if (settings.enableDiagnostics) {
+    const external = await checkerFor(settings)?.check(text);
+    if (token.cancelled) {
+      return;
+    }
+
+    // The built-in checker also supplies the lint rules, which the executable lacks
+    const result = validateText(text, {
+      filePath: filePathOf(uri),
+      imports: importOptions(uri, settings),
+      lint: settings.lint.rules,
+    });
+    if (external) {
+      diagnostics = [...external, ...result.diagnostics.filter((diag) => diag.rule)]
+        .map((diag) => toLspDiagnostic(diag, uri));
+    } else {
+      // Fall back to the built-in checker when the executable is unavailable
+      diagnostics = result.diagnostics.map((diag) => toLspDiagnostic(diag, uri));
+    }
+  }
+
+  connection.sendDiagnostics({ uri, diagnostics });
+}
+
+/** The running `sbpl-convert` checker for the settings, replacing one started for another executable. */
+function checkerFor(settings: SBPLSettings): ExternalChecker | undefined {
+  const executablePath = settings.checker === 'sbpl-convert' ? settings.executablePath || 'sbpl-convert' : undefined;
+  if (externalChecker?.executablePath !== executablePath) {
+    externalChecker?.dispose();
+    externalChecker = executablePath
+      ? new ExternalChecker(
+        executablePath,
+        (status: CheckerStatus) => void connection.sendNotification(CHECKER_STATUS_NOTIFICATION, status),
+        (line) => connection.console.info(`${executablePath}: ${line}`)
+      )
+      : undefined;
+  }
+  return externalChecker;
+}
+
+async function getSettings(uri: string): Promise<SBPLSettings> {
+  if (!hasConfigurationCapability) {
+    return { ...DEFAULT_SETTINGS, ...pushedSettings };
+  }
+  const configured: unknown = await connection.workspace.getConfiguration({ scopeUri: uri, section: 'sbpl' });
+  return { ...DEFAULT_SETTINGS, ...settingsFrom({ sbpl: configured }) };
+}
+
+/** The `sbpl` section of settings sent by a client, or the section itself. */
+function settingsFrom(value: unknown): Partial<SBPLSettings> {
+  if (!value || typeof value !== 'object') {
+    return {};
+  }
+  const section = 'sbpl' in value ? (value as { sbpl: unknown }).sbpl : value;
+  return section && typeof section === 'object' ? section as Partial<SBPLSettings> : {};
+}
+
+/** Import options for a document; `${workspaceFolder}` expands to the folder containing it. */
+function importOptions(uri: string, settings: SBPLSettings): ImportOptions {
+  const filePath = filePathOf(uri);
+  const owner = filePath ? workspaceRoots.find((root) => filePath.startsWith(root + sep)) : undefined;
+  const roots = owner ? [owner] : workspaceRoots;
+  return { searchPaths: expandSearchPaths(settings.importSearchPaths, roots), host: documentImportHost };
+}
+
+function filePathOf(uri: string): string | undefined {
+  return uri.startsWith('file:') ? fileURLToPath(uri) : undefined;
+}
+
+function toRange(range: SourceRange): Range {
+  return {
+    start: { line: range.start.line, character: range.start.column },
+    end: { line: range.end.line, character: range.end.column },
+  };
+}
+
+function toLspDiagnostic(diag: Diagnostic | ExternalDiagnostic, uri: string): LspDiagnostic {
+  const diagnostic: LspDiagnostic = {
+    range: toRange(diag.range),
+    message: diag.rule ? `${diag.message} (${diag.rule})` : diag.message,
+    severity: SEVERITIES[diag.severity],
+    source: 'sbpl',
+  };
+  if (diag.code) {
+    diagnostic.code = diag.code;
+  }
+  if (diag.code === DiagnosticCode.UnreachableCode || diag.code === DiagnosticCode.RedundantRule) {
+    diagnostic.tags = [DiagnosticTag.Unnecessary];
+  } else if (diag.code === DiagnosticCode.Deprecated) {
+    diagnostic.tags = [DiagnosticTag.Deprecated];
+  }
+  if (diag.relatedInformation) {
+    diagnostic.relatedInformation = diag.relatedInformation.map((info) => ({
+      location: { uri: info.filePath ? pathToFileURL(info.filePath).href : uri, range: toRange(info.range) },
+      message: info.message,
+    }));
+  }
+  return diagnostic;
+}
+
+documents.listen(connection);
+connection.listen();
@@ -0,0 +1,94 @@
+/**
+ * A position in source code.
+ *
+ * Positions are 0-indexed and mirror `SourcePosition` from SBPLCore. Columns
+ * and offsets are measured in UTF-16 code units, matching both LSP and the
+ * VS Code `TextDocument` API.
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+/** A range in source code. `start` is inclusive, `end` is exclusive. */
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export const ZERO_POSITION: SourcePosition = { line: 0, column: 0, offset: 0 };
+
+export function makeRange(start: SourcePosition, end: SourcePosition): SourceRange {
+  return { start, end };
+}
+
+/** Whether the range contains the given offset (end-exclusive). */
+export function rangeContains(range: SourceRange, offset: number): boolean {
+  return offset >= range.start.offset && offset < range.end.offset;
+}
+
+/** Whether the range contains the given offset, treating the end as inclusive. */
+export function rangeTouches(range: SourceRange, offset: number): boolean {
+  return offset >= range.start.offset && offset <= range.end.offset;
+}
+
+/** Whether two ranges overlap. */
+export function rangesOverlap(a: SourceRange, b: SourceRange): boolean {
+  return a.start.offset < b.end.offset && a.end.offset > b.start.offset;
+}
+
+/**
+ * A source text with cached line starts for offset <-> position conversion.
+ */
+export class SourceText {
+  readonly text: string;
+  private readonly lineStarts: number[];
+
+  constructor(text: string) {
+    this.text = text;
+    this.lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+      const ch = text.charCodeAt(i);
+      if (ch === 0x0a) {
+        this.lineStarts.push(i + 1);
+      } else if (ch === 0x0d && text.charCodeAt(i + 1) !== 0x0a) {
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
+
+  get lineCount(): number {
+    return this.lineStarts.length;
+  }
+
+  positionAt(offset: number): SourcePosition {
+    const clamped = Math.max(0, Math.min(offset, this.text.length));
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.lineStarts[mid] <= clamped) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low, column: clamped - this.lineStarts[low], offset: clamped };
+  }
+
+  offsetAt(line: number, column: number): number {
+    if (line >= this.lineStarts.length) {
+      return this.text.length;
+    }
+    return Math.min(this.lineStarts[Math.max(0, line)] + column, this.text.length);
+  }
+
+  rangeAt(startOffset: number, endOffset: number): SourceRange {
+    return { start: this.positionAt(startOffset), end: this.positionAt(endOffset) };
+  }
+
+  slice(range: SourceRange): string {
+    return this.text.slice(range.start.offset, range.end.offset);
+  }
+}
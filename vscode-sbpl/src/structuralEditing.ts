@@ -0,0 +1,116 @@
+import * as vscode from 'vscode';
+import { addEdits } from './convert.js';
+import type { CodeFix } from './diagnostics.js';
+import { buildDefinitionTable, type DefinitionTable } from './filters.js';
+import { documentFilePath, getImportOptions } from './importPaths.js';
+import { resolveImports } from './imports.js';
+import { checkNewName } from './occurrences.js';
+import { parse, type ParseResult } from './parser.js';
+import {
+  extractableFilter,
+  extractDefine,
+  FILTER_WRAPPERS,
+  mergeRules,
+  splitRule,
+  suggestDefineName,
+  unwrapFilter,
+  wrapFilters,
+  type FilterWrapper,
+} from './refactorings.js';
+import type { SourceRange } from './source.js';
+
+/**
+ * Commands for the structural refactorings, applied to the editor selection.
+ * The same refactorings are offered as code actions.
+ */
+
+type Refactor = (parse: ParseResult, selection: SourceRange, imported: DefinitionTable) => CodeFix | undefined;
+
+const REFACTORINGS: Record<'unwrap' | 'split' | 'merge', { refactor: Refactor; missing: string }> = {
+  unwrap: { refactor: unwrapFilter, missing: 'Place the cursor in a require-all or require-any with a single filter.' },
+  split: { refactor: splitRule, missing: 'Place the cursor in a rule with more than one operation.' },
+  merge: { refactor: mergeRules, missing: 'No adjacent rule has the same action and filters.' },
+};
+
+/** `SBPL: Wrap Filters`: wraps the selected filters, asking for the wrapper if not given. */
+export async function wrapFiltersCommand(editor: vscode.TextEditor, wrapper?: FilterWrapper): Promise<void> {
+  const picked = wrapper
+    ?? await vscode.window.showQuickPick(FILTER_WRAPPERS, { placeHolder: 'Wrap the selected filters in' }) as FilterWrapper | undefined;
+  if (!picked) {
+    return;
+  }
+  await apply(editor, (result, selection) => wrapFilters(result, selection, picked),
+    picked === 'require-not' ? 'Select a single filter to negate.' : 'Select the filters to wrap.');
+}
+
+/** `SBPL: Unwrap Filter`, `SBPL: Split Rule` and `SBPL: Merge Rules`. */
+export async function refactorCommand(editor: vscode.TextEditor, name: keyof typeof REFACTORINGS): Promise<void> {
+  const { refactor, missing } = REFACTORINGS[name];
+  await apply(editor, refactor, missing);
+}
+
+/**
+ * `SBPL: Extract Filter into Define`: asks for a name and moves the filter
+ * around the range, or the editor selection, into a new `define`.
+ */
+export async function extractDefineCommand(uri?: vscode.Uri, range?: vscode.Range): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  const document = uri
+    ? await vscode.workspace.openTextDocument(uri)
+    : editor?.document.languageId === 'sbpl' ? editor.document : undefined;
+  if (!document) {
+    return;
+  }
+
+  const result = parse(document.getText());
+  const selection = sourceRange(document, result, range ?? editor?.selection);
+  const filter = selection && extractableFilter(result, selection);
+  if (!selection || !filter) {
+    void vscode.window.showInformationMessage('Place the cursor in a filter of a rule to extract it.');
+    return;
+  }
+
+  const name = await vscode.window.showInputBox({
+    prompt: 'Name of the new definition',
+    value: suggestDefineName(result, filter),
+    validateInput: (value) => checkNewName(value, result.profile.definitions),
+  });
+  if (!name) {
+    return;
+  }
+  const fix = extractDefine(result, selection, name);
+  if (typeof fix === 'string') {
+    void vscode.window.showErrorMessage(fix);
+  } else if (fix) {
+    await applyFix(document.uri, fix);
+  }
+}
+
+async function apply(editor: vscode.TextEditor, refactor: Refactor, missing: string): Promise<void> {
+  const { document } = editor;
+  const result = parse(document.getText());
+  const { definitions } = resolveImports(result.profile, documentFilePath(document), getImportOptions(document.uri));
+  const imported = buildDefinitionTable(definitions.map((entry) => entry.definition));
+  const selection = sourceRange(document, result, editor.selection);
+  const fix = selection && refactor(result, selection, imported);
+  if (fix) {
+    await applyFix(editor.document.uri, fix);
+  } else {
+    void vscode.window.showInformationMessage(missing);
+  }
+}
+
+async function applyFix(uri: vscode.Uri, fix: CodeFix): Promise<void> {
+  const edit = new vscode.WorkspaceEdit();
+  addEdits(edit, uri, fix.edits);
+  await vscode.workspace.applyEdit(edit);
+}
+
+/** Converts an editor range to a range in the parsed source. */
+export function sourceRange(
+  document: vscode.TextDocument,
+  result: ParseResult,
+  range: vscode.Range | undefined
+): SourceRange | undefined {
+  return range ? result.source.rangeAt(document.offsetAt(range.start), document.offsetAt(range.end)) : undefined;
+}
@@ -0,0 +1,144 @@
+import type { Expr, Filter } from './ast.js';
+import type { Token } from './lexer.js';
+import type { ParseResult } from './parser.js';
+import type { SourceRange } from './source.js';
+
+/**
+ * Folding and selection ranges.
+ *
+ * Folding follows the parsed profile, so definitions, rules and filters that
+ * span several lines fold, as do block comments and runs of line comments.
+ * Selection ranges follow s-expressions in the token stream, which still
+ * works while the profile has syntax errors.
+ */
+
+export interface FoldingRange {
+  startLine: number;
+  endLine: number;
+  kind?: 'comment';
+}
+
+/** Folding ranges of a profile, sorted by start line, at most one per start line. */
+export function foldingRanges(parse: ParseResult): FoldingRange[] {
+  const ranges: FoldingRange[] = [];
+  const add = (range: SourceRange, kind?: 'comment'): void => {
+    if (range.end.line > range.start.line) {
+      ranges.push({ startLine: range.start.line, endLine: range.end.line, ...(kind ? { kind } : {}) });
+    }
+  };
+
+  const visitExpr = (expr: Expr): void => {
+    if (expr.kind === 'list') {
+      add(expr.range);
+      expr.elements.forEach(visitExpr);
+    }
+  };
+  const visitFilter = (filter: Filter): void => {
+    add(filter.range);
+    if (filter.kind === 'compound') {
+      filter.filters.forEach(visitFilter);
+    } else if (filter.kind === 'not') {
+      visitFilter(filter.filter);
+    } else if (filter.kind === 'simple') {
+      filter.args.forEach(visitExpr);
+    }
+  };
+
+  const { profile } = parse;
+  for (const definition of profile.definitions) {
+    add(definition.range);
+    visitExpr(definition.value);
+  }
+  for (const rule of profile.rules) {
+    add(rule.range);
+    rule.filters.forEach(visitFilter);
+  }
+  for (const range of commentRanges(parse.tokens)) {
+    add(range, 'comment');
+  }
+
+  // Editors keep one range per start line; the outermost is the useful one
+  const byLine = new Map<number, FoldingRange>();
+  for (const range of ranges) {
+    const existing = byLine.get(range.startLine);
+    if (!existing || range.endLine > existing.endLine) {
+      byLine.set(range.startLine, range);
+    }
+  }
+  return [...byLine.values()].sort((a, b) => a.startLine - b.startLine);
+}
+
+/**
+ * Ranges to select around an offset, innermost first: the token at the
+ * offset, then each enclosing list, then the whole text.
+ */
+export function selectionRanges(parse: ParseResult, offset: number): SourceRange[] {
+  const { source, tokens } = parse;
+  const ranges: SourceRange[] = [];
+  const add = (range: SourceRange): void => {
+    const last = ranges[ranges.length - 1];
+    if (!last || last.start.offset !== range.start.offset || last.end.offset !== range.end.offset) {
+      ranges.push(range);
+    }
+  };
+
+  const atom = tokens.find((token) => isAtom(token) && token.range.start.offset <= offset && offset <= token.range.end.offset);
+  if (atom) {
+    add(atom.range);
+  }
+
+  // Open lists before the offset, innermost last
+  const open: Token[] = [];
+  const enclosing: SourceRange[] = [];
+  for (const token of tokens) {
+    if (token.kind.type === 'leftParen') {
+      open.push(token);
+    } else if (token.kind.type === 'rightParen') {
+      const start = open.pop();
+      if (start && start.range.start.offset <= offset && offset < token.range.end.offset) {
+        enclosing.push({ start: start.range.start, end: token.range.end });
+      }
+    }
+  }
+  // Lists left open by a syntax error run to the end of the text
+  const end = source.positionAt(source.text.length);
+  for (const start of open.reverse()) {
+    if (start.range.start.offset <= offset) {
+      enclosing.push({ start: start.range.start, end });
+    }
+  }
+
+  enclosing.sort((a, b) => b.start.offset - a.start.offset).forEach(add);
+  add(source.rangeAt(0, source.text.length));
+  return ranges;
+}
+
+function isAtom(token: Token): boolean {
+  return !['leftParen', 'rightParen', 'eof'].includes(token.kind.type);
+}
+
+/** Multi-line block comments and runs of line comments on consecutive lines. */
+function commentRanges(tokens: Token[]): SourceRange[] {
+  const ranges: SourceRange[] = [];
+  let run: SourceRange | undefined;
+  for (const token of tokens) {
+    for (const piece of [...token.leadingTrivia, ...token.trailingTrivia]) {
+      if (piece.kind === 'blockComment') {
+        ranges.push(piece.range);
+      } else if (piece.kind === 'lineComment') {
+        if (run && piece.range.start.line === run.end.line + 1) {
+          run = { start: run.start, end: piece.range.end };
+        } else {
+          if (run) {
+            ranges.push(run);
+          }
+          run = piece.range;
+        }
+      }
+    }
+  }
+  if (run) {
+    ranges.push(run);
+  }
+  return ranges;
+}
@@ -0,0 +1,30 @@
+import * as vscode from 'vscode';
+import { toRange } from './convert.js';
+import { parse } from './parser.js';
+import { foldingRanges, selectionRanges } from './structure.js';
+
+/** Folding of definitions, rules, filters and comments from the parsed profile. */
+export class SBPLFoldingRangeProvider implements vscode.FoldingRangeProvider {
+  provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
+    return foldingRanges(parse(document.getText())).map((range) => new vscode.FoldingRange(
+      range.startLine,
+      range.endLine,
+      range.kind === 'comment' ? vscode.FoldingRangeKind.Comment : undefined
+    ));
+  }
+}
+
+/** Expand Selection by s-expression. */
+export class SBPLSelectionRangeProvider implements vscode.SelectionRangeProvider {
+  provideSelectionRanges(document: vscode.TextDocument, positions: vscode.Position[]): vscode.SelectionRange[] {
+    const result = parse(document.getText());
+    return positions.map((position) => {
+      const ranges = selectionRanges(result, document.offsetAt(position));
+      let selection: vscode.SelectionRange | undefined;
+      for (const range of ranges.reverse()) {
+        selection = new vscode.SelectionRange(toRange(range), selection);
+      }
+      return selection ?? new vscode.SelectionRange(new vscode.Range(position, position));
+    });
+  }
+}
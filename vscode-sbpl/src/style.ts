@@ -0,0 +1,74 @@
+import type { Expr, Filter, Profile } from './ast.js';
+import { createDiagnostic, DiagnosticCode, type Diagnostic } from './diagnostics.js';
+import { buildDefinitionTable } from './filters.js';
+import { SUPPORTED_VERSION } from './semantic.js';
+
+/**
+ * Style checks: a missing version declaration (W006) and definitions the
+ * profile never uses (W004). Unused definitions are only a warning, since
+ * library profiles define names for the profiles that import them.
+ */
+export function checkStyle(profile: Profile): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  if (!profile.version && profile.rules.length > 0) {
+    diagnostics.push(createDiagnostic(
+      DiagnosticCode.StyleIssue,
+      `Missing (version ${SUPPORTED_VERSION}) declaration`,
+      { start: profile.range.start, end: profile.range.start }
+    ));
+  }
+
+  const referenced = collectReferences(profile);
+  for (const definition of buildDefinitionTable(profile.definitions).values()) {
+    if (!referenced.has(definition.name)) {
+      diagnostics.push(createDiagnostic(
+        DiagnosticCode.UnusedDefinition,
+        `Definition '${definition.name}' is never used`,
+        definition.nameRange
+      ));
+    }
+  }
+
+  return diagnostics;
+}
+
+/** Names of every symbol referenced outside its own definition. */
+function collectReferences(profile: Profile): Set<string> {
+  const names = new Set<string>();
+
+  const visitExpr = (expr: Expr): void => {
+    if (expr.kind === 'symbol') {
+      names.add(expr.name);
+    } else if (expr.kind === 'list') {
+      expr.elements.forEach(visitExpr);
+    }
+  };
+
+  const visitFilter = (filter: Filter): void => {
+    switch (filter.kind) {
+      case 'simple':
+        names.add(filter.type);
+        filter.args.forEach(visitExpr);
+        break;
+      case 'compound':
+        filter.filters.forEach(visitFilter);
+        break;
+      case 'not':
+        visitFilter(filter.filter);
+        break;
+      case 'expression':
+        visitExpr(filter.expr);
+        break;
+    }
+  };
+
+  for (const definition of profile.definitions) {
+    visitExpr(definition.value);
+  }
+  for (const rule of profile.rules) {
+    rule.operations.forEach((op) => names.add(op.name));
+    rule.filters.forEach(visitFilter);
+  }
+  return names;
+}
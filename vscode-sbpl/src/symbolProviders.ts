@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import { toRange } from './convert.js';
+import { parse } from './parser.js';
+import { documentSymbols, workspaceSymbols, type ProfileSymbol, type ProfileSymbolKind } from './symbols.js';
+
+/** Glob matching every SBPL file in the workspace. */
+export const SBPL_FILES_GLOB = '**/*.{sb,sbpl}';
+
+const MAX_WORKSPACE_SYMBOLS = 1000;
+
+const SYMBOL_KINDS: Record<ProfileSymbolKind, vscode.SymbolKind> = {
+  header: vscode.SymbolKind.Property,
+  variable: vscode.SymbolKind.Variable,
+  function: vscode.SymbolKind.Function,
+  category: vscode.SymbolKind.Namespace,
+  rule: vscode.SymbolKind.Event,
+};
+
+/** Outline view: header declarations, definitions and rules by category. */
+export class SBPLDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+  provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+    return documentSymbols(parse(document.getText()).profile).map(toDocumentSymbol);
+  }
+}
+
+/** Go to Symbol in Workspace: definitions and operation usages in every profile. */
+export class SBPLWorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
+  async provideWorkspaceSymbols(
+    query: string,
+    token: vscode.CancellationToken
+  ): Promise<vscode.SymbolInformation[]> {
+    const files = await vscode.workspace.findFiles(SBPL_FILES_GLOB, undefined, undefined, token);
+    const results: vscode.SymbolInformation[] = [];
+
+    for (const uri of files) {
+      if (token.isCancellationRequested || results.length >= MAX_WORKSPACE_SYMBOLS) {
+        break;
+      }
+      const text = await readText(uri);
+      for (const symbol of workspaceSymbols(parse(text).profile, query)) {
+        const kind = symbol.kind === 'operation'
+          ? vscode.SymbolKind.Event
+          : SYMBOL_KINDS[symbol.kind];
+        results.push(new vscode.SymbolInformation(
+          symbol.name,
+          kind,
+          symbol.containerName ?? vscode.workspace.asRelativePath(uri),
+          new vscode.Location(uri, toRange(symbol.range))
+        ));
+      }
+    }
+
+    return results.slice(0, MAX_WORKSPACE_SYMBOLS);
+  }
+}
+
+/** The text of a file, taken from its editor when it is open. */
+export async function readText(uri: vscode.Uri): Promise<string> {
+  const open = vscode.workspace.textDocuments.find((doc) => doc.uri.toString() === uri.toString());
+  if (open) {
+    return open.getText();
+  }
+  return new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+}
+
+function toDocumentSymbol(symbol: ProfileSymbol): vscode.DocumentSymbol {
+  const result = new vscode.DocumentSymbol(
+    symbol.name,
+    symbol.detail,
+    SYMBOL_KINDS[symbol.kind],
+    toRange(symbol.range),
+    toRange(symbol.selectionRange)
+  );
+  result.children = symbol.children.map(toDocumentSymbol);
+  return result;
+}
@@ -0,0 +1,129 @@
+import type { Profile, Rule } from './ast.js';
+import { buildDefinitionTable, ruleOperationNames, type DefinitionTable } from './filters.js';
+import { operationCategory } from './operations.js';
+import type { SourceRange } from './source.js';
+
+/**
+ * Outline and workspace symbols for profiles.
+ */
+
+export type ProfileSymbolKind = 'header' | 'variable' | 'function' | 'category' | 'rule';
+
+export interface ProfileSymbol {
+  name: string;
+  detail: string;
+  kind: ProfileSymbolKind;
+  /** The whole declaration. */
+  range: SourceRange;
+  /** The part to reveal when the symbol is selected. */
+  selectionRange: SourceRange;
+  children: ProfileSymbol[];
+}
+
+export type WorkspaceSymbolKind = 'variable' | 'function' | 'operation';
+
+export interface WorkspaceSymbol {
+  name: string;
+  kind: WorkspaceSymbolKind;
+  range: SourceRange;
+  /** The rule an operation is used in. */
+  containerName?: string;
+}
+
+const UNCATEGORIZED = 'other';
+
+/**
+ * The outline of a profile: header declarations, then definitions, then rules
+ * grouped by the category of their first operation.
+ */
+export function documentSymbols(profile: Profile): ProfileSymbol[] {
+  const symbols: ProfileSymbol[] = [];
+
+  if (profile.version) {
+    const { version } = profile;
+    symbols.push(leaf(`version ${version.version}`, 'Profile version', 'header', version.range, version.versionRange));
+  }
+  if (profile.debugMode) {
+    const { debugMode } = profile;
+    symbols.push(leaf(`debug ${debugMode.action}`, 'Debug mode', 'header', debugMode.range, debugMode.range));
+  }
+  for (const decl of profile.imports) {
+    symbols.push(leaf(`import "${decl.path}"`, 'Import', 'header', decl.range, decl.pathRange));
+  }
+
+  for (const definition of profile.definitions) {
+    const kind = definition.isFunction ? 'function' : 'variable';
+    symbols.push(leaf(definition.name, 'define', kind, definition.range, definition.nameRange));
+  }
+
+  const definitions = buildDefinitionTable(profile.definitions);
+  const categories = new Map<string, ProfileSymbol[]>();
+  for (const rule of profile.rules) {
+    const [first] = ruleOperationNames(rule, definitions);
+    const category = (first && operationCategory(first)) ?? UNCATEGORIZED;
+    const rules = categories.get(category) ?? [];
+    rules.push(leaf(ruleLabel(rule, definitions), plural(rule.filters.length, 'filter'), 'rule', rule.range, rule.range));
+    categories.set(category, rules);
+  }
+
+  for (const [category, rules] of categories) {
+    const range = { start: rules[0].range.start, end: rules[rules.length - 1].range.end };
+    symbols.push({
+      name: category,
+      detail: plural(rules.length, 'rule'),
+      kind: 'category',
+      range,
+      selectionRange: rules[0].selectionRange,
+      children: rules,
+    });
+  }
+
+  return symbols;
+}
+
+/**
+ * Definitions and operation usages in a profile whose name contains `query`,
+ * ignoring case. An empty query matches everything.
+ */
+export function workspaceSymbols(profile: Profile, query: string): WorkspaceSymbol[] {
+  const needle = query.toLowerCase();
+  const matches = (name: string): boolean => name.toLowerCase().includes(needle);
+  const symbols: WorkspaceSymbol[] = [];
+
+  for (const definition of profile.definitions) {
+    if (matches(definition.name)) {
+      const kind = definition.isFunction ? 'function' : 'variable';
+      symbols.push({ name: definition.name, kind, range: definition.nameRange });
+    }
+  }
+
+  const definitions = buildDefinitionTable(profile.definitions);
+  for (const rule of profile.rules) {
+    for (const op of rule.operations) {
+      if (!definitions.has(op.name) && matches(op.name)) {
+        symbols.push({ name: op.name, kind: 'operation', range: op.range, containerName: ruleLabel(rule, definitions) });
+      }
+    }
+  }
+
+  return symbols;
+}
+
+/** A rule's label: its action and operations, e.g. `allow file-read* mach-lookup`. */
+export function ruleLabel(rule: Rule, definitions: DefinitionTable): string {
+  return [rule.action, ...ruleOperationNames(rule, definitions)].join(' ');
+}
+
+function leaf(
+  name: string,
+  detail: string,
+  kind: ProfileSymbolKind,
+  range: SourceRange,
+  selectionRange: SourceRange
+): ProfileSymbol {
+  return { name, detail, kind, range, selectionRange, children: [] };
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'bun:test';
+import { analyzeRules } from '../analyzer.js';
+import { DiagnosticCode } from '../diagnostics.js';
+import { parse } from '../parser.js';
+
+function analyze(source: string) {
+  return analyzeRules(parse(source).profile);
+}
+
+describe('Rule analysis', () => {
+  test('reports a deny shadowed by a later broader allow', () => {
+    const diagnostics = analyze([
+      '(deny file-write-data (subpath "/x"))',
+      '(allow file-write* (subpath "/"))',
+    ].join('\n'));
+    expect(diagnostics.map((d) => d.code)).toEqual([DiagnosticCode.UnreachableCode]);
+    expect(diagnostics[0].relatedInformation?.[0].range.start.line).toBe(1);
+  });
+
+  test('does not report a rule that is narrower in the later rule', () => {
+    expect(analyze([
+      '(deny file-write* (subpath "/x"))',
+      '(allow file-write-data (subpath "/x"))',
+    ].join('\n'))).toEqual([]);
+  });
+
+  test('reports operations covered by a wildcard in the same rule', () => {
+    const diagnostics = analyze('(allow file-read-data file-read* (subpath "/usr"))');
+    expect(diagnostics.map((d) => d.code)).toEqual([DiagnosticCode.RedundantRule]);
+    expect(diagnostics[0].message).toContain("'file-read*'");
+  });
+
+  test('understands literal and subpath containment', () => {
+    expect(analyze([
+      '(allow file-read-data (literal "/usr/lib/libc.dylib"))',
+      '(allow file-read-data (subpath "/usr"))',
+    ].join('\n')).map((d) => d.code)).toEqual([DiagnosticCode.RedundantRule]);
+  });
+
+  test('understands require-not', () => {
+    expect(analyze([
+      '(deny file-read-data (subpath "/etc"))',
+      '(allow file-read* (require-not (subpath "/private")))',
+    ].join('\n')).map((d) => d.code)).toEqual([DiagnosticCode.UnreachableCode]);
+
+    expect(analyze([
+      '(deny file-read-data (subpath "/private/etc"))',
+      '(allow file-read* (require-not (subpath "/private")))',
+    ].join('\n'))).toEqual([]);
+  });
+
+  test('expands define references', () => {
+    expect(analyze([
+      '(define system-paths (require-any (subpath "/System") (subpath "/usr")))',
+      '(allow file-read-data (literal "/usr/bin/true"))',
+      '(allow file-read* system-paths)',
+    ].join('\n')).map((d) => d.code)).toEqual([DiagnosticCode.RedundantRule]);
+  });
+
+  test('reports an earlier equivalent rule only without interference', () => {
+    expect(analyze([
+      '(allow file-read* (subpath "/usr"))',
+      '(allow file-read-data (subpath "/usr/lib"))',
+    ].join('\n')).map((d) => d.code)).toEqual([DiagnosticCode.RedundantRule]);
+
+    expect(analyze([
+      '(allow file-read* (subpath "/usr"))',
+      '(deny file-read-data (subpath "/usr/local"))',
+      '(allow file-read-data (subpath "/usr/local/bin"))',
+    ].join('\n'))).toEqual([]);
+  });
+
+  test('ignores default rules', () => {
+    expect(analyze('(deny default)\n(allow default)')).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, test } from 'bun:test';
+import { completionContextAt } from '../completionContext.js';
+import { filterAppliesTo } from '../operations.js';
+
+/** The completion context at the `‸` marker. */
+function contextAt(marked: string): ReturnType<typeof completionContextAt> {
+  const offset = marked.indexOf('‸');
+  return completionContextAt(marked.slice(0, offset) + marked.slice(offset + 1), offset);
+}
+
+describe('Completion context', () => {
+  test('offers declarations at the top level', () => {
+    expect(contextAt('(version 1)\n‸')).toMatchObject({ kind: 'declaration', inParens: false });
+    expect(contextAt('(version 1)\n(al‸')).toMatchObject({ kind: 'declaration', inParens: true, wordStart: 13 });
+  });
+
+  test('offers operations after allow and deny, including after several', () => {
+    expect(contextAt('(allow ‸')).toMatchObject({ kind: 'operation', listed: [] });
+    expect(contextAt('(deny file-read* mach-lookup net‸)')).toMatchObject({
+      kind: 'operation',
+      listed: ['file-read*', 'mach-lookup'],
+      wordStart: 29,
+    });
+  });
+
+  test('offers filters for the operations of the enclosing rule', () => {
+    const context = contextAt('(allow mach-lookup\n  (‸))');
+    expect(context).toMatchObject({ kind: 'filter', inParens: true, operations: ['mach-lookup'] });
+    expect(contextAt('(allow file-read* (require-any (literal "/a") ‸))')).toMatchObject({
+      kind: 'filter',
+      inParens: false,
+      operations: ['file-read*'],
+    });
+  });
+
+  test('offers values after filters and declarations', () => {
+    expect(contextAt('(allow file-read* (vnode-type ‸))')).toMatchObject({ kind: 'value', head: 'vnode-type', argIndex: 0 });
+    expect(contextAt('(allow network* (remote tcp ‸))')).toMatchObject({ kind: 'value', head: 'remote', argIndex: 1 });
+    expect(contextAt('(deny default (with ‸))')).toMatchObject({ kind: 'value', head: 'with' });
+    expect(contextAt('(debug ‸)')).toMatchObject({ kind: 'value', head: 'debug' });
+  });
+
+  test('ignores parentheses in strings and comments', () => {
+    expect(contextAt('(allow file-read* (literal "/a(b") ; (deny\n  ‸)')).toMatchObject({ kind: 'filter' });
+    expect(contextAt('#| (allow |# (allow ‸')).toMatchObject({ kind: 'operation' });
+  });
+
+  test('completes nothing inside strings, comments and define names', () => {
+    expect(contextAt('(allow file-read* (literal "/us‸"))').kind).toBe('none');
+    expect(contextAt('(allow file-read* (literal "/us‸').kind).toBe('none');
+    expect(contextAt('; (allow ‸').kind).toBe('none');
+    expect(contextAt('(define ‸').kind).toBe('none');
+    expect(contextAt('(define (‸').kind).toBe('none');
+    expect(contextAt('(define tmp (‸').kind).toBe('filter');
+  });
+});
+
+describe('Filter applicability', () => {
+  test('limits filters to matching operations', () => {
+    expect(filterAppliesTo('global-name', ['mach-lookup'])).toBe(true);
+    expect(filterAppliesTo('subpath', ['mach-lookup'])).toBe(false);
+    expect(filterAppliesTo('subpath', ['mach-lookup', 'file-read-data'])).toBe(true);
+    expect(filterAppliesTo('subpath', ['file*'])).toBe(true);
+  });
+
+  test('allows every filter without known operations', () => {
+    expect(filterAppliesTo('global-name', [])).toBe(true);
+    expect(filterAppliesTo('global-name', ['default'])).toBe(true);
+    expect(filterAppliesTo('require-any', ['mach-lookup'])).toBe(true);
+  });
+});
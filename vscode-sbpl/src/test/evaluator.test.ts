@@ -0,0 +1,169 @@
+import { describe, expect, test } from 'bun:test';
+import { filterToString } from '../ast.js';
+import { evaluateAccess, type AccessQuery } from '../evaluator.js';
+import { buildDefinitionTable } from '../filters.js';
+import { parse } from '../parser.js';
+
+function evaluate(source: string, query: AccessQuery): ReturnType<typeof evaluateAccess> {
+  return evaluateAccess(parse(source).profile, query);
+}
+
+/** Source line (1-based) of the deciding rule. */
+function ruleLine(result: ReturnType<typeof evaluateAccess>): number | undefined {
+  return result.rule ? result.rule.range.start.line + 1 : undefined;
+}
+
+function filterText(result: ReturnType<typeof evaluateAccess>): string | undefined {
+  const filter = result.filter;
+  if (filter?.kind !== 'simple') {
+    return undefined;
+  }
+  return filterToString(filter);
+}
+
+describe('Access evaluation', () => {
+  test('allows when no rule matches and honors (deny default)', () => {
+    expect(evaluate('(version 1)\n', { operation: 'file-read-data', path: '/etc/hosts' }).decision).toBe('allow');
+
+    const result = evaluate('(version 1)\n(deny default)\n', { operation: 'file-read-data', path: '/etc/hosts' });
+    expect(result.decision).toBe('deny');
+    expect(ruleLine(result)).toBe(2);
+    expect(result.filter).toBeUndefined();
+  });
+
+  test('lets the last matching rule win', () => {
+    const source = [
+      '(version 1)',
+      '(deny default)',
+      '(allow file-read* (subpath "/usr"))',
+      '(deny file-read-data (subpath "/usr/local"))',
+    ].join('\n');
+    expect(ruleLine(evaluate(source, { operation: 'file-read-data', path: '/usr/lib/dyld' }))).toBe(3);
+    expect(evaluate(source, { operation: 'file-read-data', path: '/usr/local/bin/tool' }).decision).toBe('deny');
+    expect(evaluate(source, { operation: 'file-read-metadata', path: '/usr/local/bin/tool' }).decision).toBe('allow');
+    expect(ruleLine(evaluate(source, { operation: 'file-write-data', path: '/usr/lib/dyld' }))).toBe(2);
+  });
+
+  test('falls back to default only when no rule for the operation matches', () => {
+    const source = ['(version 1)', '(allow file-read* (subpath "/System"))', '(deny default)'].join('\n');
+    const result = evaluate(source, { operation: 'file-read-data', path: '/System/Library' });
+    expect(result.decision).toBe('allow');
+    expect(ruleLine(result)).toBe(2);
+    expect(ruleLine(evaluate(source, { operation: 'file-read-data', path: '/etc/hosts' }))).toBe(3);
+  });
+
+  test('matches path filters', () => {
+    const source = [
+      '(deny default)',
+      '(allow file-read* (literal "/etc/hosts"))',
+      '(allow file-read* (subpath "/System"))',
+      '(allow file-read* (prefix "/private/tmp/build-"))',
+      '(allow file-read* (regex #"^/Library/Logs/.*\\.log$"))',
+    ].join('\n');
+    const decision = (path: string): string => evaluate(source, { operation: 'file-read-data', path }).decision;
+
+    expect(decision('/etc/hosts')).toBe('allow');
+    expect(decision('/etc/hosts.bak')).toBe('deny');
+    expect(decision('/System')).toBe('allow');
+    expect(decision('/System/Library/Frameworks')).toBe('allow');
+    expect(decision('/SystemVolume')).toBe('deny');
+    expect(decision('/private/tmp/build-42/out')).toBe('allow');
+    expect(decision('/Library/Logs/install.log')).toBe('allow');
+    expect(decision('/Library/Logs/install.txt')).toBe('deny');
+  });
+
+  test('resolves home-relative filters', () => {
+    const source = '(deny default)\n(allow file-read* (home-subpath "/Documents"))\n';
+    expect(evaluate(source, { operation: 'file-read-data', path: '/Users/alex/Documents/a.txt' }).decision).toBe('allow');
+    expect(evaluate(source, { operation: 'file-read-data', path: '/Users/alex/Desktop/a.txt' }).decision).toBe('deny');
+
+    const query = { operation: 'file-read-data', path: '/home/alex/Documents/a.txt', homeDirectory: '/home/alex' };
+    expect(evaluate(source, query).decision).toBe('allow');
+  });
+
+  test('expands defines and function defines', () => {
+    const source = [
+      '(deny default)',
+      '(define logs (subpath "/var/log"))',
+      '(define (home-dir path) (home-subpath path))',
+      '(allow file-read* logs)',
+      '(allow file-write* (home-dir "/Library/Caches"))',
+    ].join('\n');
+
+    const logs = evaluate(source, { operation: 'file-read-data', path: '/var/log/system.log' });
+    expect(ruleLine(logs)).toBe(4);
+    expect(filterText(logs)).toBe('(subpath "/var/log")');
+
+    const caches = evaluate(source, { operation: 'file-write-create', path: '/Users/alex/Library/Caches/x' });
+    expect(caches.decision).toBe('allow');
+    expect(filterText(caches)).toBe('(home-subpath "/Library/Caches")');
+  });
+
+  test('uses definitions from imports', () => {
+    const imported = buildDefinitionTable(parse('(define logs (subpath "/var/log"))\n').profile.definitions);
+    const { profile } = parse('(deny default)\n(allow file-read* logs)\n');
+    expect(evaluateAccess(profile, { operation: 'file-read-data', path: '/var/log/x' }, imported).decision).toBe('allow');
+  });
+
+  test('reports the filter that decided a require-* tree', () => {
+    const source = [
+      '(deny default)',
+      '(allow file-read*',
+      '  (require-all',
+      '    (subpath "/Users")',
+      '    (require-not (subpath "/Users/Shared/private"))',
+      '    (require-any (regex #"\\.txt$") (literal "/Users/shared/notes"))))',
+    ].join('\n');
+
+    const txt = evaluate(source, { operation: 'file-read-data', path: '/Users/alex/a.txt' });
+    expect(txt.decision).toBe('allow');
+    expect(filterText(txt)).toBe('(regex #"\\.txt$")');
+
+    const notes = evaluate(source, { operation: 'file-read-data', path: '/Users/shared/notes' });
+    expect(notes.decision).toBe('allow');
+    expect(filterText(notes)).toBe('(literal "/Users/shared/notes")');
+
+    const image = evaluate(source, { operation: 'file-read-data', path: '/Users/alex/a.png' });
+    expect(image.decision).toBe('deny');
+    expect(ruleLine(image)).toBe(1);
+
+    const secret = evaluate(source, { operation: 'file-read-data', path: '/Users/Shared/private/a.txt' });
+    expect(secret.decision).toBe('deny');
+    expect(ruleLine(secret)).toBe(1);
+  });
+
+  test('matches mach services, network addresses and IOKit classes', () => {
+    const source = [
+      '(deny default)',
+      '(allow mach-lookup (global-name "com.apple.system.logger"))',
+      '(allow mach-lookup (global-name-regex #"^com\\.apple\\.cfprefsd\\."))',
+      '(allow network-outbound (remote tcp "*:443"))',
+      '(allow network-outbound (remote ip "localhost:*"))',
+      '(allow iokit-open (iokit-user-client-class "IOHIDLibUserClient"))',
+    ].join('\n');
+
+    expect(evaluate(source, { operation: 'mach-lookup', globalName: 'com.apple.system.logger' }).decision).toBe('allow');
+    expect(evaluate(source, { operation: 'mach-lookup', globalName: 'com.apple.cfprefsd.daemon' }).decision).toBe('allow');
+    expect(evaluate(source, { operation: 'mach-lookup', globalName: 'com.apple.windowserver' }).decision).toBe('deny');
+
+    expect(evaluate(source, { operation: 'network-outbound', address: 'example.com:443', protocol: 'tcp' }).decision).toBe('allow');
+    expect(evaluate(source, { operation: 'network-outbound', address: 'example.com:443', protocol: 'udp' }).decision).toBe('deny');
+    expect(evaluate(source, { operation: 'network-outbound', address: '127.0.0.1:8080', protocol: 'udp' }).decision).toBe('allow');
+    expect(evaluate(source, { operation: 'network-outbound', address: 'example.com:80', protocol: 'tcp' }).decision).toBe('deny');
+
+    expect(evaluate(source, { operation: 'iokit-open', iokitClass: 'IOHIDLibUserClient' }).decision).toBe('allow');
+    expect(evaluate(source, { operation: 'iokit-open', iokitClass: 'AGPMClient' }).decision).toBe('deny');
+  });
+
+  test('reports rules it cannot evaluate', () => {
+    const source = [
+      '(deny default)',
+      '(allow file-read* (subpath "/usr"))',
+      '(deny file-read* (extension "com.apple.app-sandbox.read"))',
+    ].join('\n');
+    const result = evaluate(source, { operation: 'file-read-data', path: '/usr/lib/dyld' });
+    expect(result.decision).toBe('allow');
+    expect(ruleLine(result)).toBe(2);
+    expect(result.undetermined.map((rule) => rule.range.start.line + 1)).toEqual([3]);
+  });
+});
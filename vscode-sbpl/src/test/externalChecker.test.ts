@@ -0,0 +1,99 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ExternalChecker, type CheckerStatus } from '../externalChecker.js';
+
+/** Answers like `sbpl-convert serve`, reporting its pid; text containing `crash` makes it exit. */
+const FAKE_SERVE = `
+import { createInterface } from 'node:readline';
+for await (const line of createInterface({ input: process.stdin })) {
+  const { id, text } = JSON.parse(line);
+  if (text.includes('crash')) {
+    console.error('fatal: parser crashed');
+    process.exit(3);
+  }
+  const range = { start: { line: 1, column: 2 }, end: { line: 1, column: 5 } };
+  console.error('checked ' + id);
+  console.log(JSON.stringify({ id, diagnostics: [{ severity: 'warning', message: 'pid ' + process.pid, code: 'W006', range }] }));
+}
+`;
+
+/** An executable predating `serve`, which treats it as a missing file. */
+const FAKE_OLD = `
+console.error('Error: File not found: serve');
+process.exit(1);
+`;
+
+let root: string;
+
+function executable(name: string, script: string): string {
+  writeFileSync(join(root, `${name}.ts`), script);
+  const path = join(root, name);
+  writeFileSync(path, `#!/bin/sh\nexec "${process.execPath}" "${join(root, `${name}.ts`)}" "$@"\n`);
+  chmodSync(path, 0o755);
+  return path;
+}
+
+beforeAll(() => {
+  root = mkdtempSync(join(tmpdir(), 'sbpl-checker-'));
+});
+
+afterAll(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('External checker', () => {
+  test('checks every text with one process', async () => {
+    const checker = new ExternalChecker(executable('serve', FAKE_SERVE));
+    try {
+      const [first, second] = await Promise.all([checker.check('(version 1)\n'), checker.check('(version 1)\n')]);
+      expect(first).toEqual([{
+        code: 'W006',
+        message: second![0].message,
+        severity: 'warning',
+        range: { start: { line: 0, column: 1, offset: 1 }, end: { line: 0, column: 4, offset: 4 } },
+      }]);
+      expect(first![0].message).toStartWith('pid ');
+    } finally {
+      checker.dispose();
+    }
+  });
+
+  test('reports crashes with the exit code and restarts', async () => {
+    const statuses: CheckerStatus[] = [];
+    const stderr: string[] = [];
+    const checker = new ExternalChecker(
+      executable('crashing', FAKE_SERVE),
+      (status) => statuses.push(status),
+      (line) => stderr.push(line)
+    );
+    try {
+      const before = await checker.check('(version 1)');
+      expect(await checker.check('crash')).toBeUndefined();
+      const crash = statuses.find((status) => status.state === 'crashed');
+      expect(crash?.message).toEndWith('exited with code 3; restarting it on the next check');
+      expect(crash?.detail).toEndWith('fatal: parser crashed');
+      expect(stderr).toEqual(['checked 1', 'fatal: parser crashed']);
+
+      const after = await checker.check('(version 1)');
+      expect(after![0].message).not.toBe(before![0].message);
+      expect(statuses.map((status) => status.state)).toEqual(['running', 'crashed', 'running']);
+    } finally {
+      checker.dispose();
+    }
+  });
+
+  test('falls back when the executable is missing or lacks serve', async () => {
+    const statuses: CheckerStatus[] = [];
+    const missing = new ExternalChecker(join(root, 'missing'), (status) => statuses.push(status));
+    expect(await missing.check('(version 1)')).toBeUndefined();
+    expect(statuses.at(-1)).toEqual({ state: 'unavailable', message: `${join(root, 'missing')} was not found; using the built-in checker` });
+
+    const old = new ExternalChecker(executable('old', FAKE_OLD), (status) => statuses.push(status));
+    expect(await old.check('(version 1)')).toBeUndefined();
+    expect(statuses.at(-1)?.message).toContain("before answering; does it support 'sbpl-convert serve'?");
+    expect(await old.check('(version 1)')).toBeUndefined();
+    expect(statuses.filter((status) => status.state === 'running')).toHaveLength(2);
+  });
+});
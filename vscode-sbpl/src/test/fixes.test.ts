@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test';
+import { DiagnosticCode, type TextEdit } from '../diagnostics.js';
+import { collectFixAllEdits, computeFixes } from '../fixes.js';
+import { validateText } from '../validator.js';
+
+function applyEdits(text: string, edits: TextEdit[]): string {
+  const sorted = [...edits].sort((a, b) =>
+    b.range.start.offset - a.range.start.offset || b.range.end.offset - a.range.end.offset);
+  let result = text;
+  for (const edit of sorted) {
+    result = result.slice(0, edit.range.start.offset) + edit.newText + result.slice(edit.range.end.offset);
+  }
+  return result;
+}
+
+function fix(source: string, code: DiagnosticCode): string {
+  const { parse: result, diagnostics } = validateText(source);
+  const diagnostic = diagnostics.find((d) => d.code === code);
+  expect(diagnostic).toBeDefined();
+  const [first] = computeFixes(diagnostic!, result);
+  expect(first).toBeDefined();
+  return applyEdits(source, first.edits);
+}
+
+describe('Quick fixes', () => {
+  test('replaces unknown operations and filters with the closest match', () => {
+    const source = '(version 1)\n(allow file-raed-data (subpathh "/usr"))';
+    expect(fix(source, DiagnosticCode.UnknownOperation)).toBe('(version 1)\n(allow file-read-data (subpathh "/usr"))');
+    expect(fix(source, DiagnosticCode.InvalidFilterType)).toBe('(version 1)\n(allow file-raed-data (subpath "/usr"))');
+    expect(fix('(version 1)\n(allow file-raed-data file-read-data)', DiagnosticCode.UnknownOperation))
+      .toBe('(version 1)\n(allow file-read-data)');
+  });
+
+  test('inserts missing close parens', () => {
+    expect(fix('(version 1)\n(allow file-read* (subpath "/usr")\n', DiagnosticCode.ExpectedCloseParen))
+      .toBe('(version 1)\n(allow file-read* (subpath "/usr"))\n');
+  });
+
+  test('removes operations covered by a wildcard', () => {
+    expect(fix('(version 1)\n(allow file-read* file-read-data)', DiagnosticCode.RedundantRule))
+      .toBe('(version 1)\n(allow file-read*)');
+  });
+
+  test('adds a missing version and removes unused definitions', () => {
+    expect(fix('(deny default)', DiagnosticCode.StyleIssue)).toBe('(version 1)\n(deny default)');
+    expect(fix('(version 1)\n(define unused (subpath "/tmp"))\n(deny default)\n', DiagnosticCode.UnusedDefinition))
+      .toBe('(version 1)\n(deny default)\n');
+  });
+
+  test('fix all applies every preferred fix', () => {
+    const source = '(define unused (subpath "/tmp"))\n(allow file-raed-data file-read-data)\n';
+    const { parse: result, diagnostics } = validateText(source);
+    // Unused definitions may be used by profiles that import this one
+    expect(applyEdits(source, collectFixAllEdits(diagnostics, result)))
+      .toBe('(version 1)\n(define unused (subpath "/tmp"))\n(allow file-read-data)\n');
+  });
+
+  test('fix all leaves no duplicate operations', () => {
+    const source = '(version 1)\n(allow file-raed-data file-write-data file-read-dta)\n';
+    const { parse: result, diagnostics } = validateText(source);
+    expect(applyEdits(source, collectFixAllEdits(diagnostics, result)))
+      .toBe('(version 1)\n(allow file-read-data file-write-data)\n');
+  });
+});
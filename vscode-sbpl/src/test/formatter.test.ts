@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'bun:test';
+import { formatRange, formatText } from '../formatter.js';
+
+describe('Formatter', () => {
+  test('puts each filter on its own line and indents compound filters', () => {
+    const source = '(version   1)\n(allow file-read*    (subpath "/usr") (require-any (literal "/a") (literal "/b")))\n';
+    expect(formatText(source)).toBe([
+      '(version 1)',
+      '(allow file-read*',
+      '  (subpath "/usr")',
+      '  (require-any',
+      '    (literal "/a")',
+      '    (literal "/b")))',
+      '',
+    ].join('\n'));
+  });
+
+  test('keeps short forms on one line', () => {
+    expect(formatText('( deny  default )\n(define x (require-not (literal "/tmp")))')).toBe(
+      '(deny default)\n(define x (require-not (literal "/tmp")))\n'
+    );
+  });
+
+  test('keeps comments in place', () => {
+    const source = [
+      ';; header',
+      '(allow mach-lookup ; services',
+      '      ;; logging',
+      '  (global-name "com.apple.logd")',
+      '  #| block |# (global-name "com.apple.x"))',
+      '',
+      '',
+      '',
+      '; end',
+    ].join('\n');
+    expect(formatText(source)).toBe([
+      ';; header',
+      '(allow mach-lookup ; services',
+      '  ;; logging',
+      '  (global-name "com.apple.logd")',
+      '  #| block |# (global-name "com.apple.x"))',
+      '',
+      '; end',
+      '',
+    ].join('\n'));
+  });
+
+  test('applies indent width, line length and operation sorting', () => {
+    const source = '(define paths (require-any (subpath "/System") (subpath "/usr")))\n(allow mach-lookup file-read* (subpath "/usr"))';
+    expect(formatText(source, { indentWidth: 4, sortOperations: true })).toBe([
+      '(define paths',
+      '    (require-any',
+      '        (subpath "/System")',
+      '        (subpath "/usr")))',
+      '(allow file-read* mach-lookup',
+      '    (subpath "/usr"))',
+      '',
+    ].join('\n'));
+    expect(formatText('(import "a-very-long-profile-name.sb")', { maxLineLength: 20 })).toBe(
+      '(import\n  "a-very-long-profile-name.sb")\n'
+    );
+  });
+
+  test('is idempotent', () => {
+    const source = '(version 1)\n(deny default)\n(allow file-read* (subpath "/usr") ; usr\n (literal "/etc/hosts"))\n';
+    const once = formatText(source)!;
+    expect(formatText(once)).toBe(once);
+  });
+
+  test('refuses to format profiles with syntax errors', () => {
+    expect(formatText('(allow file-read* (subpath "/usr")')).toBeUndefined();
+  });
+
+  test('formats only the forms in a range', () => {
+    const source = '(version  1)\n; keep\n(allow  file-read*  (subpath "/usr"))\n';
+    const start = source.indexOf('(allow');
+    const edits = formatRange(source, { start, end: start + 3 })!;
+    expect(edits.map((edit) => [edit.range.start.line, edit.newText])).toEqual([
+      [2, '(allow file-read*\n  (subpath "/usr"))'],
+    ]);
+  });
+});
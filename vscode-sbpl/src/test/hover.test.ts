@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'bun:test';
+import { hoverAt } from '../hover.js';
+import { parse } from '../parser.js';
+
+const source = [
+  '(version 1)',
+  '(define tmp (subpath "/tmp"))',
+  '(allow file-read* tmp (iokit-user-client-class "IOHIDLibUserClient"))',
+  '(allow file-map-executable (prefix "/usr"))',
+].join('\n');
+
+function hover(text: string, offset: number, imported: Parameters<typeof hoverAt>[2] = []): string | undefined {
+  return hoverAt(parse(text), offset, imported)?.contents;
+}
+
+describe('Hover', () => {
+  test('documents operations and filters from the catalog', () => {
+    const operation = hover(source, source.indexOf('file-map-executable') + 3)!;
+    expect(operation).toContain('**file-map-executable**');
+    expect(operation).toContain('Category: `file`');
+
+    const filter = hover(source, source.indexOf('iokit-user-client-class'))!;
+    expect(filter).toContain('**iokit-user-client-class**');
+
+    expect(hover(source, source.indexOf('prefix'))).toContain('Example: `(prefix "/path")`');
+    expect(hover(source, source.indexOf('version'))).toContain('Example: `(version 1)`');
+    expect(hover('(allow job-creation)', 8)).toContain('*Deprecated:* Sandboxed processes can no longer submit launchd jobs.');
+  });
+
+  test('lists the operations a wildcard covers', () => {
+    const contents = hover(source, source.indexOf('file-read*'))!;
+    expect(contents).toContain('Covers 3 operations:');
+    expect(contents).toContain('- `file-read-metadata`');
+  });
+
+  test('shows the value of defined symbols', () => {
+    expect(hover(source, source.indexOf('tmp (iokit'))).toBe('```sbpl\n(define tmp (subpath "/tmp"))\n```');
+
+    const text = '(allow file-read* (home "/x"))';
+    const [definition] = parse('(define (home path) (home-subpath path))').profile.definitions;
+    expect(hover(text, text.indexOf('home'), [{ definition, filePath: '/vendor/base.sb' }])).toBe(
+      '```sbpl\n(define (home path) (home-subpath path))\n```\n\nImported from `base.sb`'
+    );
+  });
+
+  test('ignores strings and unknown symbols', () => {
+    expect(hover(source, source.indexOf('"/tmp"') + 2)).toBeUndefined();
+    expect(hover('(allow unknown-op)', 8)).toBeUndefined();
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'bun:test';
+import { DiagnosticCode } from '../diagnostics.js';
+import { resolveImportPath, type ImportHost, type ImportOptions } from '../imports.js';
+import { validateText } from '../validator.js';
+
+function memoryHost(files: Record<string, string>): ImportHost {
+  return { readFile: (path) => files[path] };
+}
+
+function options(files: Record<string, string>, searchPaths = ['/vendor']): ImportOptions {
+  return { searchPaths, host: memoryHost(files) };
+}
+
+describe('Import resolution', () => {
+  test('resolves relative to the importing file before the search paths', () => {
+    const opts = options({ '/work/system.sb': '', '/vendor/system.sb': '', '/vendor/bsd.sb': '' });
+    expect(resolveImportPath('system.sb', '/work/main.sb', opts)).toBe('/work/system.sb');
+    expect(resolveImportPath('bsd.sb', '/work/main.sb', opts)).toBe('/vendor/bsd.sb');
+    expect(resolveImportPath('system.sb', undefined, opts)).toBe('/vendor/system.sb');
+  });
+
+  test('falls back to a vendored copy of absolute system profiles', () => {
+    const opts = options({ '/vendor/bsd.sb': '' });
+    expect(resolveImportPath('/System/Library/Sandbox/Profiles/bsd.sb', undefined, opts)).toBe('/vendor/bsd.sb');
+    expect(resolveImportPath('missing.sb', undefined, opts)).toBeUndefined();
+  });
+
+  test('reports missing imports', () => {
+    const { diagnostics } = validateText('(version 1)\n(import "missing.sb")', {
+      filePath: '/work/main.sb',
+      imports: options({}),
+    });
+    expect(diagnostics.map((d) => d.code)).toEqual([DiagnosticCode.ImportNotFound]);
+    expect(diagnostics[0].range.start.column).toBe(8);
+  });
+
+  test('reports circular imports', () => {
+    const files = {
+      '/work/a.sb': '(import "b.sb")',
+      '/work/b.sb': '(import "main.sb")',
+      '/work/main.sb': '(import "a.sb")',
+    };
+    const { diagnostics } = validateText(files['/work/main.sb'], { filePath: '/work/main.sb', imports: options(files) });
+    expect(diagnostics.map((d) => d.code)).toEqual([DiagnosticCode.CircularImport]);
+    expect(diagnostics[0].message).toBe('Circular import: main.sb -> a.sb -> b.sb -> main.sb');
+  });
+
+  test('makes imported definitions visible to validation', () => {
+    const files = {
+      '/vendor/base.sb': '(import "paths.sb")',
+      '/vendor/paths.sb': '(define system-paths (subpath "/System"))\n(define (home-file path) (home-literal path))',
+    };
+    const source = '(version 1)\n(import "base.sb")\n(allow file-read* system-paths (home-file "/.zshrc"))';
+    expect(validateText(source, { imports: options(files) }).diagnostics).toEqual([]);
+
+    const result = validateText(source, { imports: options(files) });
+    expect(result.imports?.definitions.map((d) => [d.definition.name, d.filePath])).toEqual([
+      ['system-paths', '/vendor/paths.sb'],
+      ['home-file', '/vendor/paths.sb'],
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, expect, test } from 'bun:test';
+import { DiagnosticCode } from '../diagnostics.js';
+import { computeFixes } from '../fixes.js';
+import { LINT_RULES, type LintRuleSettings } from '../lint.js';
+import { validateText } from '../validator.js';
+
+function lint(lines: string[], rules: LintRuleSettings = {}): ReturnType<typeof validateText> {
+  return validateText(lines.join('\n'), { lint: rules });
+}
+
+/** `rule line:column` for each lint diagnostic, with 1-based lines. */
+function findings(lines: string[], rules: LintRuleSettings = {}): string[] {
+  return lint(lines, rules).diagnostics
+    .filter((diag) => diag.rule)
+    .map((diag) => `${diag.rule} ${diag.range.start.line + 1}:${diag.range.start.column}`);
+}
+
+const header = ['(version 1)', '(deny default)'];
+
+describe('Security lint', () => {
+  test('flags allow default and a missing deny default', () => {
+    expect(findings(['(version 1)', '(allow default)', '(deny file-write*)'])).toEqual(['allow-default 2:7']);
+    expect(findings(['(version 1)', '(allow file-read* (subpath "/usr"))'])).toEqual(['missing-deny-default 1:0']);
+    expect(findings([...header, '(allow file-read* (subpath "/usr"))'])).toEqual([]);
+  });
+
+  test('flags over-broad file writes', () => {
+    expect(findings([
+      ...header,
+      '(define everything (subpath "/"))',
+      '(allow file-write*)',
+      '(allow file-write-data (subpath "/System/") (subpath "/tmp/build"))',
+      '(allow file-write-create everything)',
+      '(allow file* (home-subpath "/"))',
+      '(allow file-write* (subpath "/Users/alex/Projects") (literal "/etc/hosts"))',
+    ])).toEqual([
+      'broad-file-write 4:7',
+      'broad-file-write 5:23',
+      'broad-file-write 6:25',
+      'broad-file-write 7:13',
+    ]);
+  });
+
+  test('flags process-exec without a path filter', () => {
+    expect(findings([
+      ...header,
+      '(define tools (subpath "/usr/bin"))',
+      '(allow process-exec)',
+      '(allow process-exec* (require-not (literal "/bin/sh")))',
+      '(allow process-exec (require-all (subpath "/usr/local") (signing-identifier "com.example")))',
+      '(allow process-exec tools)',
+    ])).toEqual(['unrestricted-exec 4:7', 'unrestricted-exec 5:7']);
+  });
+
+  test('flags unconstrained network-outbound', () => {
+    expect(findings([
+      ...header,
+      '(allow network*)',
+      '(allow network-outbound (remote tcp "*:443") (remote ip "*:*"))',
+      '(allow network-outbound (remote udp))',
+      '(allow network-outbound (literal "/private/var/run/mDNSResponder"))',
+    ])).toEqual(['unrestricted-network 3:7', 'unrestricted-network 4:45', 'unrestricted-network 5:24']);
+  });
+
+  test('flags privileged operations', () => {
+    const { diagnostics } = lint([
+      ...header,
+      '(allow mach-priv-task-port system-kext-load)',
+      '(allow nvram*)',
+      '(allow nvram-get system-kext-query)',
+      '(deny nvram-set)',
+    ]);
+    expect(diagnostics.map((diag) => diag.message)).toEqual([
+      "'mach-priv-task-port' is a privileged operation",
+      "'system-kext-load' is a privileged operation",
+      "'nvram*' includes the privileged operation 'nvram-set'",
+    ]);
+  });
+
+  test('flags unanchored and match-all regexes', () => {
+    expect(findings([
+      ...header,
+      '(define caches (regex #"/Library/Caches/"))',
+      '(allow file-read* caches (regex #"^/usr/lib/.*\\.dylib$") (regex #"^/.*"))',
+      '(allow mach-lookup (global-name-regex ".*"))',
+    ])).toEqual(['broad-regex 3:22', 'broad-regex 4:64', 'broad-regex 5:38']);
+  });
+
+  test('applies configured severities and turns rules off', () => {
+    const source = [...header, '(allow process-exec)', '(allow file-read* (regex #"\\.plist$"))'];
+    const severities = (rules: LintRuleSettings): string[] =>
+      lint(source, rules).diagnostics.filter((diag) => diag.rule).map((diag) => `${diag.rule} ${diag.severity}`);
+
+    expect(severities({})).toEqual(['unrestricted-exec warning', 'broad-regex information']);
+    expect(severities({ 'unrestricted-exec': 'error', 'broad-regex': 'off' })).toEqual(['unrestricted-exec error']);
+    expect(lint(source).diagnostics.every((diag) => diag.code === DiagnosticCode.UnsafeOperation)).toBe(true);
+    expect(validateText(source.join('\n')).diagnostics).toEqual([]);
+  });
+
+  test('honors sbpl-disable-next-line comments', () => {
+    expect(findings([
+      ...header,
+      '; sbpl-disable-next-line W005',
+      '(allow process-exec)',
+      '  ; sbpl-disable-next-line broad-regex, unrestricted-network',
+      '  (allow network-outbound (regex #"sock"))',
+      '; sbpl-disable-next-line broad-regex',
+      '(allow process-exec)',
+      '; sbpl-disable-next-line',
+      '(allow process-exec (regex #"x"))',
+    ])).toEqual(['unrestricted-exec 8:7']);
+  });
+
+  test('leaves diagnostics other than lint rules to be reported', () => {
+    const { diagnostics } = lint([
+      ...header,
+      '; sbpl-disable-next-line',
+      '(allow file-raed-data (subpathh "/usr"))',
+      '; sbpl-disable-next-line W007',
+      '(allow proces-exec)',
+    ]);
+    expect(diagnostics.map((diag) => diag.code)).toEqual([
+      DiagnosticCode.UnknownOperation,
+      DiagnosticCode.InvalidFilterType,
+      DiagnosticCode.UnknownOperation,
+    ]);
+  });
+
+  test('offers a fix that disables the rule for the line', () => {
+    const source = [...header, '  (allow default)'];
+    const { parse, diagnostics } = lint(source);
+    const [suppress] = computeFixes(diagnostics[0], parse);
+    expect(suppress.title).toBe("Disable 'allow-default' for this line");
+    expect(suppress.edits).toHaveLength(1);
+    const [edit] = suppress.edits;
+    const text = source.join('\n');
+    const fixed = text.slice(0, edit.range.start.offset) + edit.newText + text.slice(edit.range.end.offset);
+    expect(fixed).toBe('(version 1)\n(deny default)\n  ; sbpl-disable-next-line allow-default\n  (allow default)');
+    expect(lint(fixed.split('\n')).diagnostics.filter((diag) => diag.rule)).toEqual([]);
+  });
+
+  test('flags deprecated operations', () => {
+    const { diagnostics } = lint([...header, '(allow mach-per-user-lookup (global-name "com.example.agent"))']);
+    expect(diagnostics.map((diag) => [diag.code, diag.rule, diag.message])).toEqual([
+      [DiagnosticCode.Deprecated, 'deprecated-operation', "'mach-per-user-lookup' is deprecated: Superseded by `mach-lookup`."],
+    ]);
+    expect(findings([...header, '(deny job-creation)'], { 'deprecated-operation': 'off' })).toEqual([]);
+  });
+
+  test('lists every rule with a default severity', () => {
+    expect(LINT_RULES.map((rule) => rule.id)).toEqual([
+      'allow-default',
+      'missing-deny-default',
+      'broad-file-write',
+      'unrestricted-exec',
+      'unrestricted-network',
+      'privileged-operation',
+      'deprecated-operation',
+      'broad-regex',
+    ]);
+  });
+});
@@ -0,0 +1,141 @@
+import type { Subprocess } from 'bun';
+import { join } from 'node:path';
+
+/**
+ * Drives the language server over stdio with scripted JSON-RPC messages.
+ *
+ * The server runs as a child process, exactly as an editor would start it.
+ * Requests resolve with their result; notifications from the server are
+ * queued until a test waits for them.
+ */
+
+const SERVER_PATH = join(import.meta.dir, '..', 'server.ts');
+const HEADER_SEPARATOR = '\r\n\r\n';
+
+interface Message {
+  id?: number;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export interface Notification {
+  method: string;
+  params: unknown;
+}
+
+export class LspHarness {
+  private readonly proc: Subprocess<'pipe', 'pipe', 'inherit'>;
+  private readonly pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+  private readonly notifications: Notification[] = [];
+  private readonly waiters: Array<() => void> = [];
+  private buffer = new Uint8Array(0);
+  private nextId = 1;
+
+  constructor() {
+    this.proc = Bun.spawn([process.execPath, SERVER_PATH, '--stdio'], {
+      stdin: 'pipe',
+      stdout: 'pipe',
+      stderr: 'inherit',
+    });
+    void this.read();
+  }
+
+  /** Sends `initialize` and `initialized` for a workspace folder. */
+  async initialize(rootPath: string, initializationOptions: unknown = {}): Promise<unknown> {
+    const rootUri = Bun.pathToFileURL(rootPath).href;
+    const result = await this.request('initialize', {
+      processId: process.pid,
+      rootUri,
+      workspaceFolders: [{ uri: rootUri, name: 'test' }],
+      capabilities: {},
+      initializationOptions,
+    });
+    this.notify('initialized', {});
+    return result;
+  }
+
+  request(method: string, params: unknown): Promise<unknown> {
+    const id = this.nextId++;
+    const response = new Promise<unknown>((resolve, reject) => this.pending.set(id, { resolve, reject }));
+    this.send({ id, method, params });
+    return response;
+  }
+
+  notify(method: string, params: unknown): void {
+    this.send({ method, params });
+  }
+
+  /** Waits for the next server notification matching the method and predicate. */
+  async waitForNotification<T>(method: string, predicate: (params: T) => boolean = () => true): Promise<T> {
+    for (;;) {
+      const index = this.notifications.findIndex((note) => note.method === method && predicate(note.params as T));
+      if (index >= 0) {
+        return this.notifications.splice(index, 1)[0].params as T;
+      }
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+  }
+
+  /** Shuts the server down and waits for it to exit. */
+  async shutdown(): Promise<number> {
+    await this.request('shutdown', null);
+    this.notify('exit', null);
+    this.proc.stdin.end();
+    return this.proc.exited;
+  }
+
+  private send(message: Message): void {
+    const body = JSON.stringify({ jsonrpc: '2.0', ...message });
+    this.proc.stdin.write(`Content-Length: ${Buffer.byteLength(body)}${HEADER_SEPARATOR}${body}`);
+    this.proc.stdin.flush();
+  }
+
+  private async read(): Promise<void> {
+    for await (const chunk of this.proc.stdout) {
+      const joined = new Uint8Array(this.buffer.length + chunk.length);
+      joined.set(this.buffer);
+      joined.set(chunk, this.buffer.length);
+      this.buffer = joined;
+      this.drain();
+    }
+  }
+
+  /** Dispatches every complete message in the buffer. */
+  private drain(): void {
+    for (;;) {
+      const text = Buffer.from(this.buffer).toString('latin1');
+      const headerEnd = text.indexOf(HEADER_SEPARATOR);
+      if (headerEnd < 0) {
+        return;
+      }
+      const length = Number(/Content-Length: (\d+)/i.exec(text.slice(0, headerEnd))?.[1]);
+      const bodyStart = headerEnd + HEADER_SEPARATOR.length;
+      if (this.buffer.length < bodyStart + length) {
+        return;
+      }
+      const body = new TextDecoder().decode(this.buffer.slice(bodyStart, bodyStart + length));
+      this.buffer = this.buffer.slice(bodyStart + length);
+      this.dispatch(JSON.parse(body) as Message);
+    }
+  }
+
+  private dispatch(message: Message): void {
+    if (message.method !== undefined && message.id !== undefined) {
+      // Requests from the server, such as capability registration
+      this.send({ id: message.id, result: null });
+    } else if (message.method !== undefined) {
+      this.notifications.push({ method: message.method, params: message.params });
+      this.waiters.splice(0).forEach((wake) => wake());
+    } else if (message.id !== undefined) {
+      const pending = this.pending.get(message.id);
+      this.pending.delete(message.id);
+      if (message.error) {
+        pending?.reject(new Error(message.error.message));
+      } else {
+        pending?.resolve(message.result);
+      }
+    }
+  }
+}
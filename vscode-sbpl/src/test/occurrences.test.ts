@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'bun:test';
+import { builtinKind, checkRename, collectOccurrences, occurrenceAt, occurrencesOf } from '../occurrences.js';
+import { parse } from '../parser.js';
+
+const source = [
+  '(define tmp (subpath "/tmp"))',
+  '(define (under path) (require-all tmp (subpath path)))',
+  '(allow file-read* tmp (under "/x"))',
+  '(deny file-write* (require-not tmp))',
+].join('\n');
+
+describe('Symbol occurrences', () => {
+  test('finds definitions and references of a name', () => {
+    const { profile } = parse(source);
+    const occurrences = occurrencesOf(profile, 'tmp');
+    expect(occurrences.map((o) => [o.range.start.line, o.isDefinition])).toEqual([
+      [0, true],
+      [1, false],
+      [2, false],
+      [3, false],
+    ]);
+    expect(occurrencesOf(profile, 'under').map((o) => o.range.start.line)).toEqual([1, 2]);
+  });
+
+  test('function parameters shadow outer names', () => {
+    const { profile } = parse(source);
+    expect(collectOccurrences(profile).some((o) => o.name === 'path')).toBe(false);
+  });
+
+  test('locates the symbol at an offset', () => {
+    const { profile } = parse(source);
+    const offset = source.indexOf('tmp (under');
+    expect(occurrenceAt(profile, offset)?.name).toBe('tmp');
+    expect(occurrenceAt(profile, source.indexOf('"/tmp"') + 2)).toBeUndefined();
+  });
+});
+
+describe('Rename checks', () => {
+  const { profile } = parse(source);
+  const [tmp] = profile.definitions;
+
+  test('refuses built-ins and existing names', () => {
+    expect(builtinKind('file-read*')).toBe('operation');
+    expect(builtinKind('subpath')).toBe('filter');
+    expect(builtinKind('define')).toBe('keyword');
+    expect(checkRename(tmp, 'subpath', profile.definitions)).toBe("'subpath' is a built-in filter");
+    expect(checkRename(tmp, 'under', profile.definitions)).toBe("'under' is already defined");
+    expect(checkRename(tmp, 'bad name', profile.definitions)).toBe("'bad name' is not a valid symbol name");
+  });
+
+  test('refuses names the lexer does not read as one symbol', () => {
+    for (const name of ['1abc', 'a@b', 'x#y', '@z', '-1', '[q]', '']) {
+      expect(checkRename(tmp, name, profile.definitions)).toBe(`'${name}' is not a valid symbol name`);
+    }
+    expect(checkRename(tmp, 'tmp-2', profile.definitions)).toBeUndefined();
+  });
+
+  test('refuses names a function parameter would capture', () => {
+    expect(checkRename(tmp, 'path', profile.definitions)).toBe("'path' would be shadowed by a parameter of 'under'");
+    expect(checkRename(tmp, 'temporary-items', profile.definitions)).toBeUndefined();
+  });
+});
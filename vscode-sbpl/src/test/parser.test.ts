@@ -0,0 +1,100 @@
+import { describe, expect, test } from 'bun:test';
+import { DiagnosticCode } from '../diagnostics.js';
+import { Lexer } from '../lexer.js';
+import { parse } from '../parser.js';
+
+describe('Lexer', () => {
+  test('tokenizes structural tokens and literals', () => {
+    const tokens = new Lexer('(version 1) #t "a\\n" #"^/x"').tokenize();
+    expect(tokens.map((t) => t.kind.type)).toEqual([
+      'leftParen', 'symbol', 'integer', 'rightParen', 'boolean', 'string', 'rawString', 'eof',
+    ]);
+    expect(tokens[5].kind).toEqual({ type: 'string', value: 'a\n' });
+  });
+
+  test('reads only the short boolean forms, like the Swift lexer', () => {
+    const tokens = new Lexer('#t #F #true').tokenize();
+    expect(tokens.map((t) => t.kind)).toEqual([
+      { type: 'boolean', value: true },
+      { type: 'boolean', value: false },
+      { type: 'boolean', value: true },
+      { type: 'symbol', value: 'rue' },
+      { type: 'eof' },
+    ]);
+  });
+
+  test('preserves comments as trivia', () => {
+    const tokens = new Lexer('; header\n#| block |#\n(deny default)').tokenize();
+    expect(tokens[0].leadingTrivia.map((p) => p.kind)).toEqual([
+      'lineComment', 'newline', 'blockComment', 'newline',
+    ]);
+    expect(tokens[0].leadingTrivia[2].text).toBe('#| block |#');
+  });
+
+  test('reports unknown characters and unterminated literals', () => {
+    const lexer = new Lexer('@ "open\n#| never closed');
+    lexer.tokenize();
+    expect(lexer.diagnostics.map((d) => d.code)).toEqual([
+      DiagnosticCode.UnknownCharacter,
+      DiagnosticCode.UnterminatedString,
+      DiagnosticCode.UnterminatedComment,
+    ]);
+  });
+});
+
+describe('Parser', () => {
+  test('parses declarations', () => {
+    const { profile, diagnostics } = parse('(version 1)\n(debug deny)\n(import "system.sb")');
+    expect(diagnostics).toEqual([]);
+    expect(profile.version?.version).toBe(1);
+    expect(profile.debugMode?.action).toBe('deny');
+    expect(profile.imports[0].path).toBe('system.sb');
+  });
+
+  test('parses rules with compound filters and source ranges', () => {
+    const source = '(allow file-read-data\n  (require-any\n    (subpath "/usr")\n    (literal "/etc/hosts")))';
+    const { profile, diagnostics } = parse(source);
+    expect(diagnostics).toEqual([]);
+
+    const rule = profile.rules[0];
+    expect(rule.action).toBe('allow');
+    expect(rule.operations[0].name).toBe('file-read-data');
+
+    const filter = rule.filters[0];
+    expect(filter.kind).toBe('compound');
+    if (filter.kind === 'compound') {
+      expect(filter.filters).toHaveLength(2);
+      expect(filter.filters[0].range.start).toEqual({ line: 2, column: 4, offset: 41 });
+    }
+  });
+
+  test('keeps every argument of a simple filter', () => {
+    const { profile } = parse('(allow network-outbound (remote tcp "*:443"))');
+    const filter = profile.rules[0].filters[0];
+    expect(filter.kind === 'simple' && filter.args.map((a) => a.kind)).toEqual(['symbol', 'string']);
+  });
+
+  test('parses define and references in filter position', () => {
+    const { profile, diagnostics } = parse(
+      '(define paths (require-any (subpath "/a") (subpath "/b")))\n(allow file-read* (require-not paths))'
+    );
+    expect(diagnostics).toEqual([]);
+    expect(profile.definitions[0].name).toBe('paths');
+    const filter = profile.rules[0].filters[0];
+    expect(filter.kind === 'not' && filter.filter.kind).toBe('expression');
+  });
+
+  test('reports a missing close paren once', () => {
+    const { diagnostics } = parse('(allow file-read-data (subpath "/usr")');
+    expect(diagnostics.map((d) => d.code)).toEqual([DiagnosticCode.ExpectedCloseParen]);
+  });
+
+  test('reports duplicate and invalid versions and recovers', () => {
+    const { profile, diagnostics } = parse('(version 1)\n(version "x")\n(version 2)\n(deny default)');
+    expect(diagnostics.map((d) => d.code)).toEqual([
+      DiagnosticCode.ExpectedExpression,
+      DiagnosticCode.DuplicateDefinition,
+    ]);
+    expect(profile.rules).toHaveLength(1);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'bun:test';
+import { filterToString } from '../ast.js';
+import type { ImportOptions } from '../imports.js';
+import { parse } from '../parser.js';
+import { effectivePermissions, filterPermissions, type PermissionCategory } from '../permissions.js';
+
+const files: Record<string, string> = {
+  '/vendor/base.sb': [
+    '(define (home-dir path) (home-subpath path))',
+    '(allow mach-lookup (global-name "com.apple.system.logger"))',
+    '(allow file-read* (subpath "/usr/lib"))',
+  ].join('\n'),
+};
+
+const importOptions: ImportOptions = { searchPaths: ['/vendor'], host: { readFile: (path) => files[path] } };
+
+const profile = [
+  '(version 1)',
+  '(allow file-read* (subpath "/System"))',
+  '(deny default)',
+  '(import "base.sb")',
+  '(define caches (require-any (home-dir "/Library/Caches") (subpath "/private/var/folders")))',
+  '(allow file-read* file-write* caches)',
+  '(deny file-write* (home-literal "/Library/Caches/secret"))',
+  '(allow sysctl-read)',
+].join('\n');
+
+/** `category: operation baseline [action filter@file:line, ...]` lines, with 1-based lines. */
+function summary(categories: PermissionCategory[]): string[] {
+  return categories.flatMap(({ category, operations }) => operations.map((permissions) => {
+    const entries = permissions.entries.map((entry) => {
+      const source = `${entry.filePath ?? ''}:${entry.rule.range.start.line + 1}`;
+      return `${entry.action} ${entry.filter ? filterToString(entry.filter) : '*'}@${source}`;
+    });
+    const decision = permissions.decision ? ` -> ${permissions.decision}` : '';
+    return `${category}: ${permissions.operation} ${permissions.baseline}${decision} [${entries.join(', ')}]`;
+  }));
+}
+
+describe('Effective permissions', () => {
+  test('groups operations by category with the rules that still apply, through imports and defines', () => {
+    expect(summary(effectivePermissions(parse(profile).profile, '/work/app.sb', importOptions))).toEqual([
+      'special: default deny [deny *@:3]',
+      'file: file-read* deny [deny *@:3, allow (subpath "/System")@:2, allow (subpath "/usr/lib")@/vendor/base.sb:3, '
+        + 'allow (home-subpath "/Library/Caches")@:6, allow (subpath "/private/var/folders")@:6]',
+      'file: file-write* deny [deny *@:3, allow (home-subpath "/Library/Caches")@:6, '
+        + 'allow (subpath "/private/var/folders")@:6, deny (home-literal "/Library/Caches/secret")@:7]',
+      'mach: mach-lookup deny [deny *@:3, allow (global-name "com.apple.system.logger")@/vendor/base.sb:2]',
+      'system: sysctl-read allow [allow *@:8]',
+    ]);
+  });
+
+  test('leaves imports out without import options', () => {
+    const categories = effectivePermissions(parse(profile).profile);
+    expect(categories.flatMap(({ operations }) => operations.map((permissions) => permissions.operation)))
+      .toEqual(['default', 'file-read*', 'file-write*', 'sysctl-read']);
+  });
+
+  test('filters by path, including rules for paths inside it, and by service name', () => {
+    const categories = effectivePermissions(parse(profile).profile, '/work/app.sb', importOptions);
+    expect(summary(filterPermissions(categories, '~/Library', '/Users/alex'))).toEqual([
+      'file: file-read* deny -> deny [deny *@:3, allow (home-subpath "/Library/Caches")@:6]',
+      'file: file-write* deny -> deny [deny *@:3, allow (home-subpath "/Library/Caches")@:6, '
+        + 'deny (home-literal "/Library/Caches/secret")@:7]',
+      'system: sysctl-read allow -> allow [allow *@:8]',
+    ]);
+    expect(summary(filterPermissions(categories, '/Users/alex/Library/Caches/secret', '/Users/alex/'))
+      .map((line) => line.split(' [')[0]))
+      .toEqual(['file: file-read* deny -> allow', 'file: file-write* deny -> deny', 'system: sysctl-read allow -> allow']);
+    expect(summary(filterPermissions(categories, 'com.apple.system.logger', '/Users/alex'))).toEqual([
+      'mach: mach-lookup deny -> allow [deny *@:3, allow (global-name "com.apple.system.logger")@/vendor/base.sb:2]',
+      'system: sysctl-read allow -> allow [allow *@:8]',
+    ]);
+    expect(summary(filterPermissions(categories, 'com.example.missing', '/Users/alex')))
+      .toEqual(['system: sysctl-read allow -> allow [allow *@:8]']);
+    expect(filterPermissions(categories, '  ', '/Users/alex')).toBe(categories);
+  });
+
+  test('keeps operations that an unfiltered rule allows', () => {
+    const unfiltered = '(deny default)\n(allow file-read*)\n(allow file-write* (subpath "/tmp"))';
+    expect(summary(filterPermissions(effectivePermissions(parse(unfiltered).profile), '~/Library', '/Users/alex')))
+      .toEqual(['file: file-read* allow -> allow [allow *@:2]']);
+
+    const allowDefault = '(allow default)\n(deny file-write* (subpath "/System"))';
+    expect(summary(filterPermissions(effectivePermissions(parse(allowDefault).profile), '~/Library', '/Users/alex')))
+      .toEqual(['special: default allow -> allow [allow *@:1]', 'file: file-write* allow -> allow [allow *@:1]']);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, test } from 'bun:test';
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { readHeadVersion } from '../git.js';
+import { parse } from '../parser.js';
+import { diffProfiles, renderDiffMarkdown, type ProfileChange } from '../profileDiff.js';
+
+function diff(before: string[], after: string[]): ProfileChange[] {
+  return diffProfiles(parse(before.join('\n')).profile, parse(after.join('\n')).profile);
+}
+
+const summary = (changes: ProfileChange[]): string[] =>
+  changes.map((change) => `${change.kind} ${change.subject}: ${change.detail}`);
+
+const base = ['(version 1)', '(deny default)', '(allow file-read* (subpath "/usr"))'];
+
+describe('Profile diff', () => {
+  test('reports nothing for equivalent profiles', () => {
+    const reordered = ['(version 1)', '(define usr (subpath "/usr"))', '(deny default)', '(allow file-read* usr)'];
+    expect(diff(base, reordered).filter((change) => change.kind !== 'define-added')).toEqual([]);
+  });
+
+  test('reports gained and lost access', () => {
+    expect(summary(diff(base, [...base, '(allow process-exec)']))).toEqual(['gained process-exec: now allowed']);
+    expect(summary(diff([...base, '(allow mach-lookup (global-name "com.apple.a"))'], base))).toEqual([
+      'lost mach-lookup: no longer allowed: (global-name "com.apple.a")',
+    ]);
+  });
+
+  test('reports broadened and narrowed filters', () => {
+    const broadened = diff(base, ['(version 1)', '(deny default)', '(allow file-read* (subpath "/usr") (subpath "/opt"))']);
+    expect(summary(broadened)).toEqual(['broadened file-read*: newly allowed: (subpath "/opt")']);
+    expect(broadened[0].broadening).toBe(true);
+
+    const narrowed = diff(base, ['(version 1)', '(deny default)', '(allow file-read* (subpath "/usr/lib"))']);
+    expect(summary(narrowed)).toEqual(['narrowed file-read*: no longer allowed: (subpath "/usr")']);
+  });
+
+  test('compares filters through changed definitions', () => {
+    const before = ['(version 1)', '(define logs (subpath "/var/log/app"))', '(deny default)', '(allow file-read* logs)'];
+    const after = ['(version 1)', '(define logs (subpath "/var/log"))', '(deny default)', '(allow file-read* logs)'];
+    expect(summary(diff(before, after))).toEqual([
+      'broadened file-read*: newly allowed: (subpath "/var/log")',
+      'define-changed logs: (define logs (subpath "/var/log/app")) → (define logs (subpath "/var/log"))',
+    ]);
+  });
+
+  test('reports removed deny exceptions as broadenings', () => {
+    const before = ['(version 1)', '(allow default)', '(deny file-write* (subpath "/System"))'];
+    const after = ['(version 1)', '(allow default)', '(deny file-write* (subpath "/System/Library"))'];
+    expect(summary(diff(before, after))).toEqual([
+      'broadened file-write*: no longer denied: (subpath "/System")',
+    ]);
+  });
+
+  test('compares deny rules that carve out of a broader allow', () => {
+    const after = ['(version 1)', '(deny default)', '(allow file-read* (subpath "/Users"))'];
+    const before = [...after, '(deny file-read* (subpath "/Users/x/.ssh"))'];
+    expect(summary(diff(before, after))).toEqual([
+      'broadened file-read*: no longer denied: (subpath "/Users/x/.ssh")',
+    ]);
+    expect(summary(diff(after, before))).toEqual([
+      'narrowed file-read*: newly denied: (subpath "/Users/x/.ssh")',
+    ]);
+  });
+
+  test('lists security-relevant broadenings first', () => {
+    const changes = diff(base, [
+      '(version 1)',
+      '(debug deny)',
+      '(import "bsd.sb")',
+      '(deny default)',
+      '(allow file-read* (subpath "/usr") (subpath "/opt"))',
+      '(allow network-outbound (remote tcp "*:443"))',
+    ]);
+    expect(changes.map((change) => [change.kind, change.subject, change.securityRelevant])).toEqual([
+      ['gained', 'network-outbound', true],
+      ['broadened', 'file-read*', false],
+      ['debug-changed', 'debug', false],
+      ['import-added', 'bsd.sb', false],
+    ]);
+
+    const report = renderDiffMarkdown(changes, 'app.sb (HEAD)', 'app.sb');
+    expect(report).toStartWith('# Profile changes: app.sb (HEAD) → app.sb\n\n## Security-relevant broadenings\n\n');
+    expect(report).toContain('- **Gained access** `network-outbound`: newly allowed: (remote tcp "\\*:443")');
+    expect(report.indexOf('## Broadenings')).toBeLessThan(report.indexOf('## Declarations'));
+  });
+
+  test('treats default as the fallback wherever it appears', () => {
+    const moved = ['(version 1)', '(allow file-read* (subpath "/usr"))', '(deny default)'];
+    expect(diff(base, moved)).toEqual([]);
+  });
+
+  test('reports a switch from deny default to allow default', () => {
+    const changes = diff(['(version 1)', '(deny default)'], ['(version 1)', '(allow default)']);
+    expect(changes.map((change) => [change.kind, change.subject, change.securityRelevant])).toEqual([
+      ['gained', 'default', true],
+    ]);
+  });
+});
+
+describe('Git HEAD versions', () => {
+  test('reads the committed version of a file', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'sbpl-git-'));
+    try {
+      const git = (...args: string[]): void => {
+        execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: root, stdio: 'ignore' });
+      };
+      git('init', '-q');
+      writeFileSync(join(root, 'app.sb'), '(version 1)\n(deny default)\n');
+      git('add', 'app.sb');
+      git('commit', '-q', '-m', 'initial');
+      writeFileSync(join(root, 'app.sb'), '(version 1)\n(allow default)\n');
+
+      expect(await readHeadVersion(join(root, 'app.sb'))).toBe('(version 1)\n(deny default)\n');
+      expect(await readHeadVersion(join(root, 'other.sb'))).toBeUndefined();
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
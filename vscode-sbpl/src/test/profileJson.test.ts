@@ -0,0 +1,105 @@
+import { describe, expect, test } from 'bun:test';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { FILTERS, OPERATIONS } from '../catalog.js';
+import { parse } from '../parser.js';
+import { jsonToSbpl, parseProfileJson, profileToJson } from '../profileJson.js';
+
+const REPO_ROOT = join(import.meta.dir, '..', '..', '..');
+
+const source = [
+  '(version 1)',
+  '(debug deny)',
+  '(import "system.sb")',
+  '(define tmp (subpath "/tmp"))',
+  '(define (home path) (home-subpath path))',
+  '(deny default)',
+  '(allow network-outbound (remote tcp "*:443"))',
+  '(allow file-read* (require-any tmp (require-not (literal "/tmp/secret"))))',
+].join('\n');
+
+describe('Profile JSON', () => {
+  test('uses the sbpl-convert encoding', () => {
+    const json = profileToJson(parse(source).profile);
+    expect(json.version).toBe(1);
+    expect(json.debugMode).toBe('deny');
+    expect(json.imports).toEqual(['system.sb']);
+    expect(json.definitions?.[0]).toEqual({ name: 'tmp', value: ['subpath', '"/tmp"'] });
+    expect(json.definitions?.[1].parameters).toEqual(['path']);
+    expect(json.rules?.[1].filters).toEqual([{ type: 'remote', value: 'tcp', arguments: ['"*:443"'] }]);
+    expect(json.rules?.[2].filters).toEqual([{
+      type: 'require-any',
+      filters: [
+        { type: 'expression', value: 'tmp' },
+        { type: 'require-not', filters: [{ type: 'literal', value: '"/tmp/secret"' }] },
+      ],
+    }]);
+  });
+
+  test('converts back to formatted SBPL', () => {
+    const text = jsonToSbpl(profileToJson(parse(source).profile));
+    expect(text).toStartWith('(version 1)\n\n(debug deny)\n\n(import "system.sb")\n\n');
+    expect(text).toContain('(define (home path) (home-subpath path))');
+    expect(text).toContain('(allow network-outbound\n  (remote tcp "*:443"))');
+  });
+
+  test('round-trips the fixtures', () => {
+    for (const file of ['Fixtures/valid/simple.sb', 'Fixtures/valid/complex.sb', 'examples/valid-profile.sb']) {
+      const json = profileToJson(parse(readFileSync(join(REPO_ROOT, file), 'utf8')).profile);
+      expect(profileToJson(parse(jsonToSbpl(json)).profile)).toEqual(json);
+    }
+  });
+
+  test('escapes string literals', () => {
+    const text = jsonToSbpl({ rules: [{ action: 'allow', operations: ['file-read*'], filters: [{ type: 'literal', value: '"/a\\b"' }] }] });
+    expect(text).toContain('(literal "/a\\\\b")');
+  });
+
+  test('reports schema violations with their paths', () => {
+    const { profile, errors } = parseProfileJson(JSON.stringify({
+      version: '1',
+      rules: [{ action: 'permit', operations: [] }, { action: 'allow', operations: ['file*'], filters: [{ type: 'require-any' }] }],
+    }));
+    expect(profile).toBeUndefined();
+    expect(errors).toEqual([
+      'version: expected an integer',
+      'rules[0].action: expected "allow" or "deny"',
+      'rules[0].operations: expected a non-empty array of strings',
+      'rules[1].filters[0].filters: require-any needs at least one filter',
+    ]);
+    expect(parseProfileJson('{').errors[0]).toStartWith('Invalid JSON');
+  });
+
+  test('rejects filters that would not convert to valid SBPL', () => {
+    const { errors } = parseProfileJson(JSON.stringify({
+      definitions: [{ name: 'usr)', value: 'a b' }],
+      rules: [{
+        action: 'allow',
+        operations: ['file-read*)'],
+        filters: [
+          { type: 'subpath' },
+          { type: 'require-not', filters: [{ type: 'literal', value: '"/a"' }, { type: 'literal', value: '"/b"' }] },
+          { type: 'remote', value: 'tcp', arguments: ['"*:443"'] },
+        ],
+      }],
+    }));
+    expect(errors).toEqual([
+      'definitions[0].name: "usr)" is not a valid symbol',
+      'definitions[0].value: "a b" is not a valid symbol',
+      'rules[0].operations[0]: "file-read*)" is not a valid symbol',
+      'rules[0].filters[0].value: subpath needs a value',
+      'rules[0].filters[1].filters: require-not needs exactly one filter',
+    ]);
+  });
+});
+
+describe('Profile JSON schema', () => {
+  const schema = JSON.parse(readFileSync(join(import.meta.dir, '..', '..', 'schemas', 'sbpl-profile.schema.json'), 'utf8'));
+
+  test('suggests every catalog operation and filter', () => {
+    const operations = schema.definitions.rule.properties.operations.items.anyOf[0].enum;
+    const filters = schema.definitions.filter.properties.type.anyOf[0].enum;
+    expect(operations).toEqual(OPERATIONS.map((op) => op.label));
+    expect(filters).toEqual([...FILTERS.map((filter) => filter.label), 'expression']);
+  });
+});
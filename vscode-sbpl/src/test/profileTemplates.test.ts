@@ -0,0 +1,129 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  CAPABILITIES,
+  entitlementRules,
+  generateProfile,
+  parseEntitlements,
+  type ProfileTemplate,
+} from '../profileTemplates.js';
+import { validateText } from '../validator.js';
+
+const empty: ProfileTemplate = {
+  denyDefault: true,
+  imports: [],
+  capabilities: [],
+  machServices: [],
+  fileExceptions: [],
+  unmatchedEntitlements: [],
+};
+
+const entitlements = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+  <key>com.apple.security.app-sandbox</key>
+  <true/>
+  <key>com.apple.security.network.client</key>
+  <true/>
+  <key>com.apple.security.device.camera</key>
+  <false/>
+  <key>com.apple.security.device.audio-input</key>
+  <true/>
+  <!-- Helper tool -->
+  <key>com.apple.security.temporary-exception.mach-lookup.global-name</key>
+  <array>
+    <string>com.example.helper</string>
+  </array>
+  <key>com.apple.security.temporary-exception.files.home-relative-path.read-only</key>
+  <array>
+    <string>/Library/Application Support/R&amp;D/</string>
+  </array>
+  <key>com.apple.security.temporary-exception.files.absolute-path.read-write</key>
+  <string>/private/var/db/example.db</string>
+  <key>com.apple.security.print</key>
+  <true/>
+</dict>
+</plist>
+`;
+
+describe('Profile templates', () => {
+  test('generates a commented profile for the posture, debug mode and imports', () => {
+    expect(generateProfile({ ...empty, debug: 'deny', imports: ['system.sb'], capabilities: ['camera'] })).toBe([
+      '; Sandbox profile generated by SBPL: New Profile',
+      '(version 1)',
+      '',
+      '; Log denied operations to the system log',
+      '(debug deny)',
+      '',
+      '; Deny every operation that no rule below allows',
+      '(deny default)',
+      '',
+      '; Shared rules from /System/Library/Sandbox/Profiles',
+      '(import "system.sb")',
+      '',
+      ';; Camera: Capture video from the camera',
+      '; device-camera: Camera access',
+      '(allow device-camera)',
+      '',
+    ].join('\n'));
+    expect(generateProfile({ ...empty, denyDefault: false })).toContain('(allow default)');
+  });
+
+  test('every capability produces a valid profile without lint findings', () => {
+    const text = generateProfile({
+      ...empty,
+      capabilities: CAPABILITIES.map((capability) => capability.id),
+      machServices: ['com.apple.system.logger'],
+    });
+    const { diagnostics } = validateText(text, { lint: {} });
+    expect(diagnostics.map((diag) => `${diag.code} ${diag.message}`)).toEqual([]);
+    for (const capability of CAPABILITIES) {
+      expect(text).toContain(`;; ${capability.label}: ${capability.description}`);
+    }
+    // Each operation and filter is described once, at its first use
+    expect(text.match(/^; file-read\*: /gm)).toHaveLength(1);
+    expect(text).toContain('; remote: Remote network filter');
+  });
+
+  test('reads entitlements from an XML property list', () => {
+    const { entitlements: parsed, errors } = parseEntitlements(entitlements);
+    expect(errors).toEqual([]);
+    expect(parsed?.['com.apple.security.device.camera']).toBe(false);
+    expect(parsed?.['com.apple.security.temporary-exception.files.home-relative-path.read-only'])
+      .toEqual(['/Library/Application Support/R&D/']);
+
+    expect(parseEntitlements('{"com.apple.security.app-sandbox": true}').errors)
+      .toEqual(['Expected an XML property list with a <dict> at its root']);
+    expect(parseEntitlements('<plist><dict><key>a</key><true/>').errors).toEqual(['Unexpected end of file in <dict>']);
+    expect(parseEntitlements('<plist><dict><string>a</string></dict></plist>').errors)
+      .toEqual(['Expected <key> in <dict>, found <string>']);
+  });
+
+  test('keeps character references outside the Unicode range', () => {
+    const { entitlements: parsed, errors } = parseEntitlements(
+      '<plist><dict><key>a</key><string>&#x41;&#66;&#x110000;&#99999999999;</string></dict></plist>');
+    expect(errors).toEqual([]);
+    expect(parsed?.a).toBe('AB&#x110000;&#99999999999;');
+  });
+
+  test('derives capabilities and rules from entitlements', () => {
+    const rules = entitlementRules(parseEntitlements(entitlements).entitlements ?? {});
+    expect(rules).toEqual({
+      capabilities: ['network-client', 'microphone', 'mach-services'],
+      machServices: ['com.example.helper'],
+      fileExceptions: [
+        { path: '/Library/Application Support/R&D/', relativeToHome: true, write: false },
+        { path: '/private/var/db/example.db', relativeToHome: false, write: true },
+      ],
+      unmatchedEntitlements: ['com.apple.security.print'],
+    });
+
+    const text = generateProfile({ ...empty, ...rules, entitlementsFile: 'App.entitlements' });
+    expect(text).toContain('; Derived from the entitlements in App.entitlements\n');
+    expect(text).toContain(';   com.apple.security.print\n');
+    expect(text).toContain('(allow mach-lookup\n  (global-name "com.example.helper"))');
+    expect(text).toContain('(allow file-read*\n  (home-subpath "/Library/Application Support/R&D"))');
+    expect(text).toContain('(allow file-read* file-write*\n  (literal "/private/var/db/example.db"))');
+    expect(text).not.toContain('device-camera');
+  });
+});
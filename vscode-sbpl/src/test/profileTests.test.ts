@@ -0,0 +1,110 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { buildDefinitionTable } from '../filters.js';
+import { parse } from '../parser.js';
+import { isProfileTestFile, parseProfileTests, profilePathFor, runProfileTests, testCaseLabel } from '../profileTests.js';
+
+const CLI = join(import.meta.dir, '..', 'profileTestsCli.ts');
+
+const profile = [
+  '(version 1)',
+  '(import "common.sb")',
+  '(deny default)',
+  '(allow file-read* logs)',
+  '(allow mach-lookup (global-name "com.apple.system.logger"))',
+].join('\n');
+
+const tests = `[
+  { "operation": "file-read-data", "path": "/var/log/system.log", "expect": "allow" },
+  {
+    "name": "no writes",
+    "operation": "file-write-data",
+    "path": "/var/log/system.log",
+    "expect": "allow"
+  }
+]
+`;
+
+describe('Profile test files', () => {
+  test('pairs test files with their profiles', () => {
+    expect(isProfileTestFile('/a/profile.sb.test.json')).toBe(true);
+    expect(isProfileTestFile('/a/profile.sbpl.test.json')).toBe(true);
+    expect(isProfileTestFile('/a/profile.sbpl.json')).toBe(false);
+    expect(profilePathFor('/a/profile.sb.test.json')).toBe('/a/profile.sb');
+  });
+
+  test('parses cases with their locations', () => {
+    const { cases, errors } = parseProfileTests(tests);
+    expect(errors).toEqual([]);
+    expect(cases.map((entry) => testCaseLabel(entry.testCase))).toEqual([
+      'allow file-read-data /var/log/system.log',
+      'no writes',
+    ]);
+    expect(cases[0].range.start).toMatchObject({ line: 1, column: 2 });
+    expect(cases[1].range.start).toMatchObject({ line: 2, column: 2 });
+    expect(cases[1].range.end).toMatchObject({ line: 7, column: 3 });
+  });
+
+  test('reports invalid cases with their paths', () => {
+    const { cases, errors } = parseProfileTests(JSON.stringify([
+      { operation: 'file-read-data', expect: 'allow' },
+      { operation: '', expect: 'permit', protocol: 'sctp', expected: 'deny' },
+      'mach-lookup',
+    ]));
+    expect(cases.length).toBe(1);
+    expect(errors).toEqual([
+      '[1].operation: expected a non-empty string',
+      '[1].expect: expected "allow" or "deny"',
+      '[1].protocol: expected "tcp" or "udp"',
+      '[1].expected: unknown field',
+      '[2]: expected an object',
+    ]);
+    expect(parseProfileTests('{}').errors).toEqual(['(root): expected an array of test cases']);
+  });
+
+  test('checks cases against the profile', () => {
+    const imported = buildDefinitionTable(parse('(define logs (subpath "/var/log"))\n').profile.definitions);
+    const results = runProfileTests(
+      parse(profile).profile,
+      parseProfileTests(tests).cases.map((entry) => entry.testCase),
+      imported
+    );
+    expect(results.map((result) => result.passed)).toEqual([true, false]);
+    expect(results[1].result.decision).toBe('deny');
+    expect(results[1].result.rule?.range.start.line).toBe(2);
+  });
+});
+
+describe('Profile test CLI', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'sbpl-tests-'));
+    writeFileSync(join(root, 'common.sb'), '(define logs (subpath "/var/log"))\n');
+    writeFileSync(join(root, 'app.sb'), profile);
+    writeFileSync(join(root, 'app.sb.test.json'), tests);
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  test('reports failures and exits with 1', () => {
+    const { status, stdout } = spawnSync(process.execPath, [CLI], { cwd: root, encoding: 'utf8', timeout: 30000 });
+    expect(status).toBe(1);
+    expect(stdout).toContain('✓ allow file-read-data /var/log/system.log');
+    expect(stdout).toContain('✗ no writes (app.sb.test.json:3)');
+    expect(stdout).toContain('expected allow, got deny by (deny default) at app.sb:3');
+    expect(stdout).toContain('1 passed, 1 failed');
+  });
+
+  test('exits with 0 when every case passes', () => {
+    writeFileSync(join(root, 'passing.sb'), profile);
+    writeFileSync(join(root, 'passing.sb.test.json'), '[{ "operation": "mach-lookup", "globalName": "com.apple.system.logger", "expect": "allow" }]');
+    const { status } = spawnSync(process.execPath, [CLI, 'passing.sb.test.json'], { cwd: root, encoding: 'utf8', timeout: 30000 });
+    expect(status).toBe(0);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, test } from 'bun:test';
+import type { CodeFix, TextEdit } from '../diagnostics.js';
+import { buildDefinitionTable } from '../filters.js';
+import { parse, type ParseResult } from '../parser.js';
+import {
+  collapseOperations,
+  extractableFilter,
+  extractDefine,
+  mergeRules,
+  refactoringsAt,
+  splitRule,
+  suggestDefineName,
+  unwrapFilter,
+  wrapFilters,
+} from '../refactorings.js';
+import type { SourceRange } from '../source.js';
+
+function applyEdits(text: string, edits: TextEdit[]): string {
+  const sorted = [...edits].sort((a, b) => b.range.start.offset - a.range.start.offset);
+  let result = text;
+  for (const edit of sorted) {
+    result = result.slice(0, edit.range.start.offset) + edit.newText + result.slice(edit.range.end.offset);
+  }
+  return result;
+}
+
+/** The selection between the first `[` and `]` of the text, which are removed; `|` marks a cursor. */
+function select(marked: string): { result: ParseResult; selection: SourceRange; text: string } {
+  const cursor = marked.indexOf('|');
+  const text = cursor >= 0 ? marked.replace('|', '') : marked.replace('[', '').replace(']', '');
+  const start = cursor >= 0 ? cursor : marked.indexOf('[');
+  const end = cursor >= 0 ? cursor : marked.indexOf(']') - 1;
+  const result = parse(text);
+  return { result, selection: result.source.rangeAt(start, end), text };
+}
+
+function refactor(marked: string, apply: (result: ParseResult, selection: SourceRange) => CodeFix | string | undefined): string | undefined {
+  const { result, selection, text } = select(marked);
+  const fix = apply(result, selection);
+  return typeof fix === 'object' ? applyEdits(text, fix.edits) : undefined;
+}
+
+describe('Structural refactorings', () => {
+  test('wraps the selected sibling filters', () => {
+    expect(refactor('(allow file-read* [(subpath "/a") (subpath "/b")] (literal "/c"))',
+      (result, selection) => wrapFilters(result, selection, 'require-any')))
+      .toBe('(allow file-read* (require-any (subpath "/a") (subpath "/b")) (literal "/c"))');
+
+    expect(refactor('(allow file-read*\n  (subpath "/a")\n  (require-any (literal "/b") (lit|eral "/c")))',
+      (result, selection) => wrapFilters(result, selection, 'require-not')))
+      .toBe('(allow file-read*\n  (subpath "/a")\n  (require-any (literal "/b") (require-not (literal "/c"))))');
+
+    expect(refactor('(allow file-read*\n  [(subpath "/a")\n  (subpath "/b")])',
+      (result, selection) => wrapFilters(result, selection, 'require-all')))
+      .toBe('(allow file-read*\n  (require-all\n    (subpath "/a")\n    (subpath "/b")))');
+  });
+
+  test('negates only a single filter', () => {
+    const { result, selection } = select('(allow file-read* [(subpath "/a") (subpath "/b")])');
+    expect(wrapFilters(result, selection, 'require-not')).toBeUndefined();
+    expect(refactoringsAt(result, selection).map((fix) => fix.title))
+      .toEqual(['Wrap 2 filters in (require-any ...)', 'Wrap 2 filters in (require-all ...)']);
+  });
+
+  test('unwraps a compound filter with one child', () => {
+    expect(refactor('(allow file-read* (require-any\n    (sub|path "/a")))', unwrapFilter))
+      .toBe('(allow file-read* (subpath "/a"))');
+    expect(refactor('(allow file-read* (require-any (subpath "/a") (sub|path "/b")))', unwrapFilter)).toBeUndefined();
+  });
+
+  test('splits a rule into one rule per operation', () => {
+    expect(refactor('  (allow file-read-data fi|le-write-data\n    (subpath "/tmp"))', splitRule))
+      .toBe('  (allow file-read-data\n    (subpath "/tmp"))\n  (allow file-write-data\n    (subpath "/tmp"))');
+    expect(refactor('(allow file-read-data| (subpath "/tmp"))', splitRule)).toBeUndefined();
+  });
+
+  test('merges adjacent rules with the same action and filters', () => {
+    const source = [
+      '(allow file-read-data (subpath "/tmp"))',
+      '(allow file-write-data (subpath  "/tmp"))',
+      '(allow file-read-data (subpath "/tmp"))',
+      '(deny network*)',
+    ].join('\n');
+    expect(refactor(source.replace('write', 'wr|ite'), mergeRules)).toBe([
+      '(allow file-read-data file-write-data (subpath "/tmp"))',
+      '(deny network*)',
+    ].join('\n'));
+
+    const lines = source.split('\n');
+    expect(refactor(`[${lines[0]}\n${lines[1]}]\n${lines.slice(2).join('\n')}`, mergeRules)).toBe([
+      '(allow file-read-data file-write-data (subpath "/tmp"))',
+      '(allow file-read-data (subpath "/tmp"))',
+      '(deny network*)',
+    ].join('\n'));
+
+    expect(refactor('(allow file-read-data| (subpath "/tmp"))\n(deny file-write-data (subpath "/tmp"))', mergeRules))
+      .toBeUndefined();
+  });
+
+  test('keeps defined symbols among the operations as filters', () => {
+    const define = '(define usr (subpath "/usr"))\n';
+    expect(refactor(`${define}(allow file-read* usr)`, (result) => splitRule(result, result.profile.rules[0].range)))
+      .toBeUndefined();
+    expect(refactor(`${define}(allow file-read-data file-wr|ite-data usr)`, splitRule))
+      .toBe(`${define}(allow file-read-data usr)\n(allow file-write-data usr)`);
+
+    expect(refactor(`${define}(allow file-read* u|sr)\n(allow process-exec)`, mergeRules)).toBeUndefined();
+    expect(refactor(`${define}(allow file-read-data usr)\n(allow file-write-data u|sr)`, mergeRules))
+      .toBe(`${define}(allow file-read-data file-write-data usr)`);
+
+    // Imported definitions are filters too
+    const { result, selection } = select('(allow file-read-data file-wr|ite-data lib)');
+    const imported = buildDefinitionTable(parse('(define lib (subpath "/usr/lib"))').profile.definitions);
+    expect(splitRule(result, selection, imported)?.edits[0].newText)
+      .toBe('(allow file-read-data lib)\n(allow file-write-data lib)');
+  });
+
+  test('collapses every operation a wildcard covers into the wildcard', () => {
+    expect(refactor('(allow file-read-data file-read-m|etadata file-read-xattr process-exec (subpath "/usr"))', collapseOperations))
+      .toBe('(allow file-read* process-exec (subpath "/usr"))');
+    expect(refactor('(allow file-read-data| file-read-metadata)', collapseOperations)).toBeUndefined();
+    expect(refactor('(allow file* file-read-data file-read-me|tadata file-read-xattr)', collapseOperations)).toBeUndefined();
+
+    // Defined symbols stay filters, and operations split by comments are left alone
+    const define = '(define usr (subpath "/usr"))\n';
+    expect(refactor(`${define}(allow file-read-data u|sr file-read-metadata file-read-xattr)`, collapseOperations))
+      .toBe(`${define}(allow file-read* usr)`);
+    expect(refactor('(allow file-read-data ; data\n  file-read-me|tadata file-read-xattr)', collapseOperations)).toBeUndefined();
+  });
+
+  test('extracts a filter into a define', () => {
+    const marked = '(version 1)\n(allow file-read*\n  (require-any (subpath "/Library/Ca|ches") (literal "/etc/hosts")))';
+    const { result, selection } = select(marked);
+    expect(suggestDefineName(result, extractableFilter(result, selection)!)).toBe('caches');
+
+    expect(refactor(marked, (parsed, range) => extractDefine(parsed, range, 'caches'))).toBe([
+      '(version 1)',
+      '(define caches (subpath "/Library/Caches"))',
+      '(allow file-read*',
+      '  (require-any caches (literal "/etc/hosts")))',
+    ].join('\n'));
+    expect(extractDefine(result, selection, 'subpath')).toBe("'subpath' is a built-in filter");
+    expect(extractDefine(result, selection, '1abc')).toBe("'1abc' is not a valid symbol name");
+    expect(extractDefine(result, selection, 'a@b')).toBe("'a@b' is not a valid symbol name");
+  });
+});
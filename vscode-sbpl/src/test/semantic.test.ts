@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'bun:test';
+import { DiagnosticCode } from '../diagnostics.js';
+import { validateText } from '../validator.js';
+
+function codes(source: string): string[] {
+  return validateText(source).diagnostics.map((d) => d.code);
+}
+
+describe('Semantic checks', () => {
+  test('accepts a valid profile', () => {
+    const source = [
+      '(version 1)',
+      '(deny default)',
+      '(define read-only (require-any (subpath "/System") (subpath "/usr")))',
+      '(allow file-read* read-only)',
+      '(allow mach-lookup (global-name "com.apple.logd"))',
+      '(allow file-read-data (regex #"^/tmp/.*\\.log$"))',
+    ].join('\n');
+    expect(codes(source)).toEqual([]);
+  });
+
+  test('reports unknown operations and filter types with precise ranges', () => {
+    const { diagnostics } = validateText('(version 1)\n(allow file-raed-data (subpathh "/usr"))');
+    expect(diagnostics.map((d) => d.code)).toEqual([
+      DiagnosticCode.UnknownOperation,
+      DiagnosticCode.InvalidFilterType,
+    ]);
+    expect(diagnostics[0].range.start).toEqual({ line: 1, column: 7, offset: 19 });
+    expect(diagnostics[0].range.end.column).toBe(21);
+    expect(diagnostics[1].range.start.column).toBe(23);
+  });
+
+  test('reports undefined variables in filter position', () => {
+    expect(codes('(version 1)\n(allow file-read* (require-any missing-paths (subpath "/a")))')).toEqual([
+      DiagnosticCode.UndefinedVariable,
+    ]);
+  });
+
+  test('reports duplicate definitions with a link to the first one', () => {
+    const { diagnostics } = validateText('(define a (subpath "/a"))\n(define a (subpath "/b"))\n(version 1)\n(allow file-read* a)');
+    expect(diagnostics.map((d) => d.code)).toEqual([DiagnosticCode.DuplicateDefinition]);
+    expect(diagnostics[0].relatedInformation?.[0].range.start.line).toBe(0);
+  });
+
+  test('reports unsupported versions and invalid regexes', () => {
+    expect(codes('(version 2)\n(allow file-read-data (regex #"(unclosed"))')).toEqual([
+      DiagnosticCode.InvalidVersion,
+      DiagnosticCode.InvalidRegex,
+    ]);
+  });
+
+  test('reports regex syntax the POSIX engine rejects', () => {
+    const messages = (pattern: string): string[] => validateText(`(version 1)\n(allow file-read-data (regex #"${pattern}"))`)
+      .diagnostics.map((d) => `${d.code} ${d.message}`);
+    expect(messages('^/Users/[^/]+/(?!Library)')).toEqual([
+      "S010 Invalid regular expression: '(?' groups such as lookarounds are not supported by POSIX regexes",
+    ]);
+    expect(messages('^/tmp/log\\d+$')).toEqual([
+      "S010 Invalid regular expression: '\\d' is not supported by POSIX regexes; use [0-9]",
+    ]);
+    expect(messages('^/tmp/.*?\\.log$')).toEqual([
+      "S010 Invalid regular expression: Lazy and possessive quantifiers such as '*?' are not supported by POSIX regexes",
+    ]);
+    expect(messages('^/tmp/[[:alnum:]\\d?]+\\.(log|txt)$')).toEqual([]);
+  });
+
+  test('checks definitions of a single filter', () => {
+    expect(codes('(version 1)\n(define p (subpathh "/x"))\n(allow file-read* p)')).toEqual([
+      DiagnosticCode.InvalidFilterType,
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, test } from 'bun:test';
+import { buildDefinitionTable } from '../filters.js';
+import { parse } from '../parser.js';
+import { semanticTokens } from '../semanticTokens.js';
+
+/** `text type[.modifier...]` for each token. */
+function classify(lines: string[], imported: string[] = []): string[] {
+  const text = lines.join('\n');
+  const definitions = buildDefinitionTable(parse(imported.join('\n')).profile.definitions);
+  const source = text.split('\n');
+  return semanticTokens(parse(text), definitions).map((token) => {
+    const name = source[token.line].slice(token.column, token.column + token.length);
+    return [name, [token.type, ...token.modifiers].join('.')].join(' ');
+  });
+}
+
+describe('Semantic tokens', () => {
+  test('classifies actions, operations and filters', () => {
+    expect(classify([
+      '(version 1)',
+      '(deny default)',
+      '(allow file-read* mach-per-user-lookup (require-not (subpath "/private")))',
+    ])).toEqual([
+      'version keyword',
+      '1 number',
+      'deny action',
+      'default operation',
+      'allow action',
+      'file-read* operation.wildcard',
+      'mach-per-user-lookup operation.deprecated',
+      'require-not operator',
+      'subpath filter',
+      '"/private" string',
+    ]);
+  });
+
+  test('marks unknown operations, filters and symbols', () => {
+    expect(classify(['(allow file-reed-data (require-any (subpth "/tmp") caches))'])).toEqual([
+      'allow action',
+      'file-reed-data operation.unknown',
+      'require-any operator',
+      'subpth filter.unknown',
+      '"/tmp" string',
+      'caches variable.unknown',
+    ]);
+  });
+
+  test('resolves local and imported definitions', () => {
+    expect(classify([
+      '(import "common.sb")',
+      '(define (under dir) (subpath dir))',
+      '(define tmp (under "/tmp"))',
+      '(allow file-write* tmp logs (under "/var"))',
+    ], ['(define logs (subpath "/var/log"))'])).toEqual([
+      'import keyword',
+      '"common.sb" string',
+      'define keyword',
+      'under function.declaration',
+      'subpath filter',
+      'dir parameter',
+      'define keyword',
+      'tmp variable.declaration',
+      'under function',
+      '"/tmp" string',
+      'allow action',
+      'file-write* operation.wildcard',
+      'tmp variable',
+      'logs variable',
+      'under function',
+      '"/var" string',
+    ]);
+  });
+
+  test('separates regexes from plain strings and enum values', () => {
+    expect(classify([
+      '(allow network-outbound (remote tcp "*:443"))',
+      '(allow file-read* (regex #"^/usr/lib/.*\\.dylib$") (literal "/etc/hosts"))',
+    ])).toEqual([
+      'allow action',
+      'network-outbound operation',
+      'remote filter',
+      'tcp enumMember',
+      '"*:443" string',
+      'allow action',
+      'file-read* operation.wildcard',
+      'regex filter',
+      '#"^/usr/lib/.*\\.dylib$" regexp',
+      'literal filter',
+      '"/etc/hosts" string',
+    ]);
+  });
+
+  test('splits multi-line strings and limits tokens to a range', () => {
+    const result = parse('(allow file-read*\n  (regex #"^/a\nb$"))\n(deny default)');
+    const tokens = semanticTokens(result);
+    expect(tokens.filter((token) => token.type === 'regexp').map(({ line, column, length }) => [line, column, length]))
+      .toEqual([[1, 9, 5], [2, 0, 3]]);
+
+    const lastLine = result.source.rangeAt(result.source.offsetAt(3, 0), result.source.text.length);
+    expect(semanticTokens(result, new Map(), lastLine).map((token) => token.type)).toEqual(['action', 'operation']);
+  });
+});
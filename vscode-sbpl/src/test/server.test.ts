@@ -0,0 +1,169 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { DiagnosticCode } from '../diagnostics.js';
+import { LspHarness } from './lspHarness.js';
+
+interface PublishedDiagnostics {
+  uri: string;
+  diagnostics: Array<{ code?: string; message: string; range: { start: { line: number; character: number } } }>;
+}
+
+interface CompletionItem {
+  label: string;
+  textEdit?: { newText: string };
+}
+
+let root: string;
+let server: LspHarness;
+let version = 1;
+
+function open(name: string, text: string): string {
+  const uri = pathToFileURL(join(root, name)).href;
+  server.notify('textDocument/didOpen', { textDocument: { uri, languageId: 'sbpl', version: version++, text } });
+  return uri;
+}
+
+function diagnosticsFor(uri: string): Promise<PublishedDiagnostics> {
+  return server.waitForNotification<PublishedDiagnostics>('textDocument/publishDiagnostics', (params) => params.uri === uri);
+}
+
+async function completionLabels(uri: string, line: number, character: number): Promise<string[]> {
+  const items = await server.request('textDocument/completion', { textDocument: { uri }, position: { line, character } });
+  return (items as CompletionItem[]).map((item) => item.label);
+}
+
+beforeAll(async () => {
+  root = mkdtempSync(join(tmpdir(), 'sbpl-server-'));
+  writeFileSync(join(root, 'common.sb'), '(define logs (subpath "/var/log"))\n');
+  writeFileSync(join(root, 'saved.sb'), '(version 1)\n(deny default)\n(allow file-reed-data)\n');
+  mkdirSync(join(root, 'node_modules'));
+  writeFileSync(join(root, 'node_modules', 'vendored.sb'), '(allow file-reed-data)\n');
+  server = new LspHarness();
+  await server.initialize(root);
+});
+
+afterAll(async () => {
+  expect(await server.shutdown()).toBe(0);
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('Language server', () => {
+  test('publishes built-in diagnostics on open and change', async () => {
+    const uri = open('broken.sb', '(version 1)\n(deny default)\n(allow file-reed-data)\n');
+    const opened = await diagnosticsFor(uri);
+    expect(opened.diagnostics.map((diag) => diag.code)).toEqual([DiagnosticCode.UnknownOperation]);
+    expect(opened.diagnostics[0].range.start).toEqual({ line: 2, character: 7 });
+
+    server.notify('textDocument/didChange', {
+      textDocument: { uri, version: version++ },
+      contentChanges: [{ text: '(version 1)\n(deny default)\n(allow file-read-data)\n' }],
+    });
+    expect((await diagnosticsFor(uri)).diagnostics).toEqual([]);
+  });
+
+  test('publishes lint diagnostics with their rule IDs', async () => {
+    const uri = open('unsafe.sb', '(version 1)\n(allow default)\n; sbpl-disable-next-line W005\n(allow process-exec)\n');
+    const { diagnostics } = await diagnosticsFor(uri);
+    expect(diagnostics.map((diag) => [diag.code, diag.message, diag.range.start.line])).toEqual([
+      [DiagnosticCode.UnsafeOperation, '(allow default) allows every operation that no later rule denies (allow-default)', 1],
+    ]);
+  });
+
+  test('resolves imports against the workspace folder', async () => {
+    const uri = open('main.sb', '(version 1)\n(import "common.sb")\n(deny default)\n(allow file-read* logs)\n');
+    expect((await diagnosticsFor(uri)).diagnostics).toEqual([]);
+
+    const labels = await completionLabels(uri, 3, 22);
+    expect(labels).toContain('logs');
+  });
+
+  test('completes filters for the rule operations', async () => {
+    const uri = open('complete.sb', '(version 1)\n(allow mach-lookup ()\n');
+    await diagnosticsFor(uri);
+
+    const labels = await completionLabels(uri, 1, 20);
+    expect(labels).toContain('global-name');
+    expect(labels).not.toContain('subpath');
+
+    const items = await server.request('textDocument/completion', {
+      textDocument: { uri },
+      position: { line: 1, character: 20 },
+    }) as CompletionItem[];
+    expect(items.find((item) => item.label === 'global-name')?.textEdit?.newText).toBe('global-name "${1:com.apple.service}"');
+  });
+
+  test('shows hover documentation', async () => {
+    const uri = open('hover.sb', '(version 1)\n(allow mach-lookup (global-name "com.apple.cfprefsd.daemon"))\n');
+    await diagnosticsFor(uri);
+
+    const hover = await server.request('textDocument/hover', {
+      textDocument: { uri },
+      position: { line: 1, character: 10 },
+    }) as { contents: { kind: string; value: string } };
+    expect(hover.contents.kind).toBe('markdown');
+    expect(hover.contents.value).toContain('**mach-lookup**');
+  });
+
+  test('provides semantic tokens with deltas', async () => {
+    const uri = open('tokens.sb', '(version 1)\n(allow file-read*)\n');
+    await diagnosticsFor(uri);
+
+    const full = await server.request('textDocument/semanticTokens/full', { textDocument: { uri } }) as { resultId: string; data: number[] };
+    expect(full.data).toEqual([0, 1, 7, 0, 0, 0, 8, 1, 11, 0, 1, 1, 5, 1, 0, 0, 6, 10, 2, 4]);
+
+    server.notify('textDocument/didChange', {
+      textDocument: { uri, version: version++ },
+      contentChanges: [{ text: '(version 1)\n(allow file-reed)\n' }],
+    });
+    const delta = await server.request('textDocument/semanticTokens/full/delta', {
+      textDocument: { uri },
+      previousResultId: full.resultId,
+    }) as { edits: Array<{ start: number; deleteCount: number; data: number[] }> };
+    expect(delta.edits).toEqual([{ start: 17, deleteCount: 3, data: [9, 2, 8] }]);
+
+    const range = await server.request('textDocument/semanticTokens/range', {
+      textDocument: { uri },
+      range: { start: { line: 1, character: 0 }, end: { line: 2, character: 0 } },
+    }) as { data: number[] };
+    expect(range.data).toEqual([1, 1, 5, 1, 0, 0, 6, 9, 2, 8]);
+  });
+
+  test('publishes diagnostics for workspace profiles that are not open', async () => {
+    const uri = pathToFileURL(join(root, 'saved.sb')).href;
+    const { diagnostics } = await diagnosticsFor(uri);
+    expect(diagnostics.map((diag) => [diag.code, diag.range.start.line])).toEqual([[DiagnosticCode.UnknownOperation, 2]]);
+
+    // Closing it reports the saved contents again
+    open('saved.sb', '(version 1)\n(deny default)\n');
+    expect((await diagnosticsFor(uri)).diagnostics).toEqual([]);
+    server.notify('textDocument/didClose', { textDocument: { uri } });
+    expect((await diagnosticsFor(uri)).diagnostics).toHaveLength(1);
+
+    const created = join(root, 'created.sb');
+    writeFileSync(created, '(version 1)\n(allow default)\n');
+    server.notify('workspace/didChangeWatchedFiles', { changes: [{ uri: pathToFileURL(created).href, type: 1 }] });
+    const published = await diagnosticsFor(pathToFileURL(created).href);
+    expect(published.diagnostics.map((diag) => diag.code)).toEqual([DiagnosticCode.UnsafeOperation]);
+
+    rmSync(created);
+    server.notify('workspace/didChangeWatchedFiles', { changes: [{ uri: pathToFileURL(created).href, type: 3 }] });
+    expect((await diagnosticsFor(pathToFileURL(created).href)).diagnostics).toEqual([]);
+  });
+
+  test('skips excluded workspace profiles', async () => {
+    // Had it been scanned, its saved contents would have been reported first
+    const uri = open('node_modules/vendored.sb', '(version 1)\n(deny default)\n');
+    expect((await diagnosticsFor(uri)).diagnostics).toEqual([]);
+  });
+
+  test('clears diagnostics when a document closes', async () => {
+    const uri = open('closed.sb', '(allow');
+    expect((await diagnosticsFor(uri)).diagnostics.length).toBeGreaterThan(0);
+
+    server.notify('textDocument/didClose', { textDocument: { uri } });
+    expect((await diagnosticsFor(uri)).diagnostics).toEqual([]);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, test } from 'bun:test';
+import { parse } from '../parser.js';
+import { foldingRanges, selectionRanges } from '../structure.js';
+
+describe('Folding ranges', () => {
+  test('fold multi-line forms and comments', () => {
+    const source = [
+      '; Header',
+      '; comment',
+      '(version 1)',
+      '(define caches',
+      '  (require-any',
+      '    (subpath "/a")',
+      '    (subpath "/b")))',
+      '#| block',
+      '   comment |#',
+      '(allow file-read* (subpath "/c")',
+      '  (require-not',
+      '    (literal "/d")))',
+    ].join('\n');
+    expect(foldingRanges(parse(source))).toEqual([
+      { startLine: 0, endLine: 1, kind: 'comment' },
+      { startLine: 3, endLine: 6 },
+      { startLine: 4, endLine: 6 },
+      { startLine: 7, endLine: 8, kind: 'comment' },
+      { startLine: 9, endLine: 11 },
+      { startLine: 10, endLine: 11 },
+    ]);
+  });
+});
+
+describe('Selection ranges', () => {
+  test('expand from the token through each enclosing list', () => {
+    const source = '(allow file-read* (require-any (subpath "/a")))\n(deny default)';
+    const result = parse(source);
+    const texts = selectionRanges(result, source.indexOf('/a')).map((range) => result.source.slice(range));
+    expect(texts).toEqual([
+      '"/a"',
+      '(subpath "/a")',
+      '(require-any (subpath "/a"))',
+      '(allow file-read* (require-any (subpath "/a")))',
+      source,
+    ]);
+  });
+
+  test('extend lists left open to the end of the text', () => {
+    const source = '(allow file-read* (subpath "/a")';
+    const result = parse(source);
+    expect(selectionRanges(result, source.indexOf('subpath')).map((range) => result.source.slice(range)))
+      .toEqual(['subpath', '(subpath "/a")', source]);
+  });
+});
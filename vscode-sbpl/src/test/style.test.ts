@@ -0,0 +1,21 @@
+import { describe, expect, test } from 'bun:test';
+import { DiagnosticCode } from '../diagnostics.js';
+import { parse } from '../parser.js';
+import { checkStyle } from '../style.js';
+
+function codes(source: string): string[] {
+  return checkStyle(parse(source).profile).map((d) => d.code);
+}
+
+describe('Style checks', () => {
+  test('reports unused definitions and a missing version', () => {
+    expect(codes('(define unused (subpath "/a"))\n(allow file-read* (subpath "/b"))')).toEqual([
+      DiagnosticCode.StyleIssue,
+      DiagnosticCode.UnusedDefinition,
+    ]);
+  });
+
+  test('counts references from rules and other definitions', () => {
+    expect(codes('(version 1)\n(define a (subpath "/a"))\n(define b (require-any a))\n(allow file-read* b)')).toEqual([]);
+  });
+});
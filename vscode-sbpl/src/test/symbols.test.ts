@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'bun:test';
+import { parse } from '../parser.js';
+import { documentSymbols, workspaceSymbols } from '../symbols.js';
+
+const source = [
+  '(version 1)',
+  '(debug deny)',
+  '(import "system.sb")',
+  '(define tmp (subpath "/tmp"))',
+  '(define (home path) (home-subpath path))',
+  '(allow file-read* (subpath "/usr"))',
+  '(allow mach-lookup (global-name "com.apple.logd"))',
+  '(deny file-write* tmp)',
+].join('\n');
+
+describe('Document symbols', () => {
+  test('lists headers, definitions and rules grouped by category', () => {
+    const symbols = documentSymbols(parse(source).profile);
+    expect(symbols.map((s) => [s.kind, s.name])).toEqual([
+      ['header', 'version 1'],
+      ['header', 'debug deny'],
+      ['header', 'import "system.sb"'],
+      ['variable', 'tmp'],
+      ['function', 'home'],
+      ['category', 'file'],
+      ['category', 'mach'],
+    ]);
+
+    const file = symbols[5];
+    expect(file.children.map((s) => s.name)).toEqual(['allow file-read*', 'deny file-write*']);
+    expect(file.range.start.line).toBe(5);
+    expect(file.range.end.line).toBe(7);
+  });
+});
+
+describe('Workspace symbols', () => {
+  test('finds definitions and operation usages by substring', () => {
+    const symbols = workspaceSymbols(parse(source).profile, 'FILE');
+    expect(symbols.map((s) => [s.kind, s.name, s.containerName])).toEqual([
+      ['operation', 'file-read*', 'allow file-read*'],
+      ['operation', 'file-write*', 'deny file-write*'],
+    ]);
+    expect(workspaceSymbols(parse(source).profile, 'tm').map((s) => s.kind)).toEqual(['variable']);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test';
+import { ValidationScheduler, type CancellationFlag } from '../validationScheduler.js';
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('Validation scheduler', () => {
+  test('validates new documents at once and debounces edits', async () => {
+    const runs: string[] = [];
+    const scheduler = new ValidationScheduler(async (uri) => {
+      runs.push(uri);
+    });
+
+    scheduler.schedule('a.sb', 50);
+    await sleep(10);
+    expect(runs).toEqual(['a.sb']);
+
+    scheduler.schedule('a.sb', 50);
+    scheduler.schedule('a.sb', 50);
+    scheduler.schedule('a.sb', 50);
+    await sleep(20);
+    expect(runs).toEqual(['a.sb']);
+    await sleep(60);
+    expect(runs).toEqual(['a.sb', 'a.sb']);
+  });
+
+  test('cancels the run in flight when the document is scheduled again', async () => {
+    const published: number[] = [];
+    let run = 0;
+    const scheduler = new ValidationScheduler(async (_uri: string, token: CancellationFlag) => {
+      const current = ++run;
+      await sleep(current === 1 ? 40 : 0);
+      if (!token.cancelled) {
+        published.push(current);
+      }
+    });
+
+    scheduler.schedule('a.sb', 0);
+    await sleep(10);
+    scheduler.schedule('a.sb', 0);
+    await sleep(60);
+    expect(published).toEqual([2]);
+  });
+
+  test('forgets cancelled documents', async () => {
+    const runs: string[] = [];
+    const scheduler = new ValidationScheduler(async (uri) => {
+      runs.push(uri);
+    });
+
+    scheduler.schedule('a.sb', 0);
+    scheduler.schedule('b.sb', 0);
+    scheduler.cancel('a.sb');
+    await sleep(10);
+    expect(runs).toEqual(['b.sb']);
+
+    // A document opened again is new and validated at once
+    scheduler.schedule('b.sb', 1000);
+    scheduler.cancel('b.sb');
+    scheduler.schedule('b.sb', 1000);
+    await sleep(10);
+    expect(runs).toEqual(['b.sb', 'b.sb']);
+    scheduler.dispose();
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, test } from 'bun:test';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parse } from '../parser.js';
+import { parseViolations, renderRules, suggestRules } from '../violations.js';
+
+const fixture = (name: string): string => readFileSync(join(import.meta.dir, 'fixtures', name), 'utf8');
+
+const filtersOf = (rules: ReturnType<typeof suggestRules>['rules']): Record<string, string[]> =>
+  Object.fromEntries(rules.map((rule) => [rule.operation, rule.filters]));
+
+describe('Violation logs', () => {
+  test('parses and deduplicates log show output', () => {
+    const violations = parseViolations(fixture('violations.txt'));
+    expect(violations.length).toBe(9);
+    expect(violations[0]).toEqual({
+      operation: 'file-read-data',
+      argument: '/Users/alex/Library/Preferences/com.example.MyApp.plist',
+      processes: ['MyApp'],
+      count: 2,
+    });
+    expect(violations[2].processes).toEqual(['MyApp Helper']);
+    expect(violations.map((violation) => violation.operation)).toContain('signal');
+  });
+
+  test('parses log show --style json and ndjson', () => {
+    const violations = parseViolations(fixture('violations.json'));
+    expect(violations.map((violation) => [violation.operation, violation.count])).toEqual([
+      ['file-read-data', 1],
+      ['mach-lookup', 2],
+    ]);
+
+    const ndjson = JSON.parse(fixture('violations.json'))
+      .map((entry: unknown) => JSON.stringify(entry))
+      .join('\n');
+    expect(parseViolations(ndjson)).toEqual(violations);
+  });
+});
+
+describe('Rule suggestions', () => {
+  const violations = parseViolations(fixture('violations.txt'));
+
+  test('picks the filter type for each operation', () => {
+    const { rules, unsupported } = suggestRules(violations, 'literal');
+    expect(filtersOf(rules)).toEqual({
+      'file-read-data': [
+        '(literal "/Users/alex/Library/Preferences/com.example.MyApp.plist")',
+        '(literal "/Users/alex/Library/Preferences/com.example.Shared.plist")',
+      ],
+      'file-write-create': ['(literal "/private/var/folders/xy/T/com.example.MyApp/cache.db")'],
+      'mach-lookup': ['(global-name "com.apple.windowserver.active")'],
+      'network-outbound': ['(literal "/private/var/run/mDNSResponder")', '(remote ip "*:443")'],
+      'iokit-open': ['(iokit-user-client-class "IOHIDLibUserClient")'],
+      'file-read-metadata': ['(literal "/usr/lib/libSystem.B.dylib")'],
+    });
+    expect(unsupported.map((violation) => violation.operation)).toEqual(['signal']);
+  });
+
+  test('generalizes paths to subpath and home-subpath', () => {
+    const subpath = filtersOf(suggestRules(violations, 'subpath').rules);
+    expect(subpath['file-read-data']).toEqual(['(subpath "/Users/alex/Library/Preferences")']);
+    expect(subpath['file-read-metadata']).toEqual(['(subpath "/usr/lib")']);
+
+    const home = filtersOf(suggestRules(violations, 'home-subpath').rules);
+    expect(home['file-read-data']).toEqual(['(home-subpath "/Library/Preferences")']);
+    expect(home['file-write-create']).toEqual(['(subpath "/private/var/folders/xy/T/com.example.MyApp")']);
+  });
+
+  test('keeps exact paths whose parent is the root or a home directory', () => {
+    const violations = parseViolations('Sandbox: sh(1) deny(1) file-read-data /Users/alex/.zshrc\nSandbox: sh(1) deny(1) file-read-data /.file');
+    expect(filtersOf(suggestRules(violations, 'subpath').rules)['file-read-data']).toEqual([
+      '(literal "/.file")',
+      '(literal "/Users/alex/.zshrc")',
+    ]);
+    expect(filtersOf(suggestRules(violations, 'home-subpath').rules)['file-read-data']).toEqual([
+      '(home-literal "/.zshrc")',
+      '(literal "/.file")',
+    ]);
+  });
+
+  test('drops paths under another suggested subpath', () => {
+    const log = [
+      'Sandbox: a(1) deny(1) file-read-data /opt/tool/share/data.bin',
+      'Sandbox: a(1) deny(1) file-read-data /opt/tool/share/icons/app.png',
+    ].join('\n');
+    expect(filtersOf(suggestRules(parseViolations(log), 'subpath').rules)['file-read-data']).toEqual([
+      '(subpath "/opt/tool/share")',
+    ]);
+  });
+
+  test('leaves out what the profile already allows', () => {
+    const { profile } = parse('(version 1)\n(deny default)\n(allow mach-lookup (global-name "com.apple.windowserver.active"))\n(allow file-read* (subpath "/usr"))\n');
+    const { rules, allowed } = suggestRules(violations, 'literal', profile);
+    expect(allowed.map((violation) => violation.operation)).toEqual(['mach-lookup', 'file-read-metadata']);
+    expect(rules.map((rule) => rule.operation)).not.toContain('mach-lookup');
+  });
+
+  test('renders formatted rules', () => {
+    const log = 'Sandbox: a(1) deny(1) mach-lookup com.apple.cfprefsd.daemon\nSandbox: a(1) deny(1) network-outbound 127.0.0.1:8080';
+    expect(renderRules(suggestRules(parseViolations(log), 'literal').rules)).toBe([
+      '(allow mach-lookup',
+      '  (global-name "com.apple.cfprefsd.daemon"))',
+      '(allow network-outbound',
+      '  (remote ip "localhost:8080"))',
+      '',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,155 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { spawnSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { globToRegExp, matchesGlob } from '../glob.js';
+import { validateText } from '../validator.js';
+import { DEFAULT_EXCLUDE, findProfiles, formatReports, meetsThreshold, type ProfileReport } from '../workspaceLint.js';
+
+const CLI = join(import.meta.dir, '..', 'lintCli.ts');
+
+let root: string;
+
+function write(path: string, lines: string[]): void {
+  mkdirSync(join(root, path, '..'), { recursive: true });
+  writeFileSync(join(root, path), lines.join('\n') + '\n');
+}
+
+function report(path: string): ProfileReport {
+  const filePath = join(root, path);
+  return { filePath, diagnostics: validateText(readFileSync(filePath, 'utf8'), { filePath, lint: {} }).diagnostics };
+}
+
+function lint(args: string[]): { status: number | null; stdout: string } {
+  const { status, stdout } = spawnSync(process.execPath, [CLI, ...args], { cwd: root, encoding: 'utf8', timeout: 30000 });
+  return { status, stdout };
+}
+
+beforeAll(() => {
+  root = mkdtempSync(join(tmpdir(), 'sbpl-lint-'));
+  write('clean.sb', ['(version 1)', '(deny default)', '(allow file-read* (subpath "/usr"))']);
+  write('profiles/unsafe.sbpl', ['(version 1)', '(deny default)', '(allow process-exec)']);
+  write('profiles/broken.sb', ['(version 1)', '(deny default)', '(allow file-read* (subpath "/usr")']);
+  write('node_modules/dep/vendored.sb', ['(allow default)']);
+  write('generated/out.sb', ['(allow default)']);
+  write('notes.txt', ['(allow default)']);
+});
+
+afterAll(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('Glob patterns', () => {
+  test('match paths and their parent directories', () => {
+    expect(globToRegExp('**/*.sb').test('a/b/c.sb')).toBe(true);
+    expect(globToRegExp('**/*.sb').test('c.sb')).toBe(true);
+    expect(globToRegExp('*.sb').test('a/c.sb')).toBe(false);
+    expect(globToRegExp('profiles/{a,b}?.sb').test('profiles/b1.sb')).toBe(true);
+    expect(matchesGlob('node_modules/dep/vendored.sb', DEFAULT_EXCLUDE)).toBe(true);
+    expect(matchesGlob('node_modules', DEFAULT_EXCLUDE)).toBe(false);
+    expect(matchesGlob('generated/out.sb', ['generated'])).toBe(true);
+    expect(matchesGlob('profiles/out.sb', DEFAULT_EXCLUDE)).toBe(false);
+  });
+
+  test('match unpaired braces literally', () => {
+    expect(globToRegExp('**/*.{sb').test('a/b.{sb')).toBe(true);
+    expect(globToRegExp('**/*.{sb').test('a/b.sb')).toBe(false);
+    expect(globToRegExp('{a,{b}.sb').test('{a,b.sb')).toBe(true);
+    expect(globToRegExp('a}{1}.sb').test('a}1.sb')).toBe(true);
+    expect(matchesGlob('profiles/out.sb', ['profiles/{out'])).toBe(false);
+  });
+});
+
+describe('Workspace profiles', () => {
+  test('finds profiles outside excluded directories', () => {
+    const relative = (exclude: string[]): string[] => findProfiles(root, exclude).map((path) => path.slice(root.length + 1));
+    expect(relative(DEFAULT_EXCLUDE)).toEqual(['clean.sb', 'generated/out.sb', 'profiles/broken.sb', 'profiles/unsafe.sbpl']);
+    expect(relative([...DEFAULT_EXCLUDE, 'generated/**', '**/*.sbpl'])).toEqual(['clean.sb', 'profiles/broken.sb']);
+  });
+
+  test('compares severities with a threshold', () => {
+    expect(meetsThreshold('error', 'error')).toBe(true);
+    expect(meetsThreshold('warning', 'error')).toBe(false);
+    expect(meetsThreshold('warning', 'information')).toBe(true);
+    expect(meetsThreshold('error', 'none')).toBe(false);
+  });
+});
+
+describe('Reports', () => {
+  const reports = (): ProfileReport[] => ['clean.sb', 'profiles/broken.sb', 'profiles/unsafe.sbpl'].map(report);
+
+  test('formats text with a summary', () => {
+    expect(formatReports(reports(), 'text', root)).toBe([
+      'profiles/broken.sb:4:1: error: Expected \')\' [P003]',
+      'profiles/unsafe.sbpl:3:8: warning: Executing any program is allowed; add a path filter [unrestricted-exec]',
+      '',
+      '3 profiles checked: 1 error, 1 warning',
+      '',
+    ].join('\n'));
+    expect(formatReports([report('clean.sb')], 'text', root)).toBe('1 profile checked, no problems found\n');
+  });
+
+  test('formats JSON with 1-based positions', () => {
+    const entries = JSON.parse(formatReports(reports(), 'json', root)) as Array<Record<string, unknown>>;
+    expect(entries).toHaveLength(2);
+    expect(entries[1]).toMatchObject({
+      file: 'profiles/unsafe.sbpl',
+      line: 3,
+      column: 8,
+      severity: 'warning',
+      code: 'W005',
+      rule: 'unrestricted-exec',
+    });
+  });
+
+  test('formats SARIF with rules and relative locations', () => {
+    const log = JSON.parse(formatReports(reports(), 'sarif', root)) as {
+      version: string;
+      runs: Array<{
+        tool: { driver: { name: string; rules: Array<{ id: string }> } };
+        results: Array<{ ruleId: string; level: string; locations: Array<{ physicalLocation: { artifactLocation: { uri: string; uriBaseId: string } } }> }>;
+      }>;
+    };
+    const [run] = log.runs;
+    expect(log.version).toBe('2.1.0');
+    expect(run.tool.driver.name).toBe('sbpl-lint');
+    expect(run.tool.driver.rules.map((rule) => rule.id)).toEqual(['P003', 'unrestricted-exec']);
+    expect(run.results.map((result) => [result.ruleId, result.level])).toEqual([['P003', 'error'], ['unrestricted-exec', 'warning']]);
+    expect(run.results[0].locations[0].physicalLocation.artifactLocation).toEqual({ uri: 'profiles/broken.sb', uriBaseId: 'SRCROOT' });
+  });
+});
+
+describe('sbpl-lint', () => {
+  test('exits with 1 when a diagnostic reaches the threshold', () => {
+    const { status, stdout } = lint([]);
+    expect(status).toBe(1);
+    expect(stdout).toContain('4 profiles checked: 1 error, 2 warnings, 1 note');
+    expect(lint(['--fail-on', 'none']).status).toBe(0);
+    expect(lint(['clean.sb', 'profiles/unsafe.sbpl']).status).toBe(0);
+    expect(lint(['--fail-on', 'warning', 'profiles/unsafe.sbpl']).status).toBe(1);
+  });
+
+  test('reads lint rules and excludes from the workspace settings', () => {
+    write('.vscode/settings.json', [
+      '{',
+      '  // Shared with the editor',
+      '  "sbpl.lint.rules": { "unrestricted-exec": "error" },',
+      '  "sbpl.exclude": ["**/node_modules/**", "generated/**",],',
+      '}',
+    ]);
+    try {
+      const { status, stdout } = lint(['--format', 'json', '--exclude', 'profiles/broken.sb']);
+      expect(status).toBe(1);
+      expect((JSON.parse(stdout) as Array<{ file: string; severity: string }>).map((entry) => [entry.file, entry.severity]))
+        .toEqual([['profiles/unsafe.sbpl', 'error']]);
+    } finally {
+      rmSync(join(root, '.vscode'), { recursive: true, force: true });
+    }
+  });
+
+  test('rejects unknown options', () => {
+    expect(lint(['--format', 'xml']).status).toBe(2);
+    expect(lint(['--strict']).status).toBe(2);
+  });
+});
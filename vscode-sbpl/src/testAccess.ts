@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+import { filterToString, type Filter, type Rule } from './ast.js';
+import { OPERATIONS } from './catalog.js';
+import { toRange } from './convert.js';
+import { evaluateAccess, type AccessQuery } from './evaluator.js';
+import { buildDefinitionTable, ruleOperationNames } from './filters.js';
+import { documentFilePath, getImportOptions } from './importPaths.js';
+import { resolveImports } from './imports.js';
+import { isWildcardOperation, operationCategory } from './operations.js';
+import { parse } from './parser.js';
+
+/** The query field each operation category is tested with. */
+const ARGUMENTS: Record<string, { key: keyof AccessQuery; prompt: string; placeHolder: string }> = {
+  mach: { key: 'globalName', prompt: 'Mach service name (global-name)', placeHolder: 'com.apple.system.logger' },
+  network: { key: 'address', prompt: 'Network address as host:port', placeHolder: 'example.com:443' },
+  iokit: { key: 'iokitClass', prompt: 'IOKit class name', placeHolder: 'IOHIDLibUserClient' },
+};
+const PATH_ARGUMENT = { key: 'path', prompt: 'Absolute path', placeHolder: '/usr/lib/libSystem.dylib' } as const;
+
+/**
+ * `SBPL: Test Access`: asks for an operation and its argument, evaluates the
+ * profile in the editor and reveals the rule and filter that decided.
+ */
+export async function testAccess(editor: vscode.TextEditor): Promise<void> {
+  const { document } = editor;
+
+  const operation = await vscode.window.showQuickPick(
+    OPERATIONS
+      .filter((op) => op.label !== 'default' && !isWildcardOperation(op.label))
+      .map((op) => ({ label: op.label, description: op.detail })),
+    { placeHolder: 'Operation to test' }
+  );
+  if (!operation) {
+    return;
+  }
+
+  const query: AccessQuery = { operation: operation.label };
+  const argument = ARGUMENTS[operationCategory(operation.label) ?? ''] ?? PATH_ARGUMENT;
+  const value = await vscode.window.showInputBox({ prompt: argument.prompt, placeHolder: argument.placeHolder });
+  if (value === undefined) {
+    return;
+  }
+  if (value !== '') {
+    Object.assign(query, { [argument.key]: value });
+  }
+  if (argument.key === 'address' && operation.label.startsWith('network')) {
+    query.protocol = 'tcp';
+  }
+
+  const { profile } = parse(document.getText());
+  const { definitions } = resolveImports(profile, documentFilePath(document), getImportOptions(document.uri));
+  const imported = buildDefinitionTable(definitions.map((entry) => entry.definition));
+  const result = evaluateAccess(profile, query, imported);
+
+  const subject = value ? `${operation.label} ${value}` : operation.label;
+  const verdict = result.decision === 'allow' ? 'Allowed' : 'Denied';
+  let message: string;
+  if (!result.rule) {
+    message = `${verdict}: ${subject} — no rule matches, and unmatched accesses are allowed.`;
+  } else {
+    const line = result.rule.range.start.line + 1;
+    const operations = ruleOperationNames(result.rule, buildDefinitionTable([...profile.definitions, ...imported.values()]));
+    const rule = `(${result.rule.action} ${operations.join(' ')}) on line ${line}`;
+    const filter = result.filter ? `, matched by ${filterSource(result.filter)}` : '';
+    message = `${verdict}: ${subject} — ${rule}${filter}.`;
+
+    // Filters from a define or an imported file are not inside the rule
+    const target = toRange(result.filter && isWrittenIn(result.rule, result.filter) ? result.filter.range : result.rule.range);
+    editor.selection = new vscode.Selection(target.start, target.end);
+    editor.revealRange(target, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+  }
+  if (result.undetermined.length > 0) {
+    const lines = result.undetermined.map((rule) => rule.range.start.line + 1).join(', ');
+    message += ` Rules on lines ${lines} could not be evaluated for this query and may change the result.`;
+  }
+
+  if (result.decision === 'allow') {
+    vscode.window.showInformationMessage(message);
+  } else {
+    vscode.window.showWarningMessage(message);
+  }
+}
+
+/** SBPL source for a leaf filter; expanded filters have no text of their own. */
+function filterSource(filter: Filter): string {
+  switch (filter.kind) {
+    case 'simple':
+    case 'expression':
+      return filterToString(filter);
+    default:
+      return `(${filter.kind === 'not' ? 'require-not' : filter.type} ...)`;
+  }
+}
+
+/** Whether the filter is written in the rule, rather than expanded from a define. */
+function isWrittenIn(rule: Rule, filter: Filter): boolean {
+  const visit = (candidate: Filter): boolean => candidate === filter
+    || (candidate.kind === 'compound' && candidate.filters.some(visit))
+    || (candidate.kind === 'not' && visit(candidate.filter));
+  return rule.filters.some(visit);
+}
@@ -0,0 +1,89 @@
+/**
+ * Per-document validation scheduling.
+ *
+ * Edits to a document restart its debounce timer, so a burst of keystrokes
+ * is validated once. Scheduling a document again also cancels its run in
+ * flight, whose results must then be dropped: a slow run can no longer
+ * overwrite the results of a newer one.
+ */
+
+/** Tells a validation run that a newer one has replaced it. */
+export interface CancellationFlag {
+  readonly cancelled: boolean;
+}
+
+/** Validates a document; it must not publish results once `token.cancelled` is set. */
+export type ValidateFunction = (uri: string, token: CancellationFlag) => Promise<void>;
+
+interface DocumentState {
+  timer?: ReturnType<typeof setTimeout>;
+  /** The token of the scheduled or running validation. */
+  token?: { cancelled: boolean };
+}
+
+export class ValidationScheduler {
+  private readonly documents = new Map<string, DocumentState>();
+
+  constructor(private readonly validate: ValidateFunction) {}
+
+  /**
+   * Validates the document after `delay` milliseconds without another call,
+   * cancelling its pending and running validations. A document scheduled for
+   * the first time is validated right away, so opened files show their
+   * diagnostics without waiting.
+   */
+  schedule(uri: string, delay: number): void {
+    const known = this.documents.has(uri);
+    const state = this.documents.get(uri) ?? {};
+    this.cancelState(state);
+    this.documents.set(uri, state);
+
+    const token = { cancelled: false };
+    state.token = token;
+    state.timer = setTimeout(() => {
+      state.timer = undefined;
+      void this.run(uri, token);
+    }, known ? delay : 0);
+  }
+
+  /** Cancels the document's validations and forgets it, as when it is closed. */
+  cancel(uri: string): void {
+    const state = this.documents.get(uri);
+    if (state) {
+      this.cancelState(state);
+      this.documents.delete(uri);
+    }
+  }
+
+  /** Cancels every validation. */
+  dispose(): void {
+    for (const uri of [...this.documents.keys()]) {
+      this.cancel(uri);
+    }
+  }
+
+  private async run(uri: string, token: { cancelled: boolean }): Promise<void> {
+    if (token.cancelled) {
+      return;
+    }
+    try {
+      await this.validate(uri, token);
+    } finally {
+      const state = this.documents.get(uri);
+      if (state?.token === token) {
+        state.token = undefined;
+      }
+    }
+  }
+
+  private cancelState(state: DocumentState): void {
+    if (state.timer) {
+      clearTimeout(state.timer);
+      state.timer = undefined;
+    }
+    if (state.token) {
+      state.token.cancelled = true;
+      state.token = undefined;
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { analyzeRules } from './analyzer.js';
+import type { Diagnostic } from './diagnostics.js';
+import { buildDefinitionTable } from './filters.js';
+import { applySuppressions, lintProfile, type LintRuleSettings } from './lint.js';
+import { resolveImports, type ImportOptions, type ImportResolution } from './imports.js';
+import { parse, type ParseResult } from './parser.js';
+import { checkSemantics } from './semantic.js';
+import { checkStyle } from './style.js';
+
+/** The result of validating a profile: the parse plus every diagnostic. */
+export interface ValidationResult {
+  parse: ParseResult;
+  /** Present when imports were resolved. */
+  imports?: ImportResolution;
+  diagnostics: Diagnostic[];
+}
+
+export interface ValidationOptions {
+  /** Location of the profile on disk, used to resolve relative imports. */
+  filePath?: string;
+  /** Resolve imports with these options; imports are left opaque when omitted. */
+  imports?: ImportOptions;
+  /** Run the lint rules with these severities by rule ID; they are skipped when omitted. */
+  lint?: LintRuleSettings;
+}
+
+/**
+ * Runs the built-in checker: lexing, parsing, import resolution, semantic
+ * validation, style checks, shadowed/redundant rule analysis and, when
+ * enabled, the security lint rules. Lint diagnostics silenced by
+ * `; sbpl-disable-next-line` comments are dropped.
+ */
+export function validateText(text: string, options: ValidationOptions = {}): ValidationResult {
+  const result = parse(text);
+  const imports = options.imports ? resolveImports(result.profile, options.filePath, options.imports) : undefined;
+  const imported = buildDefinitionTable(imports?.definitions.map((entry) => entry.definition) ?? []);
+  const definitions = buildDefinitionTable([...result.profile.definitions, ...imported.values()]);
+  const diagnostics = [
+    ...result.diagnostics,
+    ...(imports?.diagnostics ?? []),
+    ...checkSemantics(result.profile, imported),
+    ...checkStyle(result.profile),
+    ...analyzeRules(result.profile, definitions),
+    ...(options.lint ? applySuppressions(lintProfile(result.profile, definitions, options.lint), result.tokens) : []),
+  ];
+  diagnostics.sort((a, b) => a.range.start.offset - b.range.start.offset);
+  return imports ? { parse: result, imports, diagnostics } : { parse: result, diagnostics };
+}
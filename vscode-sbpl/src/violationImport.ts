@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import { buildDefinitionTable } from './filters.js';
+import { documentFilePath, getImportOptions } from './importPaths.js';
+import { resolveImports } from './imports.js';
+import { parse } from './parser.js';
+import { parseViolations, renderRules, suggestRules, type PathGeneralization } from './violations.js';
+
+/** Proposed versions of profiles, shown in a diff editor before they are applied. */
+export class SBPLSuggestionPreviewProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  static readonly scheme = 'sbpl-suggestions';
+
+  private readonly contents = new Map<string, string>();
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  /** Stores a proposed version of a document and returns its URI. */
+  propose(source: vscode.Uri, text: string): vscode.Uri {
+    const uri = vscode.Uri.from({ scheme: SBPLSuggestionPreviewProvider.scheme, path: source.path, query: source.toString() });
+    this.contents.set(uri.toString(), text);
+    this.changeEmitter.fire(uri);
+    return uri;
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.toString()) ?? '';
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
+
+const SOURCES = [
+  { label: '$(clippy) Paste from Clipboard', source: 'clipboard' },
+  { label: '$(file) Open Log File...', source: 'file' },
+] as const;
+
+const GENERALIZATIONS: Array<vscode.QuickPickItem & { generalization: PathGeneralization }> = [
+  { label: 'Exact paths', description: 'literal', generalization: 'literal' },
+  { label: 'Parent directories', description: 'subpath', generalization: 'subpath' },
+  { label: 'Parent directories, relative to home', description: 'home-subpath', generalization: 'home-subpath' },
+];
+
+/**
+ * `SBPL: Suggest Rules from Violation Log`: reads sandbox violations from the
+ * clipboard or a log file, previews the `allow` rules they call for as a diff
+ * against the profile, and appends them when accepted.
+ */
+export async function importViolations(editor: vscode.TextEditor, preview: SBPLSuggestionPreviewProvider): Promise<void> {
+  const { document } = editor;
+
+  const log = await readLog();
+  if (log === undefined) {
+    return;
+  }
+  const violations = parseViolations(log);
+  if (violations.length === 0) {
+    vscode.window.showInformationMessage('No sandbox violations found in the log.');
+    return;
+  }
+
+  let generalization: PathGeneralization = 'literal';
+  if (violations.some((violation) => violation.argument?.startsWith('/'))) {
+    const picked = await vscode.window.showQuickPick(GENERALIZATIONS, { placeHolder: 'Allow paths as' });
+    if (!picked) {
+      return;
+    }
+    generalization = picked.generalization;
+  }
+
+  const text = document.getText();
+  const version = document.version;
+  const { profile } = parse(text);
+  const { definitions } = resolveImports(profile, documentFilePath(document), getImportOptions(document.uri));
+  const imported = buildDefinitionTable(definitions.map((entry) => entry.definition));
+  const { rules, allowed, unsupported } = suggestRules(violations, generalization, profile, imported);
+
+  const notes: string[] = [];
+  if (allowed.length > 0) {
+    notes.push(`${allowed.length} already allowed`);
+  }
+  if (unsupported.length > 0) {
+    notes.push(`${unsupported.length} skipped (${[...new Set(unsupported.map((violation) => violation.operation))].join(', ')})`);
+  }
+  const summary = notes.length > 0 ? ` (${notes.join('; ')})` : '';
+  if (rules.length === 0) {
+    vscode.window.showInformationMessage(`No rules to suggest for ${violations.length} violations${summary}.`);
+    return;
+  }
+
+  const separator = text.length === 0 || text.endsWith('\n\n') ? '' : text.endsWith('\n') ? '\n' : '\n\n';
+  const insertion = `${separator}; Suggested from sandbox violations\n${renderRules(rules)}`;
+  const proposed = preview.propose(document.uri, text + insertion);
+  await vscode.commands.executeCommand(
+    'vscode.diff',
+    document.uri,
+    proposed,
+    `${vscode.workspace.asRelativePath(document.uri)} ↔ Suggested Rules`
+  );
+
+  const choice = await vscode.window.showInformationMessage(
+    `Add ${rules.length} suggested rules for ${violations.length} violations${summary}?`,
+    'Apply',
+    'Cancel'
+  );
+  if (choice !== 'Apply') {
+    return;
+  }
+  if (document.version !== version) {
+    vscode.window.showWarningMessage('The profile changed since the rules were suggested; run the command again.');
+    return;
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.insert(document.uri, document.positionAt(text.length), insertion);
+  await vscode.workspace.applyEdit(edit);
+}
+
+async function readLog(): Promise<string | undefined> {
+  const picked = await vscode.window.showQuickPick(SOURCES, { placeHolder: 'Read sandbox violations from' });
+  if (!picked) {
+    return undefined;
+  }
+  if (picked.source === 'clipboard') {
+    return vscode.env.clipboard.readText();
+  }
+
+  const [file] = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    openLabel: 'Read Violations',
+    filters: { 'Logs': ['log', 'txt', 'json', 'ndjson'], 'All Files': ['*'] },
+  }) ?? [];
+  if (!file) {
+    return undefined;
+  }
+  return new TextDecoder().decode(await vscode.workspace.fs.readFile(file));
+}
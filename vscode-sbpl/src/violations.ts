@@ -0,0 +1,262 @@
+import type { Profile } from './ast.js';
+import { evaluateAccess, type AccessQuery } from './evaluator.js';
+import { HOME_PATTERN, isUnderSubpath, type DefinitionTable } from './filters.js';
+import { formatText } from './formatter.js';
+import { operationCategory } from './operations.js';
+
+/**
+ * Sandbox violation logs and the rules that would allow them.
+ *
+ * The kernel reports each violation as
+ *
+ *     Sandbox: MyApp(123) deny(1) file-read-data /Users/x/Library/...
+ *
+ * in `log show` output, and in the `eventMessage` of each entry with
+ * `log show --style json` or `--style ndjson`.
+ */
+
+/** A violation, deduplicated by operation and argument. */
+export interface Violation {
+  operation: string;
+  /** Path, service name, address or class the operation was denied on. */
+  argument?: string;
+  /** Processes that hit it, without pids. */
+  processes: string[];
+  /** Number of log lines reporting it. */
+  count: number;
+}
+
+/** How path filters are generalized from the exact paths in the log. */
+export type PathGeneralization = 'literal' | 'subpath' | 'home-subpath';
+
+export interface SuggestedRule {
+  operation: string;
+  /** Filters as SBPL source, such as `(subpath "/usr/local")`. */
+  filters: string[];
+  violations: Violation[];
+}
+
+export interface Suggestions {
+  rules: SuggestedRule[];
+  /** Violations the profile already allows. */
+  allowed: Violation[];
+  /** Violations with an argument no filter is known for. */
+  unsupported: Violation[];
+}
+
+interface SuggestedFilter {
+  type: string;
+  /** Protocol argument of `remote`. */
+  protocol?: string;
+  value: string;
+}
+
+const VIOLATION_PATTERN = /Sandbox: (.+?)\((\d+)\) deny(?:\(\d+\))? ([a-z][\w*-]*)(?: (.+))?$/;
+
+/** Parses violations from `log show` output, plain or JSON. */
+export function parseViolations(text: string): Violation[] {
+  const violations = new Map<string, Violation>();
+
+  for (const message of logMessages(text)) {
+    const match = VIOLATION_PATTERN.exec(message.trim());
+    if (!match) {
+      continue;
+    }
+    const [, process, , operation, argument] = match;
+    const key = `${operation} ${argument ?? ''}`;
+    let violation = violations.get(key);
+    if (!violation) {
+      violation = { operation, processes: [], count: 0 };
+      if (argument) {
+        violation.argument = argument.trim();
+      }
+      violations.set(key, violation);
+    }
+    violation.count++;
+    if (!violation.processes.includes(process)) {
+      violation.processes.push(process);
+    }
+  }
+
+  return [...violations.values()];
+}
+
+/** The message of each log entry: `eventMessage` for JSON styles, else each line. */
+function logMessages(text: string): string[] {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      const entries: unknown = JSON.parse(trimmed);
+      if (Array.isArray(entries)) {
+        return entries.map(eventMessage).filter((message): message is string => message !== undefined);
+      }
+    } catch {
+      // Not JSON after all; read it line by line
+    }
+  }
+
+  return text.split(/\r?\n/).map((line) => {
+    if (line.trimStart().startsWith('{')) {
+      try {
+        return eventMessage(JSON.parse(line)) ?? line;
+      } catch {
+        return line;
+      }
+    }
+    return line;
+  });
+}
+
+function eventMessage(entry: unknown): string | undefined {
+  if (typeof entry === 'object' && entry !== null && 'eventMessage' in entry) {
+    const message = (entry as { eventMessage: unknown }).eventMessage;
+    return typeof message === 'string' ? message : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Suggests `allow` rules for violations: one rule per operation, with a
+ * filter for each distinct argument. Violations the profile already allows
+ * are left out, so a log can be replayed after some rules were added.
+ */
+export function suggestRules(
+  violations: Violation[],
+  generalization: PathGeneralization,
+  profile?: Profile,
+  imported?: DefinitionTable
+): Suggestions {
+  const rules = new Map<string, SuggestedRule>();
+  const filters = new Map<SuggestedRule, SuggestedFilter[]>();
+  const allowed: Violation[] = [];
+  const unsupported: Violation[] = [];
+
+  for (const violation of violations) {
+    if (profile && evaluateAccess(profile, accessQuery(violation), imported).decision === 'allow') {
+      allowed.push(violation);
+      continue;
+    }
+
+    const filter = violation.argument === undefined ? undefined : filterFor(violation.operation, violation.argument, generalization);
+    if (violation.argument !== undefined && filter === undefined) {
+      unsupported.push(violation);
+      continue;
+    }
+
+    let rule = rules.get(violation.operation);
+    if (!rule) {
+      rule = { operation: violation.operation, filters: [], violations: [] };
+      rules.set(violation.operation, rule);
+      filters.set(rule, []);
+    }
+    rule.violations.push(violation);
+    if (filter && !filters.get(rule)!.some((other) => renderFilter(other) === renderFilter(filter))) {
+      filters.get(rule)!.push(filter);
+    }
+  }
+
+  for (const [rule, candidates] of filters) {
+    rule.filters = withoutCovered(candidates).map(renderFilter).sort();
+  }
+  return { rules: [...rules.values()], allowed, unsupported };
+}
+
+/** The query a violation stands for. */
+function accessQuery(violation: Violation): AccessQuery {
+  const query: AccessQuery = { operation: violation.operation };
+  const argument = violation.argument;
+  if (argument === undefined) {
+    return query;
+  }
+  switch (operationCategory(violation.operation)) {
+    case 'mach':
+      query.globalName = argument;
+      break;
+    case 'iokit':
+      query.iokitClass = argument;
+      break;
+    case 'network':
+      if (argument.startsWith('/')) {
+        query.path = argument;
+      } else {
+        query.address = argument;
+      }
+      break;
+    default:
+      query.path = argument;
+  }
+  return query;
+}
+
+/** The filter allowing an argument. */
+function filterFor(operation: string, argument: string, generalization: PathGeneralization): SuggestedFilter | undefined {
+  const category = operationCategory(operation);
+  if (category === 'mach') {
+    return { type: 'global-name', value: argument };
+  }
+  if (category === 'iokit') {
+    return { type: 'iokit-user-client-class', value: argument };
+  }
+  if (category === 'network' && !argument.startsWith('/')) {
+    return { type: 'remote', protocol: 'ip', value: addressPattern(argument) };
+  }
+  if (operation.startsWith('sysctl-')) {
+    return { type: 'sysctl-name', value: argument };
+  }
+  if (operation.startsWith('user-preference-')) {
+    return { type: 'preference-domain', value: argument };
+  }
+  if (argument.startsWith('/')) {
+    return pathFilter(argument, generalization);
+  }
+  return undefined;
+}
+
+/** SBPL only matches `*` and `localhost` hosts, so other hosts become `*`. */
+function addressPattern(address: string): string {
+  const colon = address.lastIndexOf(':');
+  const host = colon < 0 ? address : address.slice(0, colon);
+  const port = colon < 0 ? '*' : address.slice(colon + 1);
+  const local = ['localhost', '127.0.0.1', '::1', '[::1]'].includes(host);
+  return `${local ? 'localhost' : '*'}:${port}`;
+}
+
+/**
+ * A path filter, generalized to the parent directory when asked. Files
+ * directly in `/` or in the home directory keep their exact path, since
+ * their parent would open up everything.
+ */
+function pathFilter(path: string, generalization: PathGeneralization): SuggestedFilter {
+  const homeMatch = HOME_PATTERN.exec(path);
+  const home = generalization === 'home-subpath' && homeMatch && path.length > homeMatch[0].length ? homeMatch[0] : undefined;
+  const relative = home ? path.slice(home.length) : path;
+  const parent = relative.slice(0, relative.lastIndexOf('/'));
+
+  if (generalization === 'literal' || parent === '' || parent === homeMatch?.[0]) {
+    return { type: home ? 'home-literal' : 'literal', value: relative };
+  }
+  return { type: home ? 'home-subpath' : 'subpath', value: parent };
+}
+
+/** Drops filters inside a subpath filter of the same base. */
+function withoutCovered(filters: SuggestedFilter[]): SuggestedFilter[] {
+  const isHome = (filter: SuggestedFilter): boolean => filter.type.startsWith('home-');
+  const subpaths = filters.filter((filter) => filter.type === 'subpath' || filter.type === 'home-subpath');
+  return filters.filter((filter) =>
+    !/^(home-)?(literal|subpath)$/.test(filter.type) || !subpaths.some((subpath) =>
+      subpath !== filter && isHome(subpath) === isHome(filter) && isUnderSubpath(filter.value, subpath.value)
+    )
+  );
+}
+
+function renderFilter(filter: SuggestedFilter): string {
+  return `(${[filter.type, filter.protocol, JSON.stringify(filter.value)].filter(Boolean).join(' ')})`;
+}
+
+/** Renders suggested rules as formatted SBPL. */
+export function renderRules(rules: SuggestedRule[]): string {
+  const text = rules
+    .map((rule) => `(allow ${[rule.operation, ...rule.filters].join(' ')})`)
+    .join('\n') + '\n';
+  return formatText(text) ?? text;
+}
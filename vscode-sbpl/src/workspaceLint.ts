@@ -0,0 +1,197 @@
+import { readdirSync, type Dirent } from 'node:fs';
+import { extname, join, relative, sep } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { DiagnosticCode, type Diagnostic, type DiagnosticSeverity } from './diagnostics.js';
+import { matchesGlob } from './glob.js';
+import { LINT_RULES } from './lint.js';
+
+/**
+ * Finding profiles in a workspace and reporting their diagnostics.
+ *
+ * Shared by the language server, which publishes diagnostics for profiles
+ * that are not open, and the `sbpl-lint` CLI, so both report the same
+ * problems for the same files.
+ */
+
+/** The diagnostics of one profile. */
+export interface ProfileReport {
+  filePath: string;
+  diagnostics: Diagnostic[];
+}
+
+/** Reports at or above this severity fail a lint run; `none` never fails. */
+export type SeverityThreshold = DiagnosticSeverity | 'none';
+
+export type ReportFormat = 'text' | 'json' | 'sarif';
+
+/** The default of `sbpl.exclude`. */
+export const DEFAULT_EXCLUDE = ['**/node_modules/**', '**/.git/**', '**/.build/**', '**/out/**'];
+
+const PROFILE_EXTENSIONS = new Set(['.sb', '.sbpl']);
+
+const SEVERITY_RANK: Record<DiagnosticSeverity, number> = { hint: 0, information: 1, warning: 2, error: 3 };
+
+const SARIF_LEVELS: Record<DiagnosticSeverity, string> = {
+  error: 'error',
+  warning: 'warning',
+  information: 'note',
+  hint: 'note',
+};
+
+/** Whether the file is a profile by its extension. */
+export function isProfilePath(filePath: string): boolean {
+  return PROFILE_EXTENSIONS.has(extname(filePath));
+}
+
+/** Whether a file or directory under `root` matches one of the `exclude` globs. */
+export function isExcluded(filePath: string, root: string, exclude: string[]): boolean {
+  const relativePath = relative(root, filePath).split(sep).join('/');
+  return matchesGlob(relativePath, exclude);
+}
+
+/**
+ * Every profile under `directory` that is not excluded, sorted by path.
+ * The globs match paths relative to `root`, the workspace folder.
+ */
+export function findProfiles(directory: string, exclude: string[], root = directory): string[] {
+  const profiles: string[] = [];
+  const visit = (directory: string): void => {
+    let entries: Dirent[];
+    try {
+      entries = readdirSync(directory, { withFileTypes: true });
+    } catch {
+      // Unreadable directories are skipped
+      return;
+    }
+    for (const entry of entries) {
+      const path = join(directory, entry.name);
+      if (isExcluded(path, root, exclude)) {
+        continue;
+      }
+      if (entry.isDirectory()) {
+        visit(path);
+      } else if (entry.isFile() && isProfilePath(entry.name)) {
+        profiles.push(path);
+      }
+    }
+  };
+  visit(directory);
+  return profiles.sort();
+}
+
+/** Whether a diagnostic is severe enough to fail a run with this threshold. */
+export function meetsThreshold(severity: DiagnosticSeverity, threshold: SeverityThreshold): boolean {
+  return threshold !== 'none' && SEVERITY_RANK[severity] >= SEVERITY_RANK[threshold];
+}
+
+/** Renders reports in a format; paths are shown relative to `cwd`. */
+export function formatReports(reports: ProfileReport[], format: ReportFormat, cwd: string): string {
+  switch (format) {
+    case 'text':
+      return formatText(reports, cwd);
+    case 'json':
+      return formatJson(reports, cwd);
+    case 'sarif':
+      return formatSarif(reports, cwd);
+  }
+}
+
+/** `file:line:column: severity: message [code]` lines and a summary, like `sbpl-convert check`. */
+function formatText(reports: ProfileReport[], cwd: string): string {
+  const lines: string[] = [];
+  const counts: Record<DiagnosticSeverity, number> = { error: 0, warning: 0, information: 0, hint: 0 };
+  for (const { filePath, diagnostics } of reports) {
+    for (const diag of diagnostics) {
+      const { line, column } = diag.range.start;
+      lines.push(`${displayPath(filePath, cwd)}:${line + 1}:${column + 1}: ${diag.severity}: ${diag.message} [${ruleId(diag)}]`);
+      counts[diag.severity]++;
+    }
+  }
+
+  const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+  const files = plural(reports.length, 'profile');
+  if (lines.length === 0) {
+    return `${files} checked, no problems found\n`;
+  }
+  const summary = [
+    plural(counts.error, 'error'),
+    plural(counts.warning, 'warning'),
+    ...(counts.information + counts.hint > 0 ? [plural(counts.information + counts.hint, 'note')] : []),
+  ];
+  return `${lines.join('\n')}\n\n${files} checked: ${summary.join(', ')}\n`;
+}
+
+/** One object per diagnostic, with 1-based lines and columns. */
+function formatJson(reports: ProfileReport[], cwd: string): string {
+  const entries = reports.flatMap(({ filePath, diagnostics }) => diagnostics.map((diag) => ({
+    file: displayPath(filePath, cwd),
+    line: diag.range.start.line + 1,
+    column: diag.range.start.column + 1,
+    endLine: diag.range.end.line + 1,
+    endColumn: diag.range.end.column + 1,
+    severity: diag.severity,
+    code: diag.code,
+    ...(diag.rule ? { rule: diag.rule } : {}),
+    message: diag.message,
+  })));
+  return JSON.stringify(entries, null, 2) + '\n';
+}
+
+/** A SARIF 2.1.0 log for code scanning services. */
+function formatSarif(reports: ProfileReport[], cwd: string): string {
+  const lintRules = new Map(LINT_RULES.map((rule) => [rule.id, rule]));
+  const codes = new Map(Object.entries(DiagnosticCode).map(([name, code]) => [code as string, name]));
+  const used = [...new Set(reports.flatMap(({ diagnostics }) => diagnostics.map(ruleId)))].sort();
+
+  const rules = used.map((id) => {
+    const lintRule = lintRules.get(id);
+    const description = lintRule?.description ?? codes.get(id)?.replace(/(?<=[a-z])(?=[A-Z])/g, ' ') ?? id;
+    return { id, shortDescription: { text: description } };
+  });
+
+  const results = reports.flatMap(({ filePath, diagnostics }) => diagnostics.map((diag) => ({
+    ruleId: ruleId(diag),
+    level: SARIF_LEVELS[diag.severity],
+    message: { text: diag.message },
+    locations: [{
+      physicalLocation: {
+        artifactLocation: artifactLocation(filePath, cwd),
+        region: {
+          startLine: diag.range.start.line + 1,
+          startColumn: diag.range.start.column + 1,
+          endLine: diag.range.end.line + 1,
+          endColumn: diag.range.end.column + 1,
+        },
+      },
+    }],
+  })));
+
+  const log = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: { driver: { name: 'sbpl-lint', informationUri: 'https://github.com/g-cqd/sbpl-toolchain', rules } },
+      originalUriBaseIds: { SRCROOT: { uri: pathToFileURL(cwd + sep).href } },
+      results,
+    }],
+  };
+  return JSON.stringify(log, null, 2) + '\n';
+}
+
+/** Lint diagnostics are identified by their rule, others by their code. */
+function ruleId(diag: Diagnostic): string {
+  return diag.rule ?? diag.code;
+}
+
+function displayPath(filePath: string, cwd: string): string {
+  const relativePath = relative(cwd, filePath);
+  return relativePath.startsWith('..') ? filePath : relativePath;
+}
+
+function artifactLocation(filePath: string, cwd: string): { uri: string; uriBaseId?: string } {
+  const relativePath = relative(cwd, filePath);
+  if (relativePath.startsWith('..')) {
+    return { uri: pathToFileURL(filePath).href };
+  }
+  return { uri: relativePath.split(sep).map(encodeURIComponent).join('/'), uriBaseId: 'SRCROOT' };
+}